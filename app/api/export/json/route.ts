@@ -1,31 +1,9 @@
-import { NextRequest, NextResponse } from "next/server";
-import { cacheGet } from "@/lib/cache";
+import { NextRequest } from "next/server";
+import { handleExport } from "@/lib/export";
 
 export const maxDuration = 30;
 
+/** Export a run or a run diff (see handleExport); defaults to JSON. */
 export async function GET(request: NextRequest) {
-  const runId = request.nextUrl.searchParams.get("runId");
-  if (!runId) {
-    return NextResponse.json(
-      { error: "Missing runId query parameter" },
-      { status: 400 }
-    );
-  }
-
-  const users = cacheGet(runId);
-  if (!users) {
-    return NextResponse.json(
-      { error: "Run not found or expired" },
-      { status: 404 }
-    );
-  }
-
-  return new NextResponse(JSON.stringify(users, null, 2), {
-    status: 200,
-    headers: {
-      "Content-Type": "application/json",
-      "Content-Disposition":
-        'attachment; filename="uganda_github_users.json"',
-    },
-  });
+  return handleExport(request, "json");
 }
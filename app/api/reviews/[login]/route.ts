@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import { getRunStore } from "@/lib/runs";
+import { Review, isReviewState } from "@/lib/reviews";
+
+type Params = { params: Promise<{ login: string }> };
+
+/** GitHub logins: alphanumerics and single hyphens, at most 39 characters. */
+const LOGIN_RE = /^[a-z\d](?:[a-z\d-]{0,38})$/i;
+
+/** Longest note accepted, in characters. */
+const MAX_NOTE_LENGTH = 2000;
+
+/** Set the review state and note of a login. */
+export async function PUT(request: Request, { params }: Params) {
+  const { login } = await params;
+  if (!LOGIN_RE.test(login)) {
+    return NextResponse.json({ error: "Invalid login" }, { status: 400 });
+  }
+
+  let body: { state?: unknown; note?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  if (!isReviewState(body.state)) {
+    return NextResponse.json(
+      { error: `Unknown review state: ${body.state}` },
+      { status: 400 }
+    );
+  }
+  if (body.note !== undefined && typeof body.note !== "string") {
+    return NextResponse.json(
+      { error: "note must be a string" },
+      { status: 400 }
+    );
+  }
+
+  const review: Review = {
+    login,
+    state: body.state,
+    note: (body.note ?? "").slice(0, MAX_NOTE_LENGTH),
+    updatedAt: new Date().toISOString(),
+  };
+  await getRunStore().saveReview(review);
+  return NextResponse.json(review);
+}
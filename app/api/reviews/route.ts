@@ -0,0 +1,8 @@
+import { NextResponse } from "next/server";
+import { getRunStore } from "@/lib/runs";
+
+/** List every saved review, keyed by login across runs. */
+export async function GET() {
+  const reviews = await getRunStore().listReviews();
+  return NextResponse.json({ reviews });
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getRunStore } from "@/lib/runs";
+import {
+  collectLabeledLocations,
+  loadCountryProfile,
+  proposeRules,
+} from "@/lib/rules";
+
+export const maxDuration = 30;
+
+/**
+ * Propose location rules from reviewed users, with precision / recall
+ * against them. Query: `country` (default uganda), `threshold` (score needed
+ * to accept a location, default 50) and `minSupport` (default 2).
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const profile = await loadCountryProfile(searchParams.get("country"));
+  if (!profile) {
+    return NextResponse.json({ error: "Unknown country" }, { status: 400 });
+  }
+  const threshold = Number(searchParams.get("threshold") ?? 50);
+  const minSupport = Number(searchParams.get("minSupport") ?? 2);
+  if (!Number.isFinite(threshold) || !(minSupport >= 1)) {
+    return NextResponse.json(
+      { error: "threshold must be a number and minSupport at least 1" },
+      { status: 400 }
+    );
+  }
+
+  const samples = await collectLabeledLocations(getRunStore(), profile.id);
+  return NextResponse.json({
+    country: profile.id,
+    ...proposeRules(samples, profile, { threshold, minSupport }),
+  });
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCountryProfile } from "@/lib/countries";
+import {
+  RuleChange,
+  applyProposals,
+  emptyRules,
+  loadRules,
+  saveRules,
+} from "@/lib/rules";
+
+/** Learned rules of a country (`?country=`, default uganda). */
+export async function GET(request: NextRequest) {
+  const country = request.nextUrl.searchParams.get("country");
+  const profile = getCountryProfile(country);
+  if (!profile) {
+    return NextResponse.json({ error: "Unknown country" }, { status: 400 });
+  }
+  const rules = (await loadRules())[profile.id] ?? emptyRules();
+  return NextResponse.json({ country: profile.id, rules });
+}
+
+/** Trimmed `value`, or null unless it is a non-empty string. */
+function trimmed(value: unknown): string | null {
+  return typeof value === "string" ? value.trim() || null : null;
+}
+
+/**
+ * Parse the rule changes of a request body, or null if any is malformed. An
+ * empty term is malformed: an empty marker would veto every location.
+ */
+function parseChanges(value: unknown): RuleChange[] | null {
+  if (!Array.isArray(value)) return null;
+  const changes: RuleChange[] = [];
+  for (const p of value as Record<string, unknown>[]) {
+    if (p?.kind === "alias") {
+      const from = trimmed(p.from)?.toLowerCase();
+      const to = trimmed(p.to)?.toLowerCase();
+      if (!from || !to) return null;
+      changes.push({ kind: "alias", from, to });
+    } else if (p?.kind === "falsePositiveMarker") {
+      const marker = trimmed(p.marker)?.toLowerCase();
+      if (!marker) return null;
+      changes.push({ kind: "falsePositiveMarker", marker });
+    } else if (p?.kind === "scoreAdjustment" && Number.isFinite(p.delta)) {
+      const term = trimmed(p.term);
+      if (!term) return null;
+      const delta = Math.min(Math.max(Number(p.delta), -100), 100);
+      changes.push({ kind: "scoreAdjustment", term, delta });
+    } else {
+      return null;
+    }
+  }
+  return changes;
+}
+
+/**
+ * Save approved rules: `{ country, proposals }`, where proposals are entries
+ * of GET /api/rules/proposals. Returns the country's updated rules.
+ */
+export async function POST(request: Request) {
+  let body: { country?: string; proposals?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const profile = getCountryProfile(body.country);
+  if (!profile) {
+    return NextResponse.json(
+      { error: `Unknown country: ${body.country}` },
+      { status: 400 }
+    );
+  }
+  const changes = parseChanges(body.proposals);
+  if (!changes) {
+    return NextResponse.json(
+      { error: "proposals must be an array of rule proposals" },
+      { status: 400 }
+    );
+  }
+
+  const file = await loadRules();
+  const rules = applyProposals(file[profile.id] ?? emptyRules(), changes);
+  await saveRules({ ...file, [profile.id]: rules });
+  return NextResponse.json({ country: profile.id, rules });
+}
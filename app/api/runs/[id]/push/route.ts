@@ -0,0 +1,109 @@
+import { NextResponse } from "next/server";
+import { getRunStore } from "@/lib/runs";
+import { applyReviews } from "@/lib/reviews";
+import { filterUsers, parseFilterParams } from "@/lib/filters";
+import { getPushTargets, pushUsers } from "@/lib/push";
+
+type Params = { params: Promise<{ id: string }> };
+
+/** Configured push targets and the push status of the run's users. */
+export async function GET(_request: Request, { params }: Params) {
+  const { id } = await params;
+  const store = getRunStore();
+  if (!(await store.get(id))) {
+    return NextResponse.json({ error: "Run not found" }, { status: 404 });
+  }
+  return NextResponse.json({
+    targets: getPushTargets().map((t) => t.name),
+    pushes: await store.listPushes(id),
+  });
+}
+
+/**
+ * Push users of the run to a configured target:
+ * `{ target, logins?, query?, dryRun?, force? }`. `query` selects users with
+ * the results-table filter parameters (see lib/filters.ts), e.g.
+ * `"review=confirmed"`; with both, users must match both. One of them is
+ * required, so a push never sends a whole run by accident.
+ */
+export async function POST(request: Request, { params }: Params) {
+  const { id } = await params;
+
+  let body: {
+    target?: unknown;
+    logins?: unknown;
+    query?: unknown;
+    dryRun?: unknown;
+    force?: unknown;
+  };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const target = getPushTargets().find((t) => t.name === body.target);
+  if (!target) {
+    return NextResponse.json(
+      { error: `Push target not configured: ${body.target}` },
+      { status: 400 }
+    );
+  }
+  if (
+    body.logins !== undefined &&
+    !(
+      Array.isArray(body.logins) &&
+      body.logins.every((l) => typeof l === "string")
+    )
+  ) {
+    return NextResponse.json(
+      { error: "logins must be an array of strings" },
+      { status: 400 }
+    );
+  }
+  if (body.query !== undefined && typeof body.query !== "string") {
+    return NextResponse.json(
+      { error: "query must be a string" },
+      { status: 400 }
+    );
+  }
+  if (body.logins === undefined && body.query === undefined) {
+    return NextResponse.json(
+      { error: "Either logins or query is required" },
+      { status: 400 }
+    );
+  }
+
+  const store = getRunStore();
+  const run = await store.get(id);
+  if (!run) {
+    return NextResponse.json({ error: "Run not found" }, { status: 404 });
+  }
+
+  const selected = body.logins as string[] | undefined;
+  let logins = selected ?? [];
+  if (body.query !== undefined) {
+    let filters;
+    try {
+      filters = parseFilterParams(new URLSearchParams(body.query));
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Invalid query";
+      return NextResponse.json({ error: message }, { status: 400 });
+    }
+    const matching = filterUsers(
+      applyReviews(run.users, await store.listReviews()),
+      filters
+    ).map((u) => u.login);
+    // Logins are case-insensitive, as in planPush.
+    const picked = selected && new Set(selected.map((l) => l.toLowerCase()));
+    logins = picked
+      ? matching.filter((login) => picked.has(login.toLowerCase()))
+      : matching;
+  }
+
+  const result = await pushUsers(store, run, target, logins, {
+    dryRun: body.dryRun === true,
+    force: body.force === true,
+  });
+  return NextResponse.json(result);
+}
@@ -0,0 +1,14 @@
+import { NextResponse } from "next/server";
+import { getRunStore } from "@/lib/runs";
+
+type Params = { params: Promise<{ id: string }> };
+
+/** Delete a stored run. */
+export async function DELETE(_request: Request, { params }: Params) {
+  const { id } = await params;
+  const deleted = await getRunStore().delete(id);
+  if (!deleted) {
+    return NextResponse.json({ error: "Run not found" }, { status: 404 });
+  }
+  return new NextResponse(null, { status: 204 });
+}
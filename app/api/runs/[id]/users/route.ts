@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getRunStore } from "@/lib/runs";
+import { applyReviews } from "@/lib/reviews";
+import {
+  PageRequest,
+  UserFilters,
+  filterUsers,
+  pageUsers,
+  parseFilterParams,
+  parsePageParams,
+} from "@/lib/filters";
+
+type Params = { params: Promise<{ id: string }> };
+
+/**
+ * Query a stored run's users with the results-table filters and sort (see
+ * lib/filters.ts), one page at a time: `limit` plus `offset` or the
+ * previous page's `nextCursor` as `cursor`.
+ */
+export async function GET(request: NextRequest, { params }: Params) {
+  const { id } = await params;
+  const { searchParams } = request.nextUrl;
+
+  let filters: UserFilters;
+  let page: PageRequest;
+  try {
+    filters = parseFilterParams(searchParams);
+    page = parsePageParams(searchParams);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Invalid query";
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+
+  const store = getRunStore();
+  const run = await store.get(id);
+  if (!run) {
+    return NextResponse.json({ error: "Run not found" }, { status: 404 });
+  }
+
+  const users = filterUsers(
+    applyReviews(run.users, await store.listReviews()),
+    filters
+  );
+  return NextResponse.json({ runId: run.runId, ...pageUsers(users, page) });
+}
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from "next/server";
+import { loadRunDiff } from "@/lib/diff";
+
+/** Diff two stored runs: `?from=<older runId>&to=<newer runId>`. */
+export async function GET(request: NextRequest) {
+  const from = request.nextUrl.searchParams.get("from");
+  const to = request.nextUrl.searchParams.get("to");
+  if (!from || !to) {
+    return NextResponse.json(
+      { error: "Both from and to query parameters are required" },
+      { status: 400 }
+    );
+  }
+
+  const diff = await loadRunDiff(from, to);
+  if (!diff) {
+    return NextResponse.json({ error: "Run not found" }, { status: 404 });
+  }
+
+  return NextResponse.json(diff);
+}
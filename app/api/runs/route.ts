@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+import { getRunStore } from "@/lib/runs";
+
+/**
+ * List stored runs (without users), newest first, and the checkpoints of
+ * unfinished runs that can be resumed with POST /api/scrape/:id/resume.
+ */
+export async function GET() {
+  const store = getRunStore();
+  const [runs, incomplete] = await Promise.all([
+    store.list(),
+    store.listCheckpoints(),
+  ]);
+  return NextResponse.json({ runs, incomplete });
+}
@@ -0,0 +1,69 @@
+import { NextResponse } from "next/server";
+import { getJob, subscribeJob, JobEvent } from "@/lib/jobs";
+
+export const dynamic = "force-dynamic";
+export const maxDuration = 300;
+
+type Params = { params: Promise<{ id: string }> };
+
+/**
+ * Server-Sent Events stream of a scrape job's progress.
+ *
+ * Each message's data is a JSON JobEvent. Past events are replayed first,
+ * and the stream closes after the terminal completed/failed/cancelled event.
+ */
+export async function GET(request: Request, { params }: Params) {
+  const { id } = await params;
+  const job = getJob(id);
+  if (!job) {
+    return NextResponse.json({ error: "Job not found" }, { status: 404 });
+  }
+
+  const encoder = new TextEncoder();
+  let unsubscribe: (() => void) | null = null;
+  let closed = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (event: JobEvent) =>
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        unsubscribe?.();
+        controller.close();
+      };
+
+      for (const event of job.events) send(event);
+      if (job.status !== "running") {
+        close();
+        return;
+      }
+
+      unsubscribe = subscribeJob(id, (event) => {
+        send(event);
+        if (
+          event.type === "completed" ||
+          event.type === "failed" ||
+          event.type === "cancelled"
+        ) {
+          close();
+        }
+      });
+
+      request.signal.addEventListener("abort", close);
+    },
+    cancel() {
+      closed = true;
+      unsubscribe?.();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { resumeJob } from "@/lib/jobs";
+import { ScrapeJobResponse } from "@/lib/types/user";
+
+type Params = { params: Promise<{ id: string }> };
+
+/**
+ * Resume an interrupted run from its checkpoint, as a new job with the same
+ * id. Completed searches and fetched profiles are not repeated.
+ */
+export async function POST(_request: Request, { params }: Params) {
+  const { id } = await params;
+  let job;
+  try {
+    job = await resumeJob(id);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: 409 });
+  }
+  if (!job) {
+    return NextResponse.json(
+      { error: "No checkpoint for this run" },
+      { status: 404 }
+    );
+  }
+
+  const resp: ScrapeJobResponse = { jobId: job.id };
+  return NextResponse.json(resp, { status: 202 });
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import { cancelJob, getJob } from "@/lib/jobs";
+
+type Params = { params: Promise<{ id: string }> };
+
+/** Current status and progress snapshot of a scrape job. */
+export async function GET(_request: Request, { params }: Params) {
+  const { id } = await params;
+  const job = getJob(id);
+  if (!job) {
+    return NextResponse.json({ error: "Job not found" }, { status: 404 });
+  }
+
+  const { events: _events, ...snapshot } = job;
+  return NextResponse.json(snapshot);
+}
+
+/** Cancel a running scrape job. */
+export async function DELETE(_request: Request, { params }: Params) {
+  const { id } = await params;
+  const job = getJob(id);
+  if (!job) {
+    return NextResponse.json({ error: "Job not found" }, { status: 404 });
+  }
+
+  if (!cancelJob(id)) {
+    return NextResponse.json(
+      { error: `Job already ${job.status}` },
+      { status: 409 }
+    );
+  }
+
+  return NextResponse.json({ jobId: id, status: "cancelling" }, { status: 202 });
+}
@@ -1,9 +1,9 @@
 import { NextResponse } from "next/server";
-import { scrapeUsers, ScrapeOptions } from "@/lib/github";
-import { cacheSet } from "@/lib/cache";
-import { ScrapeRequest, ScrapeResponse } from "@/lib/types/user";
-
-export const maxDuration = 60;
+import { ScrapeOptions } from "@/lib/github";
+import { startJob } from "@/lib/jobs";
+import { loadCountryProfile } from "@/lib/rules";
+import { resolveScrapeRequest } from "@/lib/request";
+import { ScrapeRequest, ScrapeJobResponse } from "@/lib/types/user";
 
 export async function POST(request: Request) {
   let body: ScrapeRequest;
@@ -13,52 +13,25 @@ export async function POST(request: Request) {
     return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
   }
 
-  const {
-    locations = ["Uganda", "Kampala"],
-    minRepos = 0,
-    minFollowers = 0,
-    maxPagesPerQuery = 3,
-    perPage = 100,
-    concurrency = 5,
-    minScore = 50,
-  } = body;
-
-  if (!Array.isArray(locations) || locations.length === 0) {
+  // Built-in profile plus any learned rules (see lib/rules.ts).
+  const country = await loadCountryProfile(body.country);
+  if (!country) {
     return NextResponse.json(
-      { error: "locations must be a non-empty array" },
+      { error: `Unknown country: ${body.country}` },
       { status: 400 }
     );
   }
 
-  const opts: ScrapeOptions = {
-    locations,
-    minRepos,
-    minFollowers,
-    maxPagesPerQuery: Math.min(maxPagesPerQuery, 10),
-    perPage: Math.min(perPage, 100),
-    concurrency: Math.min(concurrency, 10),
-    minScore,
-  };
-
+  let scrapeRequest: ScrapeRequest;
   try {
-    const { users, totalCandidates, uniqueUsers } = await scrapeUsers(opts);
-
-    const runId = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
-    cacheSet(runId, users);
-
-    const resp: ScrapeResponse = {
-      runId,
-      stats: {
-        totalCandidates,
-        uniqueUsers,
-        keptAfterFilter: users.length,
-      },
-      users,
-    };
-
-    return NextResponse.json(resp);
+    scrapeRequest = resolveScrapeRequest(body, country);
   } catch (err) {
-    const message = err instanceof Error ? err.message : "Unknown error";
-    return NextResponse.json({ error: message }, { status: 500 });
+    const message = err instanceof Error ? err.message : "Invalid request";
+    return NextResponse.json({ error: message }, { status: 400 });
   }
+  const opts: ScrapeOptions = { ...scrapeRequest, country };
+
+  const job = startJob(opts, scrapeRequest);
+  const resp: ScrapeJobResponse = { jobId: job.id };
+  return NextResponse.json(resp, { status: 202 });
 }
@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { loadWebhooks, saveWebhooks } from "@/lib/webhooks";
+
+type Params = { params: Promise<{ id: string }> };
+
+/** Remove a subscription. Its past deliveries stay in the log. */
+export async function DELETE(_request: Request, { params }: Params) {
+  const { id } = await params;
+  const { subscriptions } = await loadWebhooks();
+  const remaining = subscriptions.filter((s) => s.id !== id);
+  if (remaining.length === subscriptions.length) {
+    return NextResponse.json(
+      { error: "Subscription not found" },
+      { status: 404 }
+    );
+  }
+  await saveWebhooks({ subscriptions: remaining });
+  return new NextResponse(null, { status: 204 });
+}
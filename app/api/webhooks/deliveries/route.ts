@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getRunStore } from "@/lib/runs";
+
+/**
+ * The webhook delivery log, newest first, optionally for one run
+ * (`?runId=`) or subscription (`?subscriptionId=`).
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const runId = searchParams.get("runId");
+  const subscriptionId = searchParams.get("subscriptionId");
+  const deliveries = (await getRunStore().listDeliveries()).filter(
+    (d) =>
+      (!runId || d.runId === runId) &&
+      (!subscriptionId || d.subscriptionId === subscriptionId)
+  );
+  return NextResponse.json({ deliveries });
+}
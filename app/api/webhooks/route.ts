@@ -0,0 +1,91 @@
+import { randomUUID } from "node:crypto";
+import { NextResponse } from "next/server";
+import {
+  WEBHOOK_EVENTS,
+  WebhookEvent,
+  WebhookSubscription,
+  createWebhookSecret,
+  isWebhookEvent,
+  loadWebhooks,
+  saveWebhooks,
+} from "@/lib/webhooks";
+
+/** Subscriptions without their secrets. */
+export async function GET() {
+  const { subscriptions } = await loadWebhooks();
+  return NextResponse.json({
+    events: WEBHOOK_EVENTS,
+    subscriptions: subscriptions.map(({ secret: _secret, ...rest }) => rest),
+  });
+}
+
+/**
+ * Subscribe a URL: `{ url, events, secret?, description? }`. Without a
+ * secret one is generated; the response is the only place it is returned.
+ */
+export async function POST(request: Request) {
+  let body: {
+    url?: unknown;
+    events?: unknown;
+    secret?: unknown;
+    description?: unknown;
+  };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  let url: URL | null = null;
+  try {
+    url = new URL(String(body.url));
+  } catch {
+    // reported below
+  }
+  if (!url || (url.protocol !== "https:" && url.protocol !== "http:")) {
+    return NextResponse.json(
+      { error: "url must be an http(s) URL" },
+      { status: 400 }
+    );
+  }
+  if (
+    !Array.isArray(body.events) ||
+    body.events.length === 0 ||
+    !body.events.every(isWebhookEvent)
+  ) {
+    const expected = WEBHOOK_EVENTS.join(", ");
+    return NextResponse.json(
+      { error: `events must be a non-empty list of ${expected}` },
+      { status: 400 }
+    );
+  }
+  if (
+    body.secret !== undefined &&
+    (typeof body.secret !== "string" || !body.secret)
+  ) {
+    return NextResponse.json(
+      { error: "secret must be a non-empty string" },
+      { status: 400 }
+    );
+  }
+  if (body.description !== undefined && typeof body.description !== "string") {
+    return NextResponse.json(
+      { error: "description must be a string" },
+      { status: 400 }
+    );
+  }
+
+  const subscription: WebhookSubscription = {
+    id: randomUUID(),
+    url: url.toString(),
+    secret: (body.secret as string | undefined) ?? createWebhookSecret(),
+    events: [...new Set(body.events as WebhookEvent[])],
+    ...(body.description ? { description: body.description } : {}),
+    createdAt: new Date().toISOString(),
+  };
+  const config = await loadWebhooks();
+  await saveWebhooks({
+    subscriptions: [...config.subscriptions, subscription],
+  });
+  return NextResponse.json(subscription, { status: 201 });
+}
@@ -1,8 +1,39 @@
 "use client";
 
-import { useState, useMemo, useCallback } from "react";
-import type { UgandaUser, ScrapeResponse } from "@/lib/types/user";
+import { useState, useMemo, useCallback, useEffect, useRef } from "react";
+import type {
+  UgandaUser,
+  ScrapeResponse,
+  ScrapeJobResponse,
+} from "@/lib/types/user";
+import type { JobEvent } from "@/lib/jobs";
+import {
+  applyProgressEvent,
+  emptyProgress,
+  type ScrapeProgress,
+} from "@/lib/progress";
 import { WEB3_SKILLS, detectWeb3Skills, type Web3Skill } from "@/lib/web3";
+import { COUNTRY_PROFILES, DEFAULT_COUNTRY } from "@/lib/countries";
+import {
+  DEFAULT_SIGNAL_WEIGHTS,
+  SIGNAL_NAMES,
+  formatSignalReason,
+  type SignalWeights,
+} from "@/lib/signals";
+import {
+  REVIEW_KEYS,
+  REVIEW_STATES,
+  applyReviews,
+  type Review,
+  type ReviewState,
+} from "@/lib/reviews";
+import {
+  DEFAULT_FILTERS,
+  filterUsers,
+  filtersToParams,
+  type SortKey,
+  type UserFilters,
+} from "@/lib/filters";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Checkbox } from "@/components/ui/checkbox";
@@ -18,31 +49,26 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { RunDiffView } from "@/components/run-diff";
 
 // ---------------------------------------------------------------------------
 // Constants
 // ---------------------------------------------------------------------------
 
-const ALL_LOCATIONS = [
-  "Uganda",
-  "Kampala",
-  "Entebbe",
-  "Jinja",
-  "Mbarara",
-  "Gulu",
-  "Mbale",
-  "Mukono",
-  "Wakiso",
-  "Lira",
-  "Kasese",
-  "Fort Portal",
-  "Arua",
-  "Soroti",
-  "Kabale",
-  "Masaka",
-];
-
-type SortKey = "score" | "followers" | "repos" | "newest";
+/** "Active within" filter choices, in days (0 = any). */
+const ACTIVE_WITHIN_DAYS = [0, 30, 90, 365];
+
+/** Formats offered next to the JSON download (see lib/export.ts). */
+const TABLE_EXPORT_FORMATS = ["csv", "tsv", "ndjson", "xlsx", "parquet"] as const;
+type TableExportFormat = (typeof TABLE_EXPORT_FORMATS)[number];
+
+/** Wait before reconnecting a dropped progress stream (ms). */
+const RECONNECT_DELAY_MS = 2_000;
+
+/** Split the organisations input on commas and whitespace. */
+function parseOrgs(text: string): string[] {
+  return text.split(/[\s,]+/).filter(Boolean);
+}
 
 // ---------------------------------------------------------------------------
 // Component
@@ -50,22 +76,50 @@ type SortKey = "score" | "followers" | "repos" | "newest";
 
 export default function HomePage() {
   // --- form state ---
-  const [locations, setLocations] = useState<string[]>([
-    "Uganda",
-    "Kampala",
-    "Entebbe",
-  ]);
+  const [country, setCountry] = useState(DEFAULT_COUNTRY);
+  const profile = COUNTRY_PROFILES[country];
+  const [locations, setLocations] = useState<string[]>(
+    COUNTRY_PROFILES[DEFAULT_COUNTRY].defaultLocations
+  );
+  const [orgsText, setOrgsText] = useState("");
   const [minRepos, setMinRepos] = useState(0);
   const [minFollowers, setMinFollowers] = useState(0);
   const [maxPages, setMaxPages] = useState(3);
   const [concurrency, setConcurrency] = useState(5);
   const [minScore, setMinScore] = useState(50);
+  const [signalWeights, setSignalWeights] = useState<SignalWeights>(
+    DEFAULT_SIGNAL_WEIGHTS
+  );
+  const [partition, setPartition] = useState(false);
+  const [refreshHours, setRefreshHours] = useState(0);
+  const [fetchMode, setFetchMode] = useState<"rest" | "graphql">("rest");
+  const [enrichRepos, setEnrichRepos] = useState(false);
+  const [activity, setActivity] = useState(false);
+  const [minActivity, setMinActivity] = useState(0);
+  const [expandDepth, setExpandDepth] = useState(0);
+  const [expandBudget, setExpandBudget] = useState(100);
+  const [minSeedScore, setMinSeedScore] = useState(85);
 
   // --- results ---
   const [response, setResponse] = useState<ScrapeResponse | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  // --- background job ---
+  const [jobId, setJobId] = useState<string | null>(null);
+  const [progress, setProgress] = useState<ScrapeProgress>(emptyProgress);
+  const eventSourceRef = useRef<EventSource | null>(null);
+  const reconnectTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Close any open progress stream, or pending reconnect, on unmount.
+  useEffect(
+    () => () => {
+      eventSourceRef.current?.close();
+      if (reconnectTimerRef.current) clearTimeout(reconnectTimerRef.current);
+    },
+    []
+  );
+
   // --- client-side filters ---
   const [search, setSearch] = useState("");
   const [sortKey, setSortKey] = useState<SortKey>("score");
@@ -73,9 +127,27 @@ export default function HomePage() {
   const [hasCompany, setHasCompany] = useState(false);
   const [hasBlog, setHasBlog] = useState(false);
   const [hasEmail, setHasEmail] = useState(false);
+  const [minActivityFilter, setMinActivityFilter] = useState(0);
+  const [activeWithinDays, setActiveWithinDays] = useState(0);
+
+  // --- manual review ---
+  const [reviews, setReviews] = useState<Record<string, Review>>({});
+  const [reviewFilter, setReviewFilter] = useState<"all" | ReviewState>("all");
+  const [selectedLogin, setSelectedLogin] = useState<string | null>(null);
+
+  // Reviews are keyed by login across runs; load them once.
+  useEffect(() => {
+    fetch("/api/reviews")
+      .then((res) => res.json())
+      .then((data: { reviews: Review[] }) =>
+        setReviews(Object.fromEntries(data.reviews.map((r) => [r.login, r])))
+      )
+      .catch(() => undefined);
+  }, []);
 
   // --- web3 filters ---
   const [selectedWeb3Skills, setSelectedWeb3Skills] = useState<Web3Skill[]>([]);
+  const [exportFormat, setExportFormat] = useState<TableExportFormat>("csv");
 
   // --- toggle location ---
   const toggleLocation = useCallback(
@@ -87,6 +159,38 @@ export default function HomePage() {
     []
   );
 
+  // --- switch country (resets locations to the profile defaults) ---
+  const changeCountry = useCallback((id: string) => {
+    setCountry(id);
+    setLocations(COUNTRY_PROFILES[id].defaultLocations);
+  }, []);
+
+  // --- save a review (optimistic) ---
+  const saveReview = useCallback(
+    (login: string, patch: Partial<Pick<Review, "state" | "note">>) => {
+      const current: Review | undefined = reviews[login];
+      const review: Review = {
+        login,
+        state: patch.state ?? current?.state ?? "unreviewed",
+        note: patch.note ?? current?.note ?? "",
+        updatedAt: new Date().toISOString(),
+      };
+      setReviews((prev) => ({ ...prev, [login]: review }));
+      fetch(`/api/reviews/${encodeURIComponent(login)}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ state: review.state, note: review.note }),
+      })
+        .then((res) => {
+          if (!res.ok) throw new Error(`Saving review failed: HTTP ${res.status}`);
+        })
+        .catch((err) =>
+          setError(err instanceof Error ? err.message : "Saving review failed")
+        );
+    },
+    [reviews]
+  );
+
   // --- toggle web3 skill ---
   const toggleWeb3Skill = useCallback((skill: Web3Skill) => {
     setSelectedWeb3Skills((prev) =>
@@ -94,24 +198,100 @@ export default function HomePage() {
     );
   }, []);
 
+  // --- follow a job's progress stream until it finishes ---
+  const followJob = useCallback((id: string) => {
+    eventSourceRef.current?.close();
+    if (reconnectTimerRef.current) clearTimeout(reconnectTimerRef.current);
+    // Every connection replays the job's past events; rebuild from them.
+    setProgress(emptyProgress());
+    const source = new EventSource(`/api/scrape/${encodeURIComponent(id)}/events`);
+    eventSourceRef.current = source;
+
+    const finish = () => {
+      source.close();
+      eventSourceRef.current = null;
+      setJobId(null);
+      setLoading(false);
+    };
+    const reconnect = () => {
+      reconnectTimerRef.current = setTimeout(
+        () => followJob(id),
+        RECONNECT_DELAY_MS
+      );
+    };
+
+    source.onmessage = (msg) => {
+      const event = JSON.parse(msg.data) as JobEvent;
+      switch (event.type) {
+        case "completed":
+          setResponse(event.result);
+          finish();
+          break;
+        case "failed":
+          setError(event.error);
+          finish();
+          break;
+        case "cancelled":
+          setError("Scrape cancelled");
+          finish();
+          break;
+        default:
+          setProgress((prev) => applyProgressEvent(prev, event));
+      }
+    };
+
+    // A dropped stream (proxy timeout, network blip) leaves the job running:
+    // reconnect while the job exists. The replay ends with its completed,
+    // failed or cancelled event if it finished in the meantime.
+    source.onerror = () => {
+      source.close();
+      fetch(`/api/scrape/${encodeURIComponent(id)}`)
+        .then((res) => {
+          if (eventSourceRef.current !== source) return;
+          if (res.status === 404) {
+            setError("Scrape job not found; the server may have restarted");
+            finish();
+          } else {
+            reconnect();
+          }
+        })
+        .catch(() => {
+          if (eventSourceRef.current === source) reconnect();
+        });
+    };
+  }, []);
+
   // --- run scrape ---
   const runScrape = useCallback(async () => {
     setLoading(true);
     setError(null);
     setResponse(null);
+    setProgress(emptyProgress());
 
     try {
       const res = await fetch("/api/scrape", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
+          country,
           locations,
+          orgs: parseOrgs(orgsText),
           minRepos,
           minFollowers,
           maxPagesPerQuery: maxPages,
           perPage: 100,
           concurrency,
           minScore,
+          partition,
+          refreshOlderThan: refreshHours * 60 * 60 * 1000,
+          fetchMode,
+          enrichRepos,
+          activity,
+          minActivity,
+          signalWeights,
+          expandDepth,
+          expandBudget,
+          minSeedScore,
         }),
       });
 
@@ -122,14 +302,34 @@ export default function HomePage() {
         );
       }
 
-      const data: ScrapeResponse = await res.json();
-      setResponse(data);
+      const data: ScrapeJobResponse = await res.json();
+      setJobId(data.jobId);
+      followJob(data.jobId);
     } catch (err) {
       setError(err instanceof Error ? err.message : "Unknown error");
-    } finally {
       setLoading(false);
     }
-  }, [locations, minRepos, minFollowers, maxPages, concurrency, minScore]);
+  }, [country, locations, orgsText, minRepos, minFollowers, maxPages, concurrency, minScore, partition, refreshHours, fetchMode, enrichRepos, activity, minActivity, signalWeights, expandDepth, expandBudget, minSeedScore, followJob]);
+
+  // --- cancel running job ---
+  const cancelScrape = useCallback(async () => {
+    if (!jobId) return;
+    await fetch(`/api/scrape/${encodeURIComponent(jobId)}`, {
+      method: "DELETE",
+    }).catch(() => undefined);
+  }, [jobId]);
+
+  // --- progress bar percentage (all phases but search) ---
+  const [progressDone, progressTotal] =
+    progress.phase === "enrich"
+      ? [progress.usersEnriched, progress.usersToEnrich]
+      : progress.phase === "activity"
+      ? [progress.activityChecked, progress.activityTotal]
+      : [progress.profilesFetched, progress.profilesTotal];
+  const progressPercent =
+    progressTotal > 0 ? Math.round((progressDone / progressTotal) * 100) : 0;
+  const progressCounted =
+    progress.phase !== null && progress.phase !== "search";
 
   // --- web3 skills map (computed once per response) ---
   const web3SkillsMap = useMemo(() => {
@@ -141,62 +341,81 @@ export default function HomePage() {
     return map;
   }, [response]);
 
-  // --- filtered + sorted users ---
+  // --- filtered + sorted users (same filters as the export links) ---
+  const filters = useMemo<UserFilters>(
+    () => ({
+      ...DEFAULT_FILTERS,
+      search,
+      hasBio,
+      hasCompany,
+      hasBlog,
+      hasEmail,
+      review: reviewFilter,
+      minActivity: minActivityFilter,
+      activeWithinDays,
+      web3Skills: selectedWeb3Skills,
+      sort: sortKey,
+    }),
+    [search, hasBio, hasCompany, hasBlog, hasEmail, reviewFilter, minActivityFilter, activeWithinDays, selectedWeb3Skills, sortKey]
+  );
+
   const filteredUsers = useMemo(() => {
     if (!response) return [];
+    return filterUsers(
+      applyReviews(response.users, Object.values(reviews)),
+      filters
+    );
+  }, [response, reviews, filters]);
 
-    let users = [...response.users];
+  /** Query of the download links: the run plus the filters on screen. */
+  const exportQuery = useMemo(() => {
+    if (!response) return "";
+    const params = filtersToParams(filters);
+    params.set("runId", response.runId);
+    return params.toString();
+  }, [response, filters]);
 
-    // text search
-    if (search) {
-      const q = search.toLowerCase();
-      users = users.filter(
-        (u) =>
-          u.login.toLowerCase().includes(q) ||
-          (u.name?.toLowerCase().includes(q) ?? false) ||
-          (u.bio?.toLowerCase().includes(q) ?? false)
-      );
-    }
-
-    // boolean filters
-    if (hasBio) users = users.filter((u) => !!u.bio);
-    if (hasCompany) users = users.filter((u) => !!u.company);
-    if (hasBlog) users = users.filter((u) => !!u.blog);
-    if (hasEmail) users = users.filter((u) => !!u.email);
-
-    // web3 skill filters
-    if (selectedWeb3Skills.length > 0) {
-      users = users.filter((u) => {
-        const skills = web3SkillsMap.get(u.login) ?? [];
-        return selectedWeb3Skills.some((s) => skills.includes(s));
-      });
-    }
+  // --- keyboard review: j/k move, c/x/n/u set state, e edits the note ---
+  useEffect(() => {
+    function onKeyDown(e: KeyboardEvent) {
+      const target = e.target as HTMLElement;
+      if (
+        e.metaKey ||
+        e.ctrlKey ||
+        e.altKey ||
+        ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName)
+      ) {
+        return;
+      }
+      const logins = filteredUsers.map((u) => u.login);
+      if (logins.length === 0) return;
+      const idx = selectedLogin ? logins.indexOf(selectedLogin) : -1;
+      // The arrows scroll the page until a row is selected; j / k select one.
+      const arrows = idx >= 0;
 
-    // sort
-    switch (sortKey) {
-      case "score":
-        users.sort(
-          (a, b) =>
-            b.confidenceScore - a.confidenceScore || b.followers - a.followers
-        );
-        break;
-      case "followers":
-        users.sort((a, b) => b.followers - a.followers);
-        break;
-      case "repos":
-        users.sort((a, b) => b.public_repos - a.public_repos);
-        break;
-      case "newest":
-        users.sort(
-          (a, b) =>
-            new Date(b.created_at).getTime() -
-            new Date(a.created_at).getTime()
-        );
-        break;
+      let next: string | null = null;
+      if (e.key === "j" || (arrows && e.key === "ArrowDown")) {
+        next = logins[Math.min(idx + 1, logins.length - 1)];
+      } else if (e.key === "k" || (arrows && e.key === "ArrowUp")) {
+        next = logins[Math.max(idx - 1, 0)];
+      } else if (selectedLogin && idx >= 0 && REVIEW_KEYS[e.key]) {
+        saveReview(selectedLogin, { state: REVIEW_KEYS[e.key] });
+      } else if (selectedLogin && idx >= 0 && e.key === "e") {
+        document.getElementById(`note-${selectedLogin}`)?.focus();
+      } else {
+        return;
+      }
+      e.preventDefault();
+      if (next) {
+        setSelectedLogin(next);
+        document
+          .getElementById(`row-${next}`)
+          ?.scrollIntoView({ block: "nearest" });
+      }
     }
-
-    return users;
-  }, [response, search, sortKey, hasBio, hasCompany, hasBlog, hasEmail, selectedWeb3Skills, web3SkillsMap]);
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [filteredUsers, selectedLogin, saveReview]);
 
   // ---------------------------------------------------------------------------
   // Render
@@ -205,7 +424,7 @@ export default function HomePage() {
   return (
     <div className="mx-auto max-w-6xl space-y-6 p-4 sm:p-8">
       <h1 className="text-3xl font-bold tracking-tight">
-        🇺🇬 GitHub Uganda User Finder
+        {profile.flag} GitHub {profile.name} User Finder
       </h1>
 
       {/* ---- Search Form ---- */}
@@ -214,10 +433,26 @@ export default function HomePage() {
           <CardTitle>Search Settings</CardTitle>
         </CardHeader>
         <CardContent className="space-y-4">
+          <div className="space-y-1">
+            <Label htmlFor="country">Country</Label>
+            <select
+              id="country"
+              value={country}
+              onChange={(e) => changeCountry(e.target.value)}
+              className="flex h-9 rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-xs"
+            >
+              {Object.values(COUNTRY_PROFILES).map((p) => (
+                <option key={p.id} value={p.id}>
+                  {p.flag} {p.name}
+                </option>
+              ))}
+            </select>
+          </div>
+
           <div>
             <Label className="mb-2 text-sm font-semibold">Locations</Label>
             <div className="flex flex-wrap gap-3 mt-1">
-              {ALL_LOCATIONS.map((loc) => (
+              {profile.searchLocations.map((loc) => (
                 <Label key={loc} className="font-normal">
                   <Checkbox
                     checked={locations.includes(loc)}
@@ -229,6 +464,21 @@ export default function HomePage() {
             </div>
           </div>
 
+          <div className="space-y-1">
+            <Label htmlFor="orgs">Organisations</Label>
+            <Input
+              id="orgs"
+              placeholder="e.g. makerere, sunbird-ai"
+              value={orgsText}
+              onChange={(e) => setOrgsText(e.target.value)}
+              className="max-w-md"
+            />
+            <p className="text-xs text-muted-foreground">
+              Also scrape the public members and repo contributors of these
+              GitHub organisations.
+            </p>
+          </div>
+
           <div className="flex flex-wrap gap-4">
             <div className="space-y-1">
               <Label htmlFor="minRepos">Min repos</Label>
@@ -288,17 +538,216 @@ export default function HomePage() {
                 className="w-20"
               />
             </div>
+            <div className="space-y-1">
+              <Label htmlFor="fetchMode">Profile fetch</Label>
+              <select
+                id="fetchMode"
+                value={fetchMode}
+                onChange={(e) =>
+                  setFetchMode(e.target.value as "rest" | "graphql")
+                }
+                className="flex h-9 rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-xs"
+              >
+                <option value="rest">REST (one per user)</option>
+                <option value="graphql">GraphQL (batched)</option>
+              </select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="refreshHours">Reuse profiles newer than (h)</Label>
+              <Input
+                id="refreshHours"
+                type="number"
+                min={0}
+                value={refreshHours}
+                onChange={(e) => setRefreshHours(Number(e.target.value))}
+                className="w-20"
+              />
+            </div>
           </div>
 
-          <Button
-            onClick={runScrape}
-            disabled={loading || locations.length === 0}
-          >
-            {loading ? "Searching…" : "Run Scrape"}
-          </Button>
+          <Label className="font-normal">
+            <Checkbox
+              checked={partition}
+              onChange={(e) => setPartition(e.target.checked)}
+            />{" "}
+            Full sweep — split queries over GitHub&apos;s 1,000-result cap
+          </Label>
+
+          <Label className="font-normal">
+            <Checkbox
+              checked={enrichRepos}
+              onChange={(e) => setEnrichRepos(e.target.checked)}
+            />{" "}
+            Enrich with repositories — top languages, stars and last push
+          </Label>
+
+          <div className="flex flex-wrap items-end gap-4">
+            <Label className="font-normal">
+              <Checkbox
+                checked={activity || minActivity > 0}
+                disabled={minActivity > 0}
+                onChange={(e) => setActivity(e.target.checked)}
+              />{" "}
+              Score activity — contributions over the last 30/90/365 days
+            </Label>
+            <div className="space-y-1">
+              <Label htmlFor="minActivity">Min activity (0–100)</Label>
+              <Input
+                id="minActivity"
+                type="number"
+                min={0}
+                max={100}
+                value={minActivity}
+                onChange={(e) => setMinActivity(Number(e.target.value))}
+                className="w-20"
+              />
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="expandDepth">Follower expansion depth</Label>
+              <Input
+                id="expandDepth"
+                type="number"
+                min={0}
+                max={3}
+                value={expandDepth}
+                onChange={(e) => setExpandDepth(Number(e.target.value))}
+                className="w-20"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="expandBudget">New users per level</Label>
+              <Input
+                id="expandBudget"
+                type="number"
+                min={1}
+                max={1000}
+                value={expandBudget}
+                disabled={expandDepth === 0}
+                onChange={(e) => setExpandBudget(Number(e.target.value))}
+                className="w-24"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="minSeedScore">Min seed score</Label>
+              <Input
+                id="minSeedScore"
+                type="number"
+                min={0}
+                max={100}
+                value={minSeedScore}
+                disabled={expandDepth === 0}
+                onChange={(e) => setMinSeedScore(Number(e.target.value))}
+                className="w-20"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <Label>Signal weights (0–1)</Label>
+            <div className="flex flex-wrap gap-3">
+              {SIGNAL_NAMES.map((name) => (
+                <Label
+                  key={name}
+                  htmlFor={`weight-${name}`}
+                  className="font-normal capitalize"
+                >
+                  {name}
+                  <Input
+                    id={`weight-${name}`}
+                    type="number"
+                    min={0}
+                    max={1}
+                    step={0.1}
+                    value={signalWeights[name]}
+                    onChange={(e) =>
+                      setSignalWeights((w) => ({
+                        ...w,
+                        [name]: Number(e.target.value),
+                      }))
+                    }
+                    className="w-20"
+                  />
+                </Label>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex gap-3">
+            <Button
+              onClick={runScrape}
+              disabled={
+                loading ||
+                (locations.length === 0 && parseOrgs(orgsText).length === 0)
+              }
+            >
+              {loading ? "Running…" : "Run Scrape"}
+            </Button>
+            {jobId && (
+              <Button variant="outline" onClick={cancelScrape}>
+                Cancel
+              </Button>
+            )}
+          </div>
         </CardContent>
       </Card>
 
+      {/* ---- Progress ---- */}
+      {loading && (
+        <Card>
+          <CardContent className="space-y-2 pt-6 text-sm">
+            <div className="flex justify-between">
+              <span>
+                {progress.phase === "activity"
+                  ? `Scoring activity: ${progress.activityChecked} / ${progress.activityTotal}`
+                  : progress.phase === "enrich"
+                  ? `Enriching repositories: ${progress.usersEnriched} / ${progress.usersToEnrich}`
+                  : progress.phase === "expand"
+                  ? `Expanding followers (level ${progress.expandLevel} / ${progress.expandDepth}): ${progress.usersDiscovered} new users, ${progress.profilesFetched} / ${progress.profilesTotal} profiles`
+                  : progress.phase === "profile"
+                  ? `Fetching profiles: ${progress.profilesFetched} / ${progress.profilesTotal}`
+                  : `Searching: ${progress.queries.length} queries done, ${progress.queries.reduce(
+                      (sum, q) => sum + q.count,
+                      0
+                    )} candidates`}
+              </span>
+              {progressCounted && <span>{progressPercent}%</span>}
+            </div>
+            <div className="h-2 w-full overflow-hidden rounded-full bg-muted">
+              <div
+                className={
+                  progressCounted
+                    ? "h-full bg-primary transition-all"
+                    : "h-full w-1/3 animate-pulse bg-primary/60"
+                }
+                style={
+                  progressCounted
+                    ? { width: `${progressPercent}%` }
+                    : undefined
+                }
+              />
+            </div>
+            {progress.rateLimitedUntil !== null && (
+              <p className="text-muted-foreground">
+                ⏳ Rate limited — resuming at{" "}
+                {new Date(progress.rateLimitedUntil).toLocaleTimeString()}
+              </p>
+            )}
+            {progress.queries.length > 0 && (
+              <ul className="max-h-32 overflow-y-auto text-xs text-muted-foreground">
+                {progress.queries.map((q, i) => (
+                  <li key={i}>
+                    {q.query} — {q.count}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       {/* ---- Error ---- */}
       {error && (
         <div className="rounded-lg border border-destructive bg-destructive/10 p-4 text-destructive text-sm">
@@ -311,8 +760,22 @@ export default function HomePage() {
         <div className="rounded-lg border border-green-600 bg-green-50 p-4 text-sm dark:bg-green-950/30">
           <strong>Results:</strong> {response.stats.totalCandidates} total
           candidates, {response.stats.uniqueUsers} unique,{" "}
-          {response.stats.keptAfterFilter} kept after filter.{" "}
+          {response.stats.keptAfterFilter} kept after filter
+          {response.stats.missingLogins.length > 0 &&
+            ` (${response.stats.missingLogins.length} profiles missing or suspended)`}
+          .{" "}
           Showing {filteredUsers.length} after client-side filters.
+          <div className="mt-1 text-xs text-muted-foreground">
+            Tokens:{" "}
+            {response.stats.tokenPool.tokens
+              .map(
+                (t) =>
+                  `${t.label} ${t.requests} req (search ${t.quotas.search.remaining ?? "?"}/${t.quotas.search.limit ?? "?"}, core ${t.quotas.core.remaining ?? "?"}/${t.quotas.core.limit ?? "?"})`
+              )
+              .join(" · ")}
+            {response.stats.tokenPool.waits > 0 &&
+              ` · waited ${response.stats.tokenPool.waits}× for rate limits`}
+          </div>
         </div>
       )}
 
@@ -351,6 +814,57 @@ export default function HomePage() {
                       <option value="followers">Followers ↓</option>
                       <option value="repos">Repos ↓</option>
                       <option value="newest">Newest</option>
+                      <option value="activity">Activity ↓</option>
+                      <option value="recent">Recently active</option>
+                    </select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="reviewFilter">Review</Label>
+                    <select
+                      id="reviewFilter"
+                      value={reviewFilter}
+                      onChange={(e) =>
+                        setReviewFilter(e.target.value as "all" | ReviewState)
+                      }
+                      className="flex h-9 rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-xs"
+                    >
+                      <option value="all">All</option>
+                      {REVIEW_STATES.map((s) => (
+                        <option key={s} value={s}>
+                          {s}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="minActivityFilter">Min activity</Label>
+                    <Input
+                      id="minActivityFilter"
+                      type="number"
+                      min={0}
+                      max={100}
+                      value={minActivityFilter}
+                      onChange={(e) =>
+                        setMinActivityFilter(Number(e.target.value))
+                      }
+                      className="w-20"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="activeWithin">Active within</Label>
+                    <select
+                      id="activeWithin"
+                      value={activeWithinDays}
+                      onChange={(e) =>
+                        setActiveWithinDays(Number(e.target.value))
+                      }
+                      className="flex h-9 rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-xs"
+                    >
+                      {ACTIVE_WITHIN_DAYS.map((d) => (
+                        <option key={d} value={d}>
+                          {d === 0 ? "Any time" : `${d} days`}
+                        </option>
+                      ))}
                     </select>
                   </div>
                   <Label className="font-normal">
@@ -426,18 +940,30 @@ export default function HomePage() {
         <div className="flex gap-3">
           <Button asChild>
             <a
-              href={`/api/export/json?runId=${encodeURIComponent(response.runId)}`}
+              href={`/api/export/json?${exportQuery}`}
               download
             >
               ⬇ Download JSON
             </a>
           </Button>
+          <select
+            aria-label="Table export format"
+            value={exportFormat}
+            onChange={(e) => setExportFormat(e.target.value as TableExportFormat)}
+            className="flex h-9 rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-xs"
+          >
+            {TABLE_EXPORT_FORMATS.map((f) => (
+              <option key={f} value={f}>
+                {f.toUpperCase()}
+              </option>
+            ))}
+          </select>
           <Button asChild variant="outline">
             <a
-              href={`/api/export/csv?runId=${encodeURIComponent(response.runId)}`}
+              href={`/api/export/csv?${exportQuery}&format=${exportFormat}`}
               download
             >
-              ⬇ Download CSV
+              ⬇ Download {exportFormat.toUpperCase()}
             </a>
           </Button>
         </div>
@@ -446,6 +972,10 @@ export default function HomePage() {
       {/* ---- Results Table ---- */}
       {filteredUsers.length > 0 && (
         <Card>
+          <p className="px-4 pt-4 text-xs text-muted-foreground">
+            Review with the keyboard: j / k to move, c confirm, x reject, n
+            needs info, u unreviewed, e edit the note.
+          </p>
           <Table>
             <TableHeader>
               <TableRow>
@@ -456,15 +986,26 @@ export default function HomePage() {
                 <TableHead>Web3 Skills</TableHead>
                 <TableHead>Followers</TableHead>
                 <TableHead>Repos</TableHead>
+                <TableHead>Activity</TableHead>
+                <TableHead>Languages</TableHead>
+                <TableHead>Stars</TableHead>
                 <TableHead>Score</TableHead>
+                <TableHead>Review</TableHead>
                 <TableHead>Profile</TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
               {filteredUsers.map((u) => {
                 const web3 = web3SkillsMap.get(u.login) ?? [];
+                const review = reviews[u.login];
                 return (
-                  <TableRow key={u.login}>
+                  <TableRow
+                    key={u.login}
+                    id={`row-${u.login}`}
+                    aria-selected={selectedLogin === u.login}
+                    onClick={() => setSelectedLogin(u.login)}
+                    className={selectedLogin === u.login ? "bg-muted" : undefined}
+                  >
                     <TableCell>
                       {/* eslint-disable-next-line @next/next/no-img-element */}
                       <img
@@ -477,7 +1018,14 @@ export default function HomePage() {
                     </TableCell>
                     <TableCell className="font-medium">{u.login}</TableCell>
                     <TableCell>{u.name ?? "—"}</TableCell>
-                    <TableCell>{u.location ?? "—"}</TableCell>
+                    <TableCell>
+                      {u.location ?? "—"}
+                      {u.locationMatch.district && (
+                        <div className="text-xs text-muted-foreground">
+                          {u.locationMatch.district}, {u.locationMatch.region}
+                        </div>
+                      )}
+                    </TableCell>
                     <TableCell>
                       {web3.length > 0 ? (
                         <div className="flex flex-wrap gap-1">
@@ -497,8 +1045,70 @@ export default function HomePage() {
                     </TableCell>
                     <TableCell>{u.followers}</TableCell>
                     <TableCell>{u.public_repos}</TableCell>
+                    <TableCell
+                      title={
+                        u.lastActiveAt
+                          ? `Last active ${new Date(u.lastActiveAt).toLocaleDateString()}`
+                          : undefined
+                      }
+                    >
+                      {u.activityScore ?? "—"}
+                    </TableCell>
+                    <TableCell className="text-xs">
+                      {u.top_languages?.length
+                        ? u.top_languages.join(", ")
+                        : "—"}
+                    </TableCell>
+                    <TableCell title={u.top_repo ?? undefined}>
+                      {u.total_stars ?? "—"}
+                    </TableCell>
                     <TableCell>
-                      <Badge variant="secondary">{u.confidenceScore}</Badge>
+                      <Badge
+                        variant={u.isLikelyUganda ? "secondary" : "outline"}
+                        className="cursor-help"
+                        title={
+                          u.scoreReasons.map(formatSignalReason).join("\n") ||
+                          "No location signals"
+                        }
+                      >
+                        {u.confidenceScore}
+                        {!u.isLikelyUganda && " ⚠"}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="space-y-1">
+                      <select
+                        aria-label={`Review state for ${u.login}`}
+                        value={review?.state ?? "unreviewed"}
+                        onChange={(e) =>
+                          saveReview(u.login, {
+                            state: e.target.value as ReviewState,
+                          })
+                        }
+                        className="flex h-8 rounded-md border border-input bg-transparent px-2 text-xs shadow-xs"
+                      >
+                        {REVIEW_STATES.map((s) => (
+                          <option key={s} value={s}>
+                            {s}
+                          </option>
+                        ))}
+                      </select>
+                      <Input
+                        id={`note-${u.login}`}
+                        key={review?.updatedAt}
+                        placeholder="Note"
+                        defaultValue={review?.note ?? ""}
+                        onBlur={(e) => {
+                          if (e.target.value !== (review?.note ?? "")) {
+                            saveReview(u.login, { note: e.target.value });
+                          }
+                        }}
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter" || e.key === "Escape") {
+                            e.currentTarget.blur();
+                          }
+                        }}
+                        className="h-8 w-36 text-xs"
+                      />
                     </TableCell>
                     <TableCell>
                       <a
@@ -517,6 +1127,9 @@ export default function HomePage() {
           </Table>
         </Card>
       )}
+
+      {/* ---- Run Diff ---- */}
+      <RunDiffView />
     </div>
   );
 }
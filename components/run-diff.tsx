@@ -0,0 +1,246 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import type { RunSummary } from "@/lib/runs";
+import type { RunDiff } from "@/lib/diff";
+import type { UgandaUser } from "@/lib/types/user";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+const SELECT_CLASS =
+  "flex h-9 rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-xs";
+
+function runLabel(run: RunSummary): string {
+  return `${new Date(run.createdAt).toLocaleString()} — ${run.request.country} (${run.stats.keptAfterFilter} users)`;
+}
+
+function signed(n: number): string {
+  return n > 0 ? `+${n}` : String(n);
+}
+
+/**
+ * Compare two stored runs: pick an older and a newer run, then list new,
+ * dropped, moved-out and changed users.
+ */
+export function RunDiffView() {
+  const [runs, setRuns] = useState<RunSummary[]>([]);
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [diff, setDiff] = useState<RunDiff | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadRuns = useCallback(async () => {
+    try {
+      const res = await fetch("/api/runs");
+      const data = (await res.json()) as { runs: RunSummary[] };
+      setRuns(data.runs);
+      // Default to comparing the two most recent runs.
+      if (data.runs.length >= 2) {
+        setTo(data.runs[0].runId);
+        setFrom(data.runs[1].runId);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRuns();
+  }, [loadRuns]);
+
+  const compare = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    setDiff(null);
+    try {
+      const res = await fetch(
+        `/api/runs/diff?from=${encodeURIComponent(from)}&to=${encodeURIComponent(to)}`
+      );
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(
+          (body as Record<string, string>).error ?? `HTTP ${res.status}`
+        );
+      }
+      setDiff((await res.json()) as RunDiff);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setLoading(false);
+    }
+  }, [from, to]);
+
+  const exportQuery = `from=${encodeURIComponent(from)}&to=${encodeURIComponent(to)}`;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Compare Runs</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {runs.length < 2 ? (
+          <p className="text-sm text-muted-foreground">
+            At least two stored runs are needed to compare.{" "}
+            <Button variant="ghost" size="sm" onClick={loadRuns}>
+              Refresh
+            </Button>
+          </p>
+        ) : (
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="diffFrom">Older run</Label>
+              <select
+                id="diffFrom"
+                value={from}
+                onChange={(e) => setFrom(e.target.value)}
+                className={SELECT_CLASS}
+              >
+                {runs.map((r) => (
+                  <option key={r.runId} value={r.runId}>
+                    {runLabel(r)}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="diffTo">Newer run</Label>
+              <select
+                id="diffTo"
+                value={to}
+                onChange={(e) => setTo(e.target.value)}
+                className={SELECT_CLASS}
+              >
+                {runs.map((r) => (
+                  <option key={r.runId} value={r.runId}>
+                    {runLabel(r)}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <Button onClick={compare} disabled={loading || from === to}>
+              {loading ? "Comparing…" : "Compare"}
+            </Button>
+            <Button variant="ghost" size="sm" onClick={loadRuns}>
+              Refresh runs
+            </Button>
+          </div>
+        )}
+
+        {error && (
+          <div className="rounded-lg border border-destructive bg-destructive/10 p-4 text-destructive text-sm">
+            ❌ {error}
+          </div>
+        )}
+
+        {diff && (
+          <>
+            <div className="flex flex-wrap items-center gap-3 text-sm">
+              <Badge variant="secondary">{diff.added.length} new</Badge>
+              <Badge variant="secondary">{diff.removed.length} dropped</Badge>
+              <Badge variant="secondary">{diff.movedOut.length} moved out</Badge>
+              <Badge variant="secondary">{diff.changed.length} changed</Badge>
+              <Button asChild size="sm">
+                <a href={`/api/export/json?${exportQuery}`} download>
+                  ⬇ Diff JSON
+                </a>
+              </Button>
+              <Button asChild size="sm" variant="outline">
+                <a href={`/api/export/csv?${exportQuery}`} download>
+                  ⬇ Diff CSV
+                </a>
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              A user who moved away usually drops out of the newer run; they
+              count as moved out only when their cached GitHub profile was
+              refreshed since the older run, and as dropped otherwise.
+            </p>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Change</TableHead>
+                  <TableHead>Username</TableHead>
+                  <TableHead>Location</TableHead>
+                  <TableHead>Details</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {diff.added.map((u) => (
+                  <DiffRow key={`a-${u.login}`} change="New" user={u} />
+                ))}
+                {diff.removed.map((u) => (
+                  <DiffRow key={`r-${u.login}`} change="Dropped" user={u} />
+                ))}
+                {diff.movedOut.map(({ user, previousLocation }) => (
+                  <DiffRow
+                    key={`m-${user.login}`}
+                    change="Moved out"
+                    user={user}
+                    details={`was: ${previousLocation ?? "—"}`}
+                  />
+                ))}
+                {diff.changed.map(({ user, changes }) => (
+                  <DiffRow
+                    key={`c-${user.login}`}
+                    change="Changed"
+                    user={user}
+                    details={Object.entries(changes)
+                      .map(
+                        ([field, c]) =>
+                          `${field} ${c.from} → ${c.to} (${signed(c.to - c.from)})`
+                      )
+                      .join(", ")}
+                  />
+                ))}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function DiffRow({
+  change,
+  user,
+  details,
+}: {
+  change: string;
+  user: UgandaUser;
+  details?: string;
+}) {
+  return (
+    <TableRow>
+      <TableCell>
+        <Badge variant="outline">{change}</Badge>
+      </TableCell>
+      <TableCell className="font-medium">
+        <a
+          href={user.html_url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-primary underline underline-offset-4 hover:text-primary/80"
+        >
+          {user.login}
+        </a>
+      </TableCell>
+      <TableCell>{user.location ?? "—"}</TableCell>
+      <TableCell className="text-xs text-muted-foreground">
+        {details ?? "—"}
+      </TableCell>
+    </TableRow>
+  );
+}
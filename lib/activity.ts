@@ -0,0 +1,69 @@
+/**
+ * Activity scoring — turns dated contribution counts into 30/90/365-day
+ * totals, the last active date and a 0–100 activity score.
+ *
+ * Counts come from the public events API (REST) or the GraphQL contribution
+ * calendar; both are reduced to ActivityDay entries before scoring.
+ */
+
+/** Contributions on one day (or one event), as an ISO date or timestamp. */
+export interface ActivityDay {
+  date: string;
+  count: number;
+}
+
+export interface ActivitySummary {
+  contributions_30d: number;
+  contributions_90d: number;
+  contributions_365d: number;
+  /** ISO timestamp of the latest day with contributions, or null. */
+  lastActiveAt: string | null;
+  activityScore: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Score weights per window and the contribution count at which each window
+ * earns its full weight. Recent activity counts the most.
+ */
+const WINDOWS = [
+  { days: 30, weight: 40, saturation: 10 },
+  { days: 90, weight: 30, saturation: 30 },
+  { days: 365, weight: 30, saturation: 100 },
+] as const;
+
+/** Compute window totals, last activity and score relative to `now`. */
+export function summariseActivity(
+  days: ActivityDay[],
+  now: number = Date.now()
+): ActivitySummary {
+  const totals = WINDOWS.map(() => 0);
+  let lastActive: number | null = null;
+
+  for (const { date, count } of days) {
+    if (count <= 0) continue;
+    const at = Date.parse(date);
+    if (Number.isNaN(at) || at > now) continue;
+    const age = now - at;
+    WINDOWS.forEach((w, i) => {
+      if (age <= w.days * DAY_MS) totals[i] += count;
+    });
+    if (lastActive === null || at > lastActive) lastActive = at;
+  }
+
+  const activityScore = Math.round(
+    WINDOWS.reduce(
+      (sum, w, i) => sum + w.weight * Math.min(totals[i] / w.saturation, 1),
+      0
+    )
+  );
+
+  return {
+    contributions_30d: totals[0],
+    contributions_90d: totals[1],
+    contributions_365d: totals[2],
+    lastActiveAt: lastActive === null ? null : new Date(lastActive).toISOString(),
+    activityScore,
+  };
+}
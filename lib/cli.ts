@@ -0,0 +1,475 @@
+/**
+ * Command-line interface over the same pipeline as the web app: `scrape`
+ * runs scrapeUsers and saves the run to the run store, `resume` continues
+ * an interrupted one from its checkpoint, `export` / `diff` write stored
+ * runs as JSON or CSV, and `runs` lists them. Saved scrapes notify webhook
+ * subscribers (see ./webhooks) before the command exits. The entry point is
+ * src/cli.ts (`npm run cli -- <command>`).
+ */
+
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import { DEFAULT_COUNTRY } from "./countries";
+import { buildCsv, buildDiffCsv } from "./csv";
+import { loadRunDiff } from "./diff";
+import { ScrapeCheckpoint, ScrapeResult, scrapeUsers } from "./github";
+import { ScrapeProgressEvent } from "./progress";
+import { resolveScrapeRequest } from "./request";
+import { applyReviews } from "./reviews";
+import { loadCountryProfile } from "./rules";
+import {
+  buildStoredRun,
+  createCheckpointWriter,
+  createRunId,
+  getRunStore,
+} from "./runs";
+import { ScrapeRequest, UgandaUser } from "./types/user";
+import {
+  WebhookDelivery,
+  notifyRunCompleted,
+  notifyRunFailed,
+} from "./webhooks";
+
+export const USAGE = `Usage: npm run cli -- <command> [options]
+
+Commands:
+  scrape                 Search, score and save a run, then write its users
+  resume <runId>         Continue an interrupted scrape from its checkpoint
+  export <runId>         Write a stored run's users, with review states
+  diff <fromId> <toId>   Write the diff between two stored runs
+  runs                   List stored and unfinished runs, newest first
+
+Scrape options:
+  --country <id>         Country profile (default: ${DEFAULT_COUNTRY})
+  --locations <a,b>      Location search terms (default: the country's)
+  --orgs <a,b>           Organisations whose members and contributors are added
+  --min-repos <n>        Minimum public repos (default: 0)
+  --min-followers <n>    Minimum followers (default: 0)
+  --min-score <n>        Minimum confidenceScore, 0 – 100 (default: 50)
+  --max-pages <n>        Search pages per query, up to 10 (default: 3)
+  --concurrency <n>      Parallel profile requests, up to 10 (default: 5)
+  --fetch-mode <mode>    rest | graphql (default: rest)
+  --partition            Split queries over the 1,000-result search cap
+  --enrich-repos         Add repository and language stats
+  --expand-depth <n>     Levels of follower / following expansion, 0 – 3
+  --no-save              Do not save the run or its checkpoints
+
+Output options (scrape, resume, export, diff):
+  --format <format>      json | csv | both (default: both; diff: csv)
+  --out-dir <dir>        Directory to write files to (default: .)
+`;
+
+export type OutputFormat = "json" | "csv" | "both";
+
+export interface OutputOptions {
+  format: OutputFormat;
+  outDir: string;
+}
+
+export type CliCommand =
+  | ({ command: "scrape"; request: Partial<ScrapeRequest>; save: boolean } & OutputOptions)
+  | ({ command: "resume"; runId: string } & OutputOptions)
+  | ({ command: "export"; runId: string } & OutputOptions)
+  | ({ command: "diff"; from: string; to: string } & OutputOptions)
+  | { command: "runs" }
+  | { command: "help" };
+
+/** Where the CLI writes messages; stdout / stderr by default. */
+export interface CliIO {
+  log(message: string): void;
+  error(message: string): void;
+}
+
+const OPTIONS = {
+  country: { type: "string" },
+  locations: { type: "string", multiple: true },
+  orgs: { type: "string", multiple: true },
+  "min-repos": { type: "string" },
+  "min-followers": { type: "string" },
+  "min-score": { type: "string" },
+  "max-pages": { type: "string" },
+  concurrency: { type: "string" },
+  "fetch-mode": { type: "string" },
+  partition: { type: "boolean" },
+  "enrich-repos": { type: "boolean" },
+  "expand-depth": { type: "string" },
+  "no-save": { type: "boolean" },
+  format: { type: "string" },
+  "out-dir": { type: "string" },
+  help: { type: "boolean", short: "h" },
+} as const;
+
+/** Split repeated, comma-separated list flags into trimmed values. */
+function splitList(values: string[] | undefined): string[] | undefined {
+  return values?.flatMap((v) => v.split(",")).map((v) => v.trim()).filter(Boolean);
+}
+
+function parseNumber(flag: string, value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const n = Number(value);
+  if (value.trim() === "" || !Number.isFinite(n)) {
+    throw new Error(`--${flag} must be a number`);
+  }
+  return n;
+}
+
+function parseFormat(value: string | undefined, fallback: OutputFormat): OutputFormat {
+  if (value === undefined) return fallback;
+  if (value !== "json" && value !== "csv" && value !== "both") {
+    throw new Error("--format must be json, csv or both");
+  }
+  return value;
+}
+
+/** Parse CLI arguments (without `node script`). Throws on invalid usage. */
+export function parseCliArgs(argv: string[]): CliCommand {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    options: OPTIONS,
+    allowPositionals: true,
+    strict: true,
+  });
+  const [command, ...args] = positionals;
+  if (values.help || command === undefined || command === "help") {
+    return { command: "help" };
+  }
+
+  const expectArgs = (count: number, names: string) => {
+    if (args.length !== count) {
+      throw new Error(`${command} expects ${names}`);
+    }
+  };
+
+  switch (command) {
+    case "scrape": {
+      expectArgs(0, "no arguments");
+      const fetchMode = values["fetch-mode"];
+      if (fetchMode !== undefined && fetchMode !== "rest" && fetchMode !== "graphql") {
+        throw new Error("--fetch-mode must be rest or graphql");
+      }
+      const request: Partial<ScrapeRequest> = {
+        country: values.country,
+        locations: splitList(values.locations),
+        orgs: splitList(values.orgs),
+        minRepos: parseNumber("min-repos", values["min-repos"]),
+        minFollowers: parseNumber("min-followers", values["min-followers"]),
+        minScore: parseNumber("min-score", values["min-score"]),
+        maxPagesPerQuery: parseNumber("max-pages", values["max-pages"]),
+        concurrency: parseNumber("concurrency", values.concurrency),
+        fetchMode,
+        partition: values.partition,
+        enrichRepos: values["enrich-repos"],
+        expandDepth: parseNumber("expand-depth", values["expand-depth"]),
+      };
+      return {
+        command,
+        // Drop unset flags so resolveScrapeRequest applies its defaults.
+        request: Object.fromEntries(
+          Object.entries(request).filter(([, v]) => v !== undefined)
+        ),
+        save: !values["no-save"],
+        format: parseFormat(values.format, "both"),
+        outDir: values["out-dir"] ?? ".",
+      };
+    }
+    case "resume":
+    case "export":
+      expectArgs(1, "a runId");
+      return {
+        command,
+        runId: args[0],
+        format: parseFormat(values.format, "both"),
+        outDir: values["out-dir"] ?? ".",
+      };
+    case "diff":
+      expectArgs(2, "two runIds: <fromId> <toId>");
+      return {
+        command,
+        from: args[0],
+        to: args[1],
+        format: parseFormat(values.format, "csv"),
+        outDir: values["out-dir"] ?? ".",
+      };
+    case "runs":
+      expectArgs(0, "no arguments");
+      return { command };
+    default:
+      throw new Error(`Unknown command: ${command}`);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Commands
+// ---------------------------------------------------------------------------
+
+/** Write `<name>.json` and/or `<name>.csv` to outDir; returns the paths. */
+async function writeOutput(
+  { format, outDir }: OutputOptions,
+  name: string,
+  json: unknown,
+  csv: () => string
+): Promise<string[]> {
+  await fs.mkdir(outDir, { recursive: true });
+  const written: string[] = [];
+  if (format !== "csv") {
+    const file = path.join(outDir, `${name}.json`);
+    await fs.writeFile(file, JSON.stringify(json, null, 2), "utf8");
+    written.push(file);
+  }
+  if (format !== "json") {
+    const file = path.join(outDir, `${name}.csv`);
+    await fs.writeFile(file, csv(), "utf8");
+    written.push(file);
+  }
+  return written;
+}
+
+const writeUsers = (opts: OutputOptions, country: string, users: UgandaUser[]) =>
+  writeOutput(opts, `${country}_github_users`, users, () => buildCsv(users));
+
+/** One line per progress event worth showing in a terminal. */
+function describeProgress(event: ScrapeProgressEvent): string | null {
+  switch (event.type) {
+    case "phase":
+      return `Phase: ${event.phase}`;
+    case "query":
+      return `  ${event.query}: ${event.count} results`;
+    case "expand":
+      return event.discovered > 0
+        ? `  Expansion level ${event.level}/${event.depth}: ${event.discovered} new users`
+        : null;
+    case "rateLimit":
+      return `  Rate limited, waiting ${Math.ceil(event.waitMs / 1000)} s`;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Wait for webhook deliveries and log them. A failed notification is only
+ * reported: the run itself is saved either way.
+ */
+async function logDeliveries(
+  io: CliIO,
+  deliveries: Promise<WebhookDelivery[]>
+): Promise<void> {
+  try {
+    for (const d of await deliveries) {
+      const line = `Webhook ${d.event} to ${d.url}: ${d.status}`;
+      if (d.status === "delivered") io.log(line);
+      else io.error(`${line} (${d.attempts.at(-1)?.error})`);
+    }
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    io.error(`Webhook notification failed: ${message}`);
+  }
+}
+
+/**
+ * Run the pipeline for `request`, checkpointing to the run store unless
+ * `save` is false, then save the run, notify webhooks and write its users.
+ */
+async function runScrape(
+  request: ScrapeRequest,
+  runId: string,
+  createdAt: string,
+  { save, ...output }: OutputOptions & { save: boolean },
+  io: CliIO,
+  signal?: AbortSignal,
+  resumeFrom?: ScrapeCheckpoint
+): Promise<void> {
+  const country = await loadCountryProfile(request.country);
+  if (!country) throw new Error(`Unknown country: ${request.country}`);
+
+  const store = getRunStore();
+  const checkpoints = save
+    ? createCheckpointWriter(store, { runId, request, createdAt })
+    : null;
+  let result: ScrapeResult;
+  try {
+    result = await scrapeUsers({
+      ...request,
+      country,
+      checkpoint: resumeFrom,
+      onCheckpoint: checkpoints?.update,
+      signal,
+      onProgress: (event) => {
+        const line = describeProgress(event);
+        if (line) io.error(line);
+      },
+    });
+  } catch (err) {
+    if (checkpoints) {
+      await checkpoints.flush();
+      io.error(`Interrupted; continue with: npm run cli -- resume ${runId}`);
+      if (!signal?.aborted) {
+        const message = err instanceof Error ? err.message : String(err);
+        await logDeliveries(
+          io,
+          notifyRunFailed(store, { runId, request, createdAt }, message)
+        );
+      }
+    }
+    throw err;
+  }
+  const run = buildStoredRun(runId, request, result, new Date(createdAt));
+
+  io.log(
+    `${run.stats.keptAfterFilter} users kept of ${run.stats.uniqueUsers} candidates`
+  );
+  if (run.stats.missingLogins.length > 0) {
+    io.error(`${run.stats.missingLogins.length} profiles could not be fetched`);
+  }
+  if (checkpoints) {
+    await store.save(run);
+    await checkpoints.clear();
+    io.log(`Saved run ${runId}`);
+    await logDeliveries(io, notifyRunCompleted(store, run));
+  }
+  for (const file of await writeUsers(output, country.id, run.users)) {
+    io.log(`Wrote ${file}`);
+  }
+}
+
+async function scrape(
+  cmd: Extract<CliCommand, { command: "scrape" }>,
+  io: CliIO,
+  signal?: AbortSignal
+): Promise<void> {
+  const country = await loadCountryProfile(cmd.request.country);
+  if (!country) throw new Error(`Unknown country: ${cmd.request.country}`);
+  const request = resolveScrapeRequest(cmd.request, country);
+  const createdAt = new Date().toISOString();
+  await runScrape(request, createRunId(), createdAt, cmd, io, signal);
+}
+
+async function resume(
+  cmd: Extract<CliCommand, { command: "resume" }>,
+  io: CliIO,
+  signal?: AbortSignal
+): Promise<void> {
+  const checkpoint = await getRunStore().getCheckpoint(cmd.runId);
+  if (!checkpoint) throw new Error(`No checkpoint for run: ${cmd.runId}`);
+  await runScrape(
+    checkpoint.request,
+    checkpoint.runId,
+    checkpoint.createdAt,
+    { ...cmd, save: true },
+    io,
+    signal,
+    checkpoint.state
+  );
+}
+
+async function exportRun(
+  cmd: Extract<CliCommand, { command: "export" }>,
+  io: CliIO
+): Promise<void> {
+  const store = getRunStore();
+  const run = await store.get(cmd.runId);
+  if (!run) throw new Error(`Run not found: ${cmd.runId}`);
+  const users = applyReviews(run.users, await store.listReviews());
+  for (const file of await writeUsers(cmd, run.request.country, users)) {
+    io.log(`Wrote ${file}`);
+  }
+}
+
+async function diffRuns(
+  cmd: Extract<CliCommand, { command: "diff" }>,
+  io: CliIO
+): Promise<void> {
+  const diff = await loadRunDiff(cmd.from, cmd.to);
+  if (!diff) throw new Error(`Run not found: ${cmd.from} or ${cmd.to}`);
+  io.log(
+    `${diff.added.length} added, ${diff.removed.length} removed, ` +
+      `${diff.movedOut.length} moved out, ${diff.changed.length} changed`
+  );
+  const name = `diff_${cmd.from}_${cmd.to}`;
+  for (const file of await writeOutput(cmd, name, diff, () => buildDiffCsv(diff))) {
+    io.log(`Wrote ${file}`);
+  }
+}
+
+async function listRuns(io: CliIO): Promise<void> {
+  const store = getRunStore();
+  const [runs, incomplete] = await Promise.all([
+    store.list(),
+    store.listCheckpoints(),
+  ]);
+  if (runs.length === 0 && incomplete.length === 0) {
+    io.log("No stored runs");
+    return;
+  }
+  const sources = (request: ScrapeRequest) =>
+    [...request.locations, ...request.orgs.map((o) => `org:${o}`)].join(", ");
+
+  for (const run of runs) {
+    io.log(
+      [
+        run.runId,
+        run.createdAt,
+        run.request.country,
+        `${run.stats.keptAfterFilter} users`,
+        sources(run.request),
+      ].join("\t")
+    );
+  }
+  for (const checkpoint of incomplete) {
+    io.log(
+      [
+        checkpoint.runId,
+        checkpoint.createdAt,
+        checkpoint.request.country,
+        `unfinished, checkpoint ${checkpoint.updatedAt}`,
+        sources(checkpoint.request),
+      ].join("\t")
+    );
+  }
+}
+
+/**
+ * Run the CLI and return its exit code: 0 on success, 1 when the command
+ * fails, 2 on invalid usage.
+ */
+export async function runCli(
+  argv: string[],
+  io: CliIO = { log: console.log, error: console.error },
+  signal?: AbortSignal
+): Promise<number> {
+  let cmd: CliCommand;
+  try {
+    cmd = parseCliArgs(argv);
+  } catch (err) {
+    io.error(err instanceof Error ? err.message : String(err));
+    io.error(USAGE);
+    return 2;
+  }
+
+  try {
+    switch (cmd.command) {
+      case "help":
+        io.log(USAGE);
+        break;
+      case "scrape":
+        await scrape(cmd, io, signal);
+        break;
+      case "resume":
+        await resume(cmd, io, signal);
+        break;
+      case "export":
+        await exportRun(cmd, io);
+        break;
+      case "diff":
+        await diffRuns(cmd, io);
+        break;
+      case "runs":
+        await listRuns(io);
+        break;
+    }
+    return 0;
+  } catch (err) {
+    io.error(err instanceof Error ? err.message : String(err));
+    return 1;
+  }
+}
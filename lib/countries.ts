@@ -0,0 +1,298 @@
+/**
+ * Country profiles — the per-country data that drives location search and
+ * confidence scoring.
+ *
+ * Each profile lists the terms used to recognise a country in a free-text
+ * GitHub location, plus the locations offered as search queries.
+ */
+
+import { GazetteerEntry, UGANDA_GAZETTEER } from "./gazetteer";
+
+export interface CountryProfile {
+  /** Registry key used in requests, e.g. "uganda". */
+  id: string;
+  /** Display name, e.g. "Uganda". */
+  name: string;
+  /** Flag emoji shown in the UI. */
+  flag: string;
+  /** Largest / best-known city (lowercase) — scored just below the country name. */
+  primaryCity: string;
+  /** Known city / region names (lowercase), including the primary city. */
+  cities: string[];
+  /** Districts, towns and suburbs for district-level matching (see ./gazetteer). */
+  gazetteer?: GazetteerEntry[];
+  /** Exact full-string aliases applied during normalisation. */
+  aliases: Record<string, string>;
+  /** Country-code TLD without the dot, e.g. "ug" — matched in blog / email domains. */
+  tld?: string;
+  /** Known local organisations (lowercase), matched in bio, company and org memberships. */
+  knownOrgs?: string[];
+  /** Short country codes (lowercase) recognised as standalone tokens, e.g. "ug". */
+  abbreviations: string[];
+  /** Substrings that veto a match when they appear alongside it. */
+  falsePositiveMarkers: string[];
+  /** Points added to (or taken from) a matched term's score; learned, see ./rules. */
+  scoreAdjustments?: Record<string, number>;
+  /** Locations offered as search queries in the UI (display case). */
+  searchLocations: string[];
+  /** Locations searched when a request does not specify any. */
+  defaultLocations: string[];
+}
+
+/** Countries that may cause false positives when location is ambiguous. */
+const COMMON_FALSE_POSITIVE_MARKERS = [
+  "united states",
+  "united kingdom",
+  "canada",
+  " us ",
+  " uk ",
+  ", us",
+  ", uk",
+];
+
+const UGANDA: CountryProfile = {
+  id: "uganda",
+  name: "Uganda",
+  flag: "🇺🇬",
+  primaryCity: "kampala",
+  cities: [
+    "kampala",
+    "entebbe",
+    "jinja",
+    "mbarara",
+    "gulu",
+    "mbale",
+    "mukono",
+    "wakiso",
+    "lira",
+    "kasese",
+    "fort portal",
+    "arua",
+    "soroti",
+    "kabale",
+    "masaka",
+  ],
+  gazetteer: UGANDA_GAZETTEER,
+  aliases: {
+    "kampala ug": "kampala, uganda",
+    "kampala, ug": "kampala, uganda",
+    ug: "uganda",
+  },
+  tld: "ug",
+  knownOrgs: [
+    "makerere",
+    "makerere university",
+    "kyambogo",
+    "mbarara university",
+    "gulu university",
+    "uganda christian university",
+    "andela uganda",
+    "sunbird ai",
+    "outbox",
+    "refactory",
+    "hive colab",
+    "innovation village",
+  ],
+  abbreviations: ["ug"],
+  falsePositiveMarkers: COMMON_FALSE_POSITIVE_MARKERS,
+  searchLocations: [
+    "Uganda",
+    "Kampala",
+    "Entebbe",
+    "Jinja",
+    "Mbarara",
+    "Gulu",
+    "Mbale",
+    "Mukono",
+    "Wakiso",
+    "Lira",
+    "Kasese",
+    "Fort Portal",
+    "Arua",
+    "Soroti",
+    "Kabale",
+    "Masaka",
+  ],
+  defaultLocations: ["Uganda", "Kampala", "Entebbe"],
+};
+
+const KENYA: CountryProfile = {
+  id: "kenya",
+  name: "Kenya",
+  flag: "🇰🇪",
+  primaryCity: "nairobi",
+  cities: [
+    "nairobi",
+    "mombasa",
+    "kisumu",
+    "nakuru",
+    "eldoret",
+    "thika",
+    "malindi",
+    "kitale",
+    "kakamega",
+    "nyeri",
+    "machakos",
+    "meru",
+    "naivasha",
+    "garissa",
+  ],
+  aliases: {
+    "nairobi ke": "nairobi, kenya",
+    "nairobi, ke": "nairobi, kenya",
+    ke: "kenya",
+  },
+  tld: "ke",
+  knownOrgs: [
+    "strathmore",
+    "moringa school",
+    "university of nairobi",
+    "jkuat",
+    "ihub",
+    "andela kenya",
+    "safaricom",
+  ],
+  abbreviations: ["ke"],
+  falsePositiveMarkers: COMMON_FALSE_POSITIVE_MARKERS,
+  searchLocations: [
+    "Kenya",
+    "Nairobi",
+    "Mombasa",
+    "Kisumu",
+    "Nakuru",
+    "Eldoret",
+    "Thika",
+    "Malindi",
+    "Kitale",
+    "Kakamega",
+    "Nyeri",
+    "Machakos",
+    "Meru",
+    "Naivasha",
+  ],
+  defaultLocations: ["Kenya", "Nairobi", "Mombasa"],
+};
+
+const RWANDA: CountryProfile = {
+  id: "rwanda",
+  name: "Rwanda",
+  flag: "🇷🇼",
+  primaryCity: "kigali",
+  cities: [
+    "kigali",
+    "huye",
+    "butare",
+    "musanze",
+    "ruhengeri",
+    "rubavu",
+    "gisenyi",
+    "muhanga",
+    "nyagatare",
+    "rwamagana",
+    "rusizi",
+  ],
+  aliases: {
+    "kigali rw": "kigali, rwanda",
+    "kigali, rw": "kigali, rwanda",
+    rw: "rwanda",
+  },
+  tld: "rw",
+  knownOrgs: [
+    "cmu africa",
+    "carnegie mellon university africa",
+    "university of rwanda",
+    "klab",
+    "irembo",
+    "andela rwanda",
+  ],
+  abbreviations: ["rw"],
+  falsePositiveMarkers: COMMON_FALSE_POSITIVE_MARKERS,
+  searchLocations: [
+    "Rwanda",
+    "Kigali",
+    "Huye",
+    "Butare",
+    "Musanze",
+    "Rubavu",
+    "Gisenyi",
+    "Muhanga",
+    "Nyagatare",
+  ],
+  defaultLocations: ["Rwanda", "Kigali"],
+};
+
+const TANZANIA: CountryProfile = {
+  id: "tanzania",
+  name: "Tanzania",
+  flag: "🇹🇿",
+  primaryCity: "dar es salaam",
+  cities: [
+    "dar es salaam",
+    "dodoma",
+    "arusha",
+    "mwanza",
+    "zanzibar",
+    "mbeya",
+    "morogoro",
+    "tanga",
+    "moshi",
+    "kigoma",
+    "tabora",
+    "iringa",
+  ],
+  aliases: {
+    "dar es salaam tz": "dar es salaam, tanzania",
+    "dar es salaam, tz": "dar es salaam, tanzania",
+    dsm: "dar es salaam, tanzania",
+    tz: "tanzania",
+  },
+  tld: "tz",
+  knownOrgs: [
+    "udsm",
+    "university of dar es salaam",
+    "buni hub",
+    "dlab tanzania",
+  ],
+  abbreviations: ["tz"],
+  falsePositiveMarkers: COMMON_FALSE_POSITIVE_MARKERS,
+  searchLocations: [
+    "Tanzania",
+    "Dar es Salaam",
+    "Dodoma",
+    "Arusha",
+    "Mwanza",
+    "Zanzibar",
+    "Mbeya",
+    "Morogoro",
+    "Tanga",
+    "Moshi",
+  ],
+  defaultLocations: ["Tanzania", "Dar es Salaam", "Arusha"],
+};
+
+/** All registered country profiles, keyed by id. */
+export const COUNTRY_PROFILES: Record<string, CountryProfile> = {
+  [UGANDA.id]: UGANDA,
+  [KENYA.id]: KENYA,
+  [RWANDA.id]: RWANDA,
+  [TANZANIA.id]: TANZANIA,
+};
+
+/** Country used when a request does not name one. */
+export const DEFAULT_COUNTRY = UGANDA.id;
+
+/**
+ * Look up a country profile by id (case-insensitive).
+ *
+ * Returns the default profile when `id` is empty and `null` when it does not
+ * match any registered country.
+ */
+export function getCountryProfile(
+  id: string | null | undefined
+): CountryProfile | null {
+  if (!id) return COUNTRY_PROFILES[DEFAULT_COUNTRY];
+  const key = id.trim().toLowerCase();
+  return Object.prototype.hasOwnProperty.call(COUNTRY_PROFILES, key)
+    ? COUNTRY_PROFILES[key]
+    : null;
+}
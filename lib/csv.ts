@@ -1,40 +1,178 @@
 /**
- * Simple CSV string builder for UgandaUser records.
+ * Simple CSV string builders for UgandaUser records and run diffs, and the
+ * user columns shared by every export format (see ./export).
  */
 
 import { UgandaUser } from "./types/user";
+import { DIFF_FIELDS, RunDiff } from "./diff";
+import { formatSignalReason } from "./signals";
 
-const COLUMNS: (keyof UgandaUser)[] = [
-  "login",
-  "name",
-  "location",
-  "followers",
-  "public_repos",
-  "confidenceScore",
-  "company",
-  "blog",
-  "email",
-  "html_url",
-  "bio",
-  "twitter_username",
-  "created_at",
-  "updated_at",
-  "sourceQueries",
+export interface Column {
+  header: string;
+  value: (user: UgandaUser) => unknown;
+  /** Numeric columns are typed as numbers in XLSX and Parquet exports. */
+  numeric?: boolean;
+}
+
+const field = (key: keyof UgandaUser, numeric = false): Column => ({
+  header: key,
+  value: (user) => user[key],
+  numeric,
+});
+
+/** Every user column, in the default export order. */
+export const USER_COLUMNS: Column[] = [
+  field("login"),
+  field("name"),
+  field("location"),
+  field("followers", true),
+  field("public_repos", true),
+  field("country"),
+  field("confidenceScore", true),
+  // locationMatch, flattened
+  {
+    header: "locationScore",
+    value: (u) => u.locationMatch.score,
+    numeric: true,
+  },
+  { header: "district", value: (u) => u.locationMatch.district },
+  { header: "region", value: (u) => u.locationMatch.region },
+  { header: "matchedTerm", value: (u) => u.locationMatch.matchedTerm },
+  { header: "matchType", value: (u) => u.locationMatch.matchType },
+  {
+    header: "signalScores",
+    value: (u) =>
+      Object.entries(u.signalScores).map(([name, score]) => `${name}:${score}`),
+  },
+  {
+    header: "scoreReasons",
+    value: (u) => u.scoreReasons.map(formatSignalReason),
+  },
+  field("reviewState"),
+  field("reviewNote"),
+  field("company"),
+  field("blog"),
+  field("email"),
+  field("html_url"),
+  field("bio"),
+  field("twitter_username"),
+  field("created_at"),
+  field("updated_at"),
+  field("activityScore", true),
+  field("lastActiveAt"),
+  field("top_languages"),
+  field("total_stars", true),
+  field("total_forks", true),
+  field("top_repo"),
+  field("last_pushed_at"),
+  field("sourceQueries"),
 ];
 
-function escapeCsvField(value: unknown): string {
+export interface CsvOptions {
+  /** Columns to write. Default: USER_COLUMNS. */
+  columns?: Column[];
+  /** Field delimiter. Default: ",". */
+  delimiter?: string;
+  /** Separator for array values such as sourceQueries. Default: "|". */
+  arrayJoin?: string;
+}
+
+/** A cell as text, with arrays joined by `arrayJoin`. */
+export function formatCell(value: unknown, arrayJoin = "|"): string {
   if (value == null) return "";
-  const str = Array.isArray(value) ? value.join("|") : String(value);
-  if (str.includes(",") || str.includes('"') || str.includes("\n")) {
+  return Array.isArray(value) ? value.join(arrayJoin) : String(value);
+}
+
+function escapeCsvField(
+  value: unknown,
+  delimiter = ",",
+  arrayJoin = "|"
+): string {
+  const str = formatCell(value, arrayJoin);
+  if (
+    str.includes(delimiter) ||
+    str.includes('"') ||
+    str.includes("\n") ||
+    str.includes("\r")
+  ) {
     return `"${str.replace(/"/g, '""')}"`;
   }
   return str;
 }
 
-export function buildCsv(users: UgandaUser[]): string {
-  const header = COLUMNS.join(",");
-  const rows = users.map((user) =>
-    COLUMNS.map((col) => escapeCsvField(user[col])).join(",")
+/**
+ * Yield the CSV text of `users` in chunks of `chunkSize` rows, header
+ * first. Joined, the chunks equal buildCsv.
+ */
+export function* csvChunks(
+  users: Iterable<UgandaUser>,
+  { columns = USER_COLUMNS, delimiter = ",", arrayJoin = "|" }: CsvOptions = {},
+  chunkSize = 500
+): Generator<string> {
+  const line = (values: unknown[]) =>
+    values.map((v) => escapeCsvField(v, delimiter, arrayJoin)).join(delimiter);
+
+  let chunk = line(columns.map((col) => col.header));
+  let rows = 0;
+  for (const user of users) {
+    chunk += "\n" + line(columns.map((col) => col.value(user)));
+    if (++rows % chunkSize === 0) {
+      yield chunk;
+      chunk = "";
+    }
+  }
+  yield chunk;
+}
+
+export function buildCsv(users: UgandaUser[], options?: CsvOptions): string {
+  return [...csvChunks(users, options)].join("");
+}
+
+const DIFF_COLUMNS = [
+  "change",
+  "login",
+  "name",
+  "location",
+  "previous_location",
+  ...DIFF_FIELDS.flatMap((f) => [f, `${f}_before`]),
+  "html_url",
+];
+
+/**
+ * One row per added / removed / moved-out / changed user. Numeric columns
+ * hold the newer value, with the older one in the matching `_before` column.
+ */
+export function buildDiffCsv(diff: RunDiff): string {
+  const rows: unknown[][] = [];
+
+  const row = (
+    change: string,
+    user: UgandaUser,
+    before: Partial<UgandaUser>,
+    previousLocation: string | null
+  ) => [
+    change,
+    user.login,
+    user.name,
+    user.location,
+    previousLocation,
+    ...DIFF_FIELDS.flatMap((f) => [user[f], before[f]]),
+    user.html_url,
+  ];
+
+  for (const u of diff.added) rows.push(row("added", u, {}, null));
+  for (const u of diff.removed) rows.push(row("removed", u, u, u.location));
+  for (const { user, previousLocation } of diff.movedOut) {
+    rows.push(row("moved_out", user, {}, previousLocation));
+  }
+  for (const { user, changes } of diff.changed) {
+    const before: Partial<UgandaUser> = {};
+    for (const f of DIFF_FIELDS) before[f] = changes[f]?.from ?? user[f];
+    rows.push(row("changed", user, before, null));
+  }
+
+  const header = DIFF_COLUMNS.join(",");
+  return [header, ...rows.map((r) => r.map((v) => escapeCsvField(v)).join(","))].join(
+    "\n"
   );
-  return [header, ...rows].join("\n");
 }
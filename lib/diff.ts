@@ -0,0 +1,161 @@
+/**
+ * Diff between two stored scrape runs — who appeared, who dropped out, who
+ * moved away, and whose counts changed.
+ */
+
+import { CountryProfile } from "./countries";
+import { isLikelyInCountry, normaliseLocation } from "./normalize";
+import { getProfileCache } from "./profiles";
+import { loadCountryProfile } from "./rules";
+import { getRunStore } from "./runs";
+import { UgandaUser } from "./types/user";
+
+/** Numeric fields compared between runs. */
+export const DIFF_FIELDS = [
+  "followers",
+  "public_repos",
+  "confidenceScore",
+] as const;
+
+export type DiffField = (typeof DIFF_FIELDS)[number];
+
+export interface FieldChange {
+  from: number;
+  to: number;
+}
+
+export interface ChangedUser {
+  /** The user as recorded in the newer run. */
+  user: UgandaUser;
+  changes: Partial<Record<DiffField, FieldChange>>;
+}
+
+export interface MovedUser {
+  /**
+   * The user as recorded in the newer run or, when missing from it, as
+   * recorded in the older run with their current location.
+   */
+  user: UgandaUser;
+  previousLocation: string | null;
+}
+
+export interface RunDiff {
+  fromRunId: string;
+  toRunId: string;
+  /** In the newer run only. */
+  added: UgandaUser[];
+  /** In the older run only, and not known to have moved out. */
+  removed: UgandaUser[];
+  /** The newer or current location no longer matches the country. */
+  movedOut: MovedUser[];
+  /** In both runs with at least one DIFF_FIELDS value changed. */
+  changed: ChangedUser[];
+}
+
+/**
+ * Compare two user sets. `profile` is the country the newer location is
+ * checked against for `movedOut`.
+ *
+ * A user who moved away usually drops out of the newer run entirely, as its
+ * searches no longer find them. `currentLocations` (login → location, e.g.
+ * from the profile cache) tells those users apart from ones who were only
+ * filtered out; users without a current location are reported as `removed`.
+ */
+export function computeRunDiff(
+  fromRunId: string,
+  fromUsers: UgandaUser[],
+  toRunId: string,
+  toUsers: UgandaUser[],
+  profile?: CountryProfile,
+  currentLocations: ReadonlyMap<string, string | null> = new Map()
+): RunDiff {
+  const before = new Map(fromUsers.map((u) => [u.login, u]));
+  const after = new Map(toUsers.map((u) => [u.login, u]));
+  const inCountry = (location: string | null) =>
+    isLikelyInCountry(normaliseLocation(location, profile), profile);
+  const movedOut = (prev: UgandaUser, location: string | null) =>
+    prev.location !== location &&
+    inCountry(prev.location) &&
+    !inCountry(location);
+
+  const diff: RunDiff = {
+    fromRunId,
+    toRunId,
+    added: toUsers.filter((u) => !before.has(u.login)),
+    removed: [],
+    movedOut: [],
+    changed: [],
+  };
+
+  for (const prev of fromUsers) {
+    if (after.has(prev.login)) continue;
+    const location = currentLocations.get(prev.login);
+    if (location !== undefined && movedOut(prev, location)) {
+      diff.movedOut.push({
+        user: { ...prev, location },
+        previousLocation: prev.location,
+      });
+    } else {
+      diff.removed.push(prev);
+    }
+  }
+
+  for (const user of toUsers) {
+    const prev = before.get(user.login);
+    if (!prev) continue;
+
+    if (movedOut(prev, user.location)) {
+      diff.movedOut.push({ user, previousLocation: prev.location });
+    }
+
+    const changes: ChangedUser["changes"] = {};
+    for (const field of DIFF_FIELDS) {
+      if (prev[field] !== user[field]) {
+        changes[field] = { from: prev[field], to: user[field] };
+      }
+    }
+    if (Object.keys(changes).length > 0) {
+      diff.changed.push({ user, changes });
+    }
+  }
+
+  return diff;
+}
+
+/**
+ * Load two runs from the run store and diff them, taking the current
+ * location of dropped users from profiles cached since the older run.
+ * Returns null when either run does not exist.
+ */
+export async function loadRunDiff(
+  fromRunId: string,
+  toRunId: string
+): Promise<RunDiff | null> {
+  const store = getRunStore();
+  const [from, to] = await Promise.all([
+    store.get(fromRunId),
+    store.get(toRunId),
+  ]);
+  if (!from || !to) return null;
+
+  const profile = (await loadCountryProfile(to.request.country)) ?? undefined;
+  const cache = getProfileCache();
+  const since = Date.parse(from.createdAt);
+  const kept = new Set(to.users.map((u) => u.login));
+  const currentLocations = new Map<string, string | null>();
+  for (const { login } of from.users) {
+    if (kept.has(login)) continue;
+    const cached = await cache.get(login);
+    if (cached && cached.checkedAt >= since) {
+      currentLocations.set(login, cached.profile.location);
+    }
+  }
+  return computeRunDiff(
+    from.runId,
+    from.users,
+    to.runId,
+    to.users,
+    profile,
+    currentLocations
+  );
+}
@@ -0,0 +1,238 @@
+/**
+ * Evaluation harness for the location classifier in ./normalize.
+ *
+ * A labeled fixture lists raw location strings with whether they are in the
+ * country and, optionally, the expected district. evaluateClassifier scores
+ * every entry against a country profile and reports precision, recall, F1,
+ * the confusion matrix, district accuracy and accuracy per score bucket;
+ * compareReports puts two rule versions (e.g. a profile with and without
+ * learned rules, see ./rules) side by side.
+ */
+
+import { CountryProfile } from "./countries";
+import { LocationMatch, explainLocation, normaliseLocation } from "./normalize";
+
+/** One labeled location. */
+export interface LocationFixture {
+  /** Raw location string, as written on a GitHub profile. */
+  location: string;
+  /** Whether the location is in the country. */
+  expected: boolean;
+  /** Expected district, or null when it cannot be resolved. */
+  district?: string | null;
+}
+
+export interface ConfusionMatrix {
+  truePositives: number;
+  falsePositives: number;
+  trueNegatives: number;
+  falseNegatives: number;
+}
+
+export interface ScoreBucket {
+  /** Inclusive score range, e.g. [50, 74]. */
+  min: number;
+  max: number;
+  total: number;
+  correct: number;
+  accuracy: number;
+}
+
+export interface Misclassification {
+  location: string;
+  expected: boolean;
+  score: number;
+  /** Present when the district was wrong rather than the classification. */
+  district?: { expected: string; actual: string | null };
+}
+
+export interface EvaluationReport {
+  total: number;
+  /** Score a location needs to be accepted. */
+  threshold: number;
+  confusion: ConfusionMatrix;
+  precision: number;
+  recall: number;
+  f1: number;
+  accuracy: number;
+  /** Share of accepted in-country fixtures with a district whose district matched. */
+  districtAccuracy: number;
+  buckets: ScoreBucket[];
+  mistakes: Misclassification[];
+}
+
+/** Score ranges reported in EvaluationReport.buckets. */
+const BUCKETS: [number, number][] = [
+  [0, 0],
+  [1, 49],
+  [50, 74],
+  [75, 89],
+  [90, 100],
+];
+
+/**
+ * Classify a raw location: accepted when it is likely in the country (no
+ * false-positive veto) and scores at least `threshold`, as a scrape with
+ * `minScore: threshold` would keep it.
+ */
+export function classifyLocation(
+  location: string,
+  profile: CountryProfile,
+  threshold: number
+): { accepted: boolean; match: LocationMatch } {
+  const { match, isLikely } = explainLocation(
+    normaliseLocation(location, profile),
+    profile
+  );
+  return { accepted: isLikely && match.score >= threshold, match };
+}
+
+export const ratio = (n: number, d: number) =>
+  d === 0 ? 1 : Math.round((n / d) * 1000) / 1000;
+
+/** Evaluate `profile` on the fixtures. */
+export function evaluateClassifier(
+  fixtures: LocationFixture[],
+  profile: CountryProfile,
+  threshold = 50
+): EvaluationReport {
+  const confusion: ConfusionMatrix = {
+    truePositives: 0,
+    falsePositives: 0,
+    trueNegatives: 0,
+    falseNegatives: 0,
+  };
+  const buckets: ScoreBucket[] = BUCKETS.map(([min, max]) => ({
+    min,
+    max,
+    total: 0,
+    correct: 0,
+    accuracy: 1,
+  }));
+  const mistakes: Misclassification[] = [];
+  let districtsChecked = 0;
+  let districtsCorrect = 0;
+
+  for (const f of fixtures) {
+    const { accepted, match } = classifyLocation(f.location, profile, threshold);
+    const correct = accepted === f.expected;
+    if (accepted && f.expected) confusion.truePositives++;
+    else if (accepted) confusion.falsePositives++;
+    else if (f.expected) confusion.falseNegatives++;
+    else confusion.trueNegatives++;
+
+    const bucket = buckets.find((b) => match.score >= b.min && match.score <= b.max)!;
+    bucket.total++;
+    if (correct) bucket.correct++;
+
+    if (!correct) {
+      mistakes.push({ location: f.location, expected: f.expected, score: match.score });
+    } else if (accepted && f.district) {
+      districtsChecked++;
+      if (match.district === f.district) districtsCorrect++;
+      else {
+        mistakes.push({
+          location: f.location,
+          expected: f.expected,
+          score: match.score,
+          district: { expected: f.district, actual: match.district },
+        });
+      }
+    }
+  }
+
+  for (const b of buckets) b.accuracy = ratio(b.correct, b.total);
+
+  const { truePositives: tp, falsePositives: fp, falseNegatives: fn } = confusion;
+  const precision = ratio(tp, tp + fp);
+  const recall = ratio(tp, tp + fn);
+  return {
+    total: fixtures.length,
+    threshold,
+    confusion,
+    precision,
+    recall,
+    f1:
+      precision + recall === 0
+        ? 0
+        : Math.round(((2 * precision * recall) / (precision + recall)) * 1000) /
+          1000,
+    accuracy: ratio(tp + confusion.trueNegatives, fixtures.length),
+    districtAccuracy: ratio(districtsCorrect, districtsChecked),
+    buckets,
+    mistakes,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Reports
+// ---------------------------------------------------------------------------
+
+/** Headline metrics compared by compareReports. */
+const METRICS = [
+  "precision",
+  "recall",
+  "f1",
+  "accuracy",
+  "districtAccuracy",
+] as const;
+
+export type ReportMetric = (typeof METRICS)[number];
+
+export interface MetricComparison {
+  metric: ReportMetric;
+  baseline: number;
+  candidate: number;
+  delta: number;
+}
+
+/** Compare the headline metrics of two reports on the same fixtures. */
+export function compareReports(
+  baseline: EvaluationReport,
+  candidate: EvaluationReport
+): MetricComparison[] {
+  return METRICS.map((metric) => ({
+    metric,
+    baseline: baseline[metric],
+    candidate: candidate[metric],
+    delta: Math.round((candidate[metric] - baseline[metric]) * 1000) / 1000,
+  }));
+}
+
+const pct = (n: number) => `${(n * 100).toFixed(1)}%`;
+
+/** Plain-text report: headline metrics, confusion matrix, buckets, mistakes. */
+export function formatReport(report: EvaluationReport): string {
+  const c = report.confusion;
+  return [
+    `${report.total} fixtures, threshold ${report.threshold}`,
+    ...METRICS.map((m) => `  ${m.padEnd(17)} ${pct(report[m])}`),
+    "",
+    "                  predicted yes  predicted no",
+    `  expected yes    ${String(c.truePositives).padStart(13)}  ${String(c.falseNegatives).padStart(12)}`,
+    `  expected no     ${String(c.falsePositives).padStart(13)}  ${String(c.trueNegatives).padStart(12)}`,
+    "",
+    "  score     total  accuracy",
+    ...report.buckets.map(
+      (b) =>
+        `  ${`${b.min}–${b.max}`.padEnd(8)} ${String(b.total).padStart(6)}  ${pct(b.accuracy)}`
+    ),
+    ...(report.mistakes.length > 0 ? ["", "Mistakes:"] : []),
+    ...report.mistakes.map((m) =>
+      m.district
+        ? `  ${JSON.stringify(m.location)}: district ${m.district.actual ?? "none"}, expected ${m.district.expected}`
+        : `  ${JSON.stringify(m.location)}: score ${m.score}, expected ${m.expected ? "yes" : "no"}`
+    ),
+  ].join("\n");
+}
+
+/** Plain-text side-by-side table of compareReports. */
+export function formatComparison(rows: MetricComparison[]): string {
+  return [
+    "  metric            baseline  candidate  delta",
+    ...rows.map(
+      (r) =>
+        `  ${r.metric.padEnd(17)} ${pct(r.baseline).padStart(8)}  ${pct(r.candidate).padStart(9)}  ${r.delta >= 0 ? "+" : ""}${(r.delta * 100).toFixed(1)}`
+    ),
+  ].join("\n");
+}
@@ -0,0 +1,297 @@
+/**
+ * Run exports in every download format — JSON, CSV, TSV, NDJSON, XLSX and
+ * Parquet — with a choice of columns, delimiter and array separator, as
+ * requested through the export routes' query parameters.
+ *
+ * CSV, TSV and NDJSON are streamed in chunks, so a large run is never held
+ * as one string; XLSX and Parquet are built in memory by their writers.
+ * handleExport serves both export routes, which differ only in their
+ * default format.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { parquetWriteBuffer } from "hyparquet-writer";
+import writeXlsxFile from "write-excel-file/node";
+import {
+  Column,
+  USER_COLUMNS,
+  buildDiffCsv,
+  csvChunks,
+  formatCell,
+} from "./csv";
+import { loadRunDiff } from "./diff";
+import { UserFilters, filterUsers, parseFilterParams } from "./filters";
+import { applyReviews } from "./reviews";
+import { StoredRun, getRunStore } from "./runs";
+import { UgandaUser } from "./types/user";
+
+export const EXPORT_FORMATS = [
+  "json",
+  "csv",
+  "tsv",
+  "ndjson",
+  "xlsx",
+  "parquet",
+] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  json: "application/json",
+  csv: "text/csv",
+  tsv: "text/tab-separated-values",
+  ndjson: "application/x-ndjson",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  parquet: "application/vnd.apache.parquet",
+};
+
+export interface ExportOptions {
+  format: ExportFormat;
+  /**
+   * Columns to write, or null for all of them: USER_COLUMNS for tabular
+   * formats and whole user records for JSON / NDJSON.
+   */
+  columns: Column[] | null;
+  /** CSV / TSV field delimiter. */
+  delimiter: string;
+  /** Separator for array values in text cells. */
+  arrayJoin: string;
+}
+
+/** Rows per chunk of a streamed export. */
+const CHUNK_ROWS = 500;
+
+function isExportFormat(value: string): value is ExportFormat {
+  return (EXPORT_FORMATS as readonly string[]).includes(value);
+}
+
+/**
+ * Read `format`, `columns` (comma-separated headers), `delimiter` (one
+ * character, or "tab") and `arrayJoin` from export query parameters.
+ * Throws on unknown formats or columns and unusable delimiters.
+ */
+export function parseExportOptions(
+  params: URLSearchParams,
+  defaultFormat: ExportFormat
+): ExportOptions {
+  const format = params.get("format") ?? defaultFormat;
+  if (!isExportFormat(format)) {
+    throw new Error(
+      `Unknown format: ${format} (expected ${EXPORT_FORMATS.join(", ")})`
+    );
+  }
+
+  let columns: Column[] | null = null;
+  const names = params.get("columns");
+  if (names !== null) {
+    columns = names
+      .split(",")
+      .map((name) => name.trim())
+      .filter(Boolean)
+      .map((name) => {
+        const column = USER_COLUMNS.find((c) => c.header === name);
+        if (!column) throw new Error(`Unknown column: ${name}`);
+        return column;
+      });
+    if (columns.length === 0) throw new Error("columns must not be empty");
+  }
+
+  const raw = params.get("delimiter");
+  const delimiter =
+    raw === null ? (format === "tsv" ? "\t" : ",") : raw === "tab" ? "\t" : raw;
+  if (delimiter.length !== 1 || /["\r\n]/.test(delimiter)) {
+    throw new Error('delimiter must be one character other than " or a newline');
+  }
+
+  const arrayJoin = params.get("arrayJoin") ?? "|";
+  if (/[\r\n]/.test(arrayJoin)) {
+    throw new Error("arrayJoin must not contain a newline");
+  }
+
+  return { format, columns, delimiter, arrayJoin };
+}
+
+/** Download name, e.g. `uganda_github_users_<runId>_2024-05-01.csv`. */
+export function exportFilename(
+  run: Pick<StoredRun, "runId" | "createdAt" | "request">,
+  format: ExportFormat
+): string {
+  const date = run.createdAt.slice(0, 10);
+  return `${run.request.country}_github_users_${run.runId}_${date}.${format}`;
+}
+
+/** A user as a plain object of the selected columns' raw values. */
+function pick(user: UgandaUser, columns: Column[]): Record<string, unknown> {
+  return Object.fromEntries(columns.map((c) => [c.header, c.value(user)]));
+}
+
+function* ndjsonChunks(
+  users: UgandaUser[],
+  columns: Column[] | null
+): Generator<string> {
+  for (let i = 0; i < users.length; i += CHUNK_ROWS) {
+    yield users
+      .slice(i, i + CHUNK_ROWS)
+      .map((u) => JSON.stringify(columns ? pick(u, columns) : u) + "\n")
+      .join("");
+  }
+}
+
+/** A byte stream that pulls the next text chunk only when it is read. */
+function streamChunks(chunks: Iterator<string>): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    pull(controller) {
+      const { value, done } = chunks.next();
+      if (done) controller.close();
+      else controller.enqueue(encoder.encode(value));
+    },
+  });
+}
+
+/** Numbers for numeric columns, text (arrays joined) otherwise; null when empty. */
+function cellValue(
+  user: UgandaUser,
+  column: Column,
+  arrayJoin: string
+): string | number | null {
+  const value = column.value(user);
+  if (value == null || value === "") return null;
+  return column.numeric ? Number(value) : formatCell(value, arrayJoin);
+}
+
+/** Build the response body of `users` in `options.format`. */
+export async function exportUsers(
+  users: UgandaUser[],
+  options: ExportOptions
+): Promise<{ body: BodyInit; contentType: string }> {
+  const { format, delimiter, arrayJoin } = options;
+  const columns = options.columns ?? USER_COLUMNS;
+  const contentType = CONTENT_TYPES[format];
+
+  switch (format) {
+    case "json": {
+      const rows = options.columns ? users.map((u) => pick(u, columns)) : users;
+      return { body: JSON.stringify(rows, null, 2), contentType };
+    }
+    case "ndjson":
+      return {
+        body: streamChunks(ndjsonChunks(users, options.columns)),
+        contentType,
+      };
+    case "csv":
+    case "tsv":
+      return {
+        body: streamChunks(
+          csvChunks(users, { columns, delimiter, arrayJoin }, CHUNK_ROWS)
+        ),
+        contentType,
+      };
+    case "xlsx": {
+      const sheet = [
+        columns.map((c) => ({ value: c.header, fontWeight: "bold" as const })),
+        ...users.map((u) => columns.map((c) => cellValue(u, c, arrayJoin))),
+      ];
+      const buffer = await writeXlsxFile(sheet).toBuffer();
+      return { body: new Uint8Array(buffer), contentType };
+    }
+    case "parquet": {
+      const buffer = parquetWriteBuffer({
+        columnData: columns.map((c) => ({
+          name: c.header,
+          data: users.map((u) => cellValue(u, c, arrayJoin)),
+          type: c.numeric ? "DOUBLE" : "STRING",
+        })),
+      });
+      return { body: buffer, contentType };
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Route handler
+// ---------------------------------------------------------------------------
+
+/**
+ * Export a run (`?runId=`) or the diff between two runs (`?from=&to=`).
+ * Run exports take `format`, `columns`, `delimiter` and `arrayJoin` and the
+ * results-table filters and sort (see ./filters), with `format` defaulting
+ * to `defaultFormat`. Diffs are written as CSV when that is "csv", else JSON.
+ */
+export async function handleExport(
+  request: NextRequest,
+  defaultFormat: "csv" | "json"
+): Promise<NextResponse> {
+  const { searchParams } = request.nextUrl;
+  const from = searchParams.get("from");
+  const to = searchParams.get("to");
+  if (from || to) {
+    return exportDiff(from, to, defaultFormat);
+  }
+
+  const runId = searchParams.get("runId");
+  if (!runId) {
+    return NextResponse.json(
+      { error: "Missing runId query parameter" },
+      { status: 400 }
+    );
+  }
+
+  const store = getRunStore();
+  const run = await store.get(runId);
+  if (!run) {
+    return NextResponse.json({ error: "Run not found" }, { status: 404 });
+  }
+
+  let options: ExportOptions;
+  let filters: UserFilters;
+  try {
+    filters = parseFilterParams(searchParams);
+    options = parseExportOptions(searchParams, defaultFormat);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Invalid export options";
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+
+  const users = filterUsers(
+    applyReviews(run.users, await store.listReviews()),
+    filters
+  );
+  const { body, contentType } = await exportUsers(users, options);
+
+  return new NextResponse(body, {
+    status: 200,
+    headers: {
+      "Content-Type": contentType,
+      "Content-Disposition": `attachment; filename="${exportFilename(run, options.format)}"`,
+    },
+  });
+}
+
+async function exportDiff(
+  from: string | null,
+  to: string | null,
+  format: "csv" | "json"
+): Promise<NextResponse> {
+  if (!from || !to) {
+    return NextResponse.json(
+      { error: "Both from and to query parameters are required" },
+      { status: 400 }
+    );
+  }
+
+  const diff = await loadRunDiff(from, to);
+  if (!diff) {
+    return NextResponse.json({ error: "Run not found" }, { status: 404 });
+  }
+
+  const body =
+    format === "csv" ? buildDiffCsv(diff) : JSON.stringify(diff, null, 2);
+  return new NextResponse(body, {
+    status: 200,
+    headers: {
+      "Content-Type": CONTENT_TYPES[format],
+      "Content-Disposition": `attachment; filename="diff_${from}_${to}.${format}"`,
+    },
+  });
+}
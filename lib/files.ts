@@ -0,0 +1,25 @@
+/**
+ * JSON file helpers shared by the file-backed stores (runs, profiles, rules
+ * and webhook subscriptions). Server-only.
+ */
+
+import { promises as fs } from "node:fs";
+
+/** True for the error of reading a file that does not exist. */
+export function isMissing(err: unknown): boolean {
+  return (err as NodeJS.ErrnoException)?.code === "ENOENT";
+}
+
+/**
+ * Write `data` as JSON via a temp file + rename so readers never see a
+ * partial file. `pretty` indents files meant to be edited by hand.
+ */
+export async function writeJsonAtomic(
+  file: string,
+  data: unknown,
+  pretty = false
+): Promise<void> {
+  const tmp = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(data, null, pretty ? 2 : 0), "utf8");
+  await fs.rename(tmp, file);
+}
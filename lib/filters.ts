@@ -0,0 +1,387 @@
+/**
+ * Results-table filters and sort, shared by the page, the export routes and
+ * GET /api/runs/:id/users so a download or API page holds exactly the rows
+ * the table would show.
+ *
+ * Filters travel as query parameters (see filtersToParams) — only values
+ * that differ from DEFAULT_FILTERS are written, so an unfiltered export
+ * URL stays `?runId=...`.
+ */
+
+import { REVIEW_STATES, isReviewState, type ReviewState } from "./reviews";
+import { UgandaUser } from "./types/user";
+import { WEB3_SKILLS, detectWeb3Skills, type Web3Skill } from "./web3";
+
+export const SORT_KEYS = [
+  "score",
+  "followers",
+  "repos",
+  "newest",
+  "activity",
+  "recent",
+] as const;
+
+export type SortKey = (typeof SORT_KEYS)[number];
+
+/** Inclusive bounds; null = open. */
+export interface Range {
+  min: number | null;
+  max: number | null;
+}
+
+export interface UserFilters {
+  /** Case-insensitive match on login, name or bio. */
+  search: string;
+  /** Case-insensitive match on company, ignoring a leading "@". */
+  company: string;
+  followers: Range;
+  repos: Range;
+  /** Range of confidenceScore. */
+  score: Range;
+  hasBio: boolean;
+  hasCompany: boolean;
+  hasBlog: boolean;
+  hasEmail: boolean;
+  review: "all" | ReviewState;
+  /** Minimum activity score; 0 = off. Users without activity data never match. */
+  minActivity: number;
+  /** Last active within this many days; 0 = off. */
+  activeWithinDays: number;
+  /** Users with any of these skills; empty = off. */
+  web3Skills: Web3Skill[];
+  sort: SortKey;
+}
+
+const ANY: Range = { min: null, max: null };
+
+export const DEFAULT_FILTERS: UserFilters = {
+  search: "",
+  company: "",
+  followers: ANY,
+  repos: ANY,
+  score: ANY,
+  hasBio: false,
+  hasCompany: false,
+  hasBlog: false,
+  hasEmail: false,
+  review: "all",
+  minActivity: 0,
+  activeWithinDays: 0,
+  web3Skills: [],
+  sort: "score",
+};
+
+const HAS_FIELDS = ["hasBio", "hasCompany", "hasBlog", "hasEmail"] as const;
+
+const RANGE_FIELDS = ["followers", "repos", "score"] as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ---------------------------------------------------------------------------
+// Query parameters
+// ---------------------------------------------------------------------------
+
+/** `10..500`, `10..` or `..500`; a single number matches exactly. */
+function formatRange({ min, max }: Range): string {
+  if (min !== null && min === max) return String(min);
+  return `${min ?? ""}..${max ?? ""}`;
+}
+
+/**
+ * Filters as query parameters: `q`, `company`, `followers` / `repos` /
+ * `score` ranges (`min..max`, either end optional), `hasBio` /
+ * `hasCompany` / `hasBlog` / `hasEmail` (`1`), `review`, `minActivity`,
+ * `activeWithin` (days), `web3` (comma-separated skills) and `sort`.
+ * Defaults are left out.
+ */
+export function filtersToParams(filters: UserFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  if (filters.search) params.set("q", filters.search);
+  if (filters.company) params.set("company", filters.company);
+  for (const key of RANGE_FIELDS) {
+    const range = filters[key];
+    if (range.min !== null || range.max !== null) {
+      params.set(key, formatRange(range));
+    }
+  }
+  for (const key of HAS_FIELDS) {
+    if (filters[key]) params.set(key, "1");
+  }
+  if (filters.review !== "all") params.set("review", filters.review);
+  if (filters.minActivity > 0) {
+    params.set("minActivity", String(filters.minActivity));
+  }
+  if (filters.activeWithinDays > 0) {
+    params.set("activeWithin", String(filters.activeWithinDays));
+  }
+  if (filters.web3Skills.length > 0) {
+    params.set("web3", filters.web3Skills.join(","));
+  }
+  if (filters.sort !== DEFAULT_FILTERS.sort) params.set("sort", filters.sort);
+  return params;
+}
+
+function parseFlag(params: URLSearchParams, name: string): boolean {
+  const value = params.get(name);
+  if (value === null || value === "0" || value === "false") return false;
+  if (value === "" || value === "1" || value === "true") return true;
+  throw new Error(`${name} must be 1 or 0`);
+}
+
+function parseNonNegative(params: URLSearchParams, name: string): number {
+  const value = params.get(name);
+  if (value === null || value === "") return 0;
+  const n = Number(value);
+  if (!Number.isFinite(n) || n < 0) {
+    throw new Error(`${name} must be a non-negative number`);
+  }
+  return n;
+}
+
+function parseRange(params: URLSearchParams, name: string): Range {
+  const value = params.get(name);
+  if (value === null || value === "") return ANY;
+
+  const bound = (text: string): number | null => {
+    if (text.trim() === "") return null;
+    const n = Number(text);
+    if (!Number.isFinite(n)) {
+      throw new Error(`${name} must be a number or a min..max range`);
+    }
+    return n;
+  };
+
+  const parts = value.split("..");
+  if (parts.length > 2) {
+    throw new Error(`${name} must be a number or a min..max range`);
+  }
+  if (parts.length === 1) {
+    const n = bound(value);
+    return { min: n, max: n };
+  }
+  const range = { min: bound(parts[0]), max: bound(parts[1]) };
+  if (range.min !== null && range.max !== null && range.min > range.max) {
+    throw new Error(`${name} range is empty: ${value}`);
+  }
+  return range;
+}
+
+/** Read filters written by filtersToParams. Throws on invalid values. */
+export function parseFilterParams(params: URLSearchParams): UserFilters {
+  const review = params.get("review") ?? "all";
+  if (review !== "all" && !isReviewState(review)) {
+    throw new Error(
+      `Unknown review state: ${review} (expected all, ${REVIEW_STATES.join(", ")})`
+    );
+  }
+
+  const sort = params.get("sort") ?? DEFAULT_FILTERS.sort;
+  if (!(SORT_KEYS as readonly string[]).includes(sort)) {
+    throw new Error(`Unknown sort: ${sort} (expected ${SORT_KEYS.join(", ")})`);
+  }
+
+  const web3Skills = (params.get("web3") ?? "")
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean)
+    .map((skill) => {
+      if (!(WEB3_SKILLS as readonly string[]).includes(skill)) {
+        throw new Error(`Unknown Web3 skill: ${skill}`);
+      }
+      return skill as Web3Skill;
+    });
+
+  return {
+    search: params.get("q") ?? "",
+    company: params.get("company") ?? "",
+    followers: parseRange(params, "followers"),
+    repos: parseRange(params, "repos"),
+    score: parseRange(params, "score"),
+    hasBio: parseFlag(params, "hasBio"),
+    hasCompany: parseFlag(params, "hasCompany"),
+    hasBlog: parseFlag(params, "hasBlog"),
+    hasEmail: parseFlag(params, "hasEmail"),
+    review,
+    minActivity: parseNonNegative(params, "minActivity"),
+    activeWithinDays: parseNonNegative(params, "activeWithin"),
+    web3Skills,
+    sort: sort as SortKey,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Filter + sort
+// ---------------------------------------------------------------------------
+
+const time = (iso: string | null | undefined) =>
+  iso ? new Date(iso).getTime() : 0;
+
+const inRange = (value: number, { min, max }: Range) =>
+  (min === null || value >= min) && (max === null || value <= max);
+
+/** Lowercase, without a leading "@" (GitHub org mentions). */
+const companyKey = (company: string) =>
+  company.trim().replace(/^@/, "").toLowerCase();
+
+const COMPARATORS: Record<SortKey, (a: UgandaUser, b: UgandaUser) => number> = {
+  score: (a, b) =>
+    b.confidenceScore - a.confidenceScore || b.followers - a.followers,
+  followers: (a, b) => b.followers - a.followers,
+  repos: (a, b) => b.public_repos - a.public_repos,
+  newest: (a, b) => time(b.created_at) - time(a.created_at),
+  activity: (a, b) => (b.activityScore ?? -1) - (a.activityScore ?? -1),
+  recent: (a, b) => time(b.lastActiveAt) - time(a.lastActiveAt),
+};
+
+/**
+ * The users matching `filters`, sorted. Review filters read `reviewState`,
+ * so pass users through applyReviews first (unset counts as unreviewed).
+ */
+export function filterUsers(
+  users: UgandaUser[],
+  filters: UserFilters,
+  now = Date.now()
+): UgandaUser[] {
+  const q = filters.search.toLowerCase();
+  const company = companyKey(filters.company);
+  const since = now - filters.activeWithinDays * DAY_MS;
+
+  const matches = (u: UgandaUser): boolean => {
+    if (
+      q &&
+      !u.login.toLowerCase().includes(q) &&
+      !(u.name?.toLowerCase().includes(q) ?? false) &&
+      !(u.bio?.toLowerCase().includes(q) ?? false)
+    ) {
+      return false;
+    }
+
+    if (company && !(u.company && companyKey(u.company).includes(company))) {
+      return false;
+    }
+    if (!inRange(u.followers, filters.followers)) return false;
+    if (!inRange(u.public_repos, filters.repos)) return false;
+    if (!inRange(u.confidenceScore, filters.score)) return false;
+
+    if (filters.hasBio && !u.bio) return false;
+    if (filters.hasCompany && !u.company) return false;
+    if (filters.hasBlog && !u.blog) return false;
+    if (filters.hasEmail && !u.email) return false;
+
+    if (
+      filters.review !== "all" &&
+      (u.reviewState ?? "unreviewed") !== filters.review
+    ) {
+      return false;
+    }
+
+    if (
+      filters.minActivity > 0 &&
+      (u.activityScore ?? -1) < filters.minActivity
+    ) {
+      return false;
+    }
+    if (
+      filters.activeWithinDays > 0 &&
+      (!u.lastActiveAt || time(u.lastActiveAt) < since)
+    ) {
+      return false;
+    }
+
+    if (filters.web3Skills.length > 0) {
+      const skills = detectWeb3Skills(u.bio, u.company, u.blog);
+      if (!filters.web3Skills.some((s) => skills.includes(s))) return false;
+    }
+
+    return true;
+  };
+
+  return users.filter(matches).sort(COMPARATORS[filters.sort]);
+}
+
+// ---------------------------------------------------------------------------
+// Pagination
+// ---------------------------------------------------------------------------
+
+export const DEFAULT_PAGE_SIZE = 100;
+export const MAX_PAGE_SIZE = 1000;
+
+export interface PageRequest {
+  limit: number;
+  offset: number;
+  /** Login of the row before `offset`, when paging by cursor. */
+  after: string | null;
+}
+
+export interface UserPage {
+  users: UgandaUser[];
+  /** Matching users across all pages. */
+  total: number;
+  /** Pass as `cursor` for the next page; null on the last page. */
+  nextCursor: string | null;
+}
+
+function encodeCursor(offset: number, login: string): string {
+  return btoa(JSON.stringify([offset, login]))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function decodeCursor(cursor: string): { offset: number; after: string } {
+  try {
+    const [offset, after] = JSON.parse(
+      atob(cursor.replace(/-/g, "+").replace(/_/g, "/"))
+    );
+    if (Number.isInteger(offset) && offset > 0 && typeof after === "string") {
+      return { offset, after };
+    }
+  } catch {
+    // fall through
+  }
+  throw new Error("Invalid cursor");
+}
+
+/**
+ * Read `limit` (default DEFAULT_PAGE_SIZE, at most MAX_PAGE_SIZE) and either
+ * `cursor` (from a previous page) or `offset`. Throws on invalid values.
+ */
+export function parsePageParams(params: URLSearchParams): PageRequest {
+  const rawLimit = params.get("limit");
+  const limit = rawLimit === null ? DEFAULT_PAGE_SIZE : Number(rawLimit);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    throw new Error(`limit must be an integer from 1 to ${MAX_PAGE_SIZE}`);
+  }
+
+  const cursor = params.get("cursor");
+  if (cursor) return { limit, ...decodeCursor(cursor) };
+
+  const rawOffset = params.get("offset");
+  const offset = rawOffset === null ? 0 : Number(rawOffset);
+  if (!Number.isInteger(offset) || offset < 0) {
+    throw new Error("offset must be a non-negative integer");
+  }
+  return { limit, offset, after: null };
+}
+
+/**
+ * One page of filtered users. A cursor remembers the last login it
+ * returned; if reviews or the run changed and that login moved, the page
+ * continues after its new position (or at the old offset if it is gone).
+ */
+export function pageUsers(users: UgandaUser[], page: PageRequest): UserPage {
+  let start = page.offset;
+  if (page.after !== null && users[start - 1]?.login !== page.after) {
+    const index = users.findIndex((u) => u.login === page.after);
+    if (index >= 0) start = index + 1;
+  }
+
+  const slice = users.slice(start, start + page.limit);
+  const end = start + slice.length;
+  return {
+    users: slice,
+    total: users.length,
+    nextCursor:
+      end < users.length ? encodeCursor(end, users[end - 1].login) : null,
+  };
+}
@@ -0,0 +1,210 @@
+/**
+ * Offline gazetteers — districts, towns, suburbs and sub-regions used to
+ * resolve a free-text location to a district and region.
+ *
+ * A country profile may carry a gazetteer (see ./countries); matching lives
+ * in ./normalize. Names are lowercase.
+ */
+
+export type PlaceKind = "district" | "town" | "suburb" | "subregion";
+
+export interface GazetteerEntry {
+  name: string;
+  kind: PlaceKind;
+  /** District the place lies in (the place itself for districts), or null for sub-regions. */
+  district: string | null;
+  region: string;
+  /** Alternative spellings and local names. */
+  altNames?: string[];
+  /**
+   * Names (of `name` and `altNames`) that are also places abroad, surnames
+   * or common words. ./normalize scores them low unless the location also
+   * names the country or an unambiguous place.
+   */
+  ambiguousNames?: string[];
+}
+
+// ---------------------------------------------------------------------------
+// Uganda
+// ---------------------------------------------------------------------------
+
+/** Districts per administrative region, in display case. */
+const UGANDA_DISTRICTS: Record<string, string[]> = {
+  Central: [
+    "Buikwe", "Bukomansimbi", "Butambala", "Buvuma", "Gomba", "Kalangala",
+    "Kalungu", "Kampala", "Kassanda", "Kayunga", "Kiboga", "Kyankwanzi",
+    "Kyotera", "Luwero", "Lwengo", "Lyantonde", "Masaka", "Mityana", "Mpigi",
+    "Mubende", "Mukono", "Nakaseke", "Nakasongola", "Rakai", "Sembabule",
+    "Wakiso",
+  ],
+  Eastern: [
+    "Amuria", "Budaka", "Bududa", "Bugiri", "Bugweri", "Bukedea", "Bukwo",
+    "Bulambuli", "Busia", "Butaleja", "Butebo", "Buyende", "Iganga", "Jinja",
+    "Kaberamaido", "Kalaki", "Kaliro", "Kamuli", "Kapchorwa", "Kapelebyong",
+    "Katakwi", "Kibuku", "Kumi", "Kween", "Luuka", "Manafwa", "Mayuge",
+    "Mbale", "Namayingo", "Namisindwa", "Namutumba", "Ngora", "Pallisa",
+    "Serere", "Sironko", "Soroti", "Tororo",
+  ],
+  Northern: [
+    "Abim", "Adjumani", "Agago", "Alebtong", "Amolatar", "Amudat", "Amuru",
+    "Apac", "Arua", "Dokolo", "Gulu", "Kaabong", "Karenga", "Kitgum",
+    "Koboko", "Kole", "Kotido", "Kwania", "Lamwo", "Lira", "Madi-Okollo",
+    "Maracha", "Moroto", "Moyo", "Nabilatuk", "Nakapiripirit", "Napak",
+    "Nebbi", "Nwoya", "Obongi", "Omoro", "Otuke", "Oyam", "Pader", "Pakwach",
+    "Terego", "Yumbe", "Zombo",
+  ],
+  Western: [
+    "Buhweju", "Buliisa", "Bundibugyo", "Bunyangabu", "Bushenyi", "Hoima",
+    "Ibanda", "Isingiro", "Kabale", "Kabarole", "Kagadi", "Kakumiro",
+    "Kamwenge", "Kanungu", "Kasese", "Kazo", "Kibaale", "Kikuube",
+    "Kiruhura", "Kiryandongo", "Kisoro", "Kitagwenda", "Kyegegwa",
+    "Kyenjojo", "Masindi", "Mbarara", "Mitooma", "Ntoroko", "Ntungamo",
+    "Rubanda", "Rubirizi", "Rukiga", "Rukungiri", "Rwampara", "Sheema",
+  ],
+};
+
+/** Towns that are not district names, with their district. */
+const UGANDA_TOWNS: [name: string, district: string, altNames?: string[]][] = [
+  ["Entebbe", "Wakiso", ["ntebe"]],
+  ["Nansana", "Wakiso"],
+  ["Kira", "Wakiso"],
+  ["Kasangati", "Wakiso"],
+  ["Makindye Ssabagabo", "Wakiso"],
+  ["Fort Portal", "Kabarole", ["fortportal"]],
+  ["Njeru", "Buikwe"],
+  ["Lugazi", "Buikwe"],
+  ["Bombo", "Luwero"],
+  ["Wobulenzi", "Luwero"],
+  ["Ishaka", "Bushenyi"],
+  ["Kabwohe", "Sheema"],
+  ["Bwera", "Kasese"],
+  ["Paidha", "Zombo"],
+  ["Kalongo", "Agago"],
+  ["Malaba", "Tororo"],
+  ["Busembatia", "Bugweri"],
+];
+
+/** Kampala neighbourhoods, plus suburbs across the Wakiso / Mukono border. */
+const UGANDA_SUBURBS: [name: string, district: string, altNames?: string[]][] = [
+  ["Ntinda", "Kampala"],
+  ["Kololo", "Kampala"],
+  ["Nakasero", "Kampala"],
+  ["Bukoto", "Kampala"],
+  ["Kamwokya", "Kampala"],
+  ["Kisaasi", "Kampala", ["kisasi"]],
+  ["Kyanja", "Kampala"],
+  ["Kiwatule", "Kampala"],
+  ["Bugolobi", "Kampala"],
+  ["Luzira", "Kampala"],
+  ["Nakawa", "Kampala"],
+  ["Kawempe", "Kampala"],
+  ["Makindye", "Kampala"],
+  ["Lubaga", "Kampala", ["rubaga"]],
+  ["Mengo", "Kampala"],
+  ["Nsambya", "Kampala"],
+  ["Kibuli", "Kampala"],
+  ["Kabalagala", "Kampala", ["kabalaga"]],
+  ["Kansanga", "Kampala"],
+  ["Muyenga", "Kampala"],
+  ["Ggaba", "Kampala", ["gaba"]],
+  ["Munyonyo", "Kampala"],
+  ["Wandegeya", "Kampala"],
+  ["Makerere", "Kampala"],
+  ["Mulago", "Kampala"],
+  ["Kasubi", "Kampala"],
+  ["Nateete", "Kampala", ["natete"]],
+  ["Ndeeba", "Kampala"],
+  ["Bwaise", "Kampala"],
+  ["Kisenyi", "Kampala"],
+  ["Namirembe", "Kampala"],
+  ["Old Kampala", "Kampala"],
+  ["Mutungo", "Kampala"],
+  ["Mbuya", "Kampala"],
+  ["Kitintale", "Kampala"],
+  ["Nakulabye", "Kampala"],
+  ["Kabowa", "Kampala"],
+  ["Najjera", "Wakiso", ["najera"]],
+  ["Naalya", "Wakiso"],
+  ["Kireka", "Wakiso"],
+  ["Bweyogerere", "Wakiso"],
+  ["Namugongo", "Wakiso"],
+  ["Kyaliwajjala", "Wakiso"],
+  ["Kajjansi", "Wakiso", ["kajansi"]],
+  ["Seeta", "Mukono"],
+];
+
+/** Traditional kingdoms and sub-regions, which pin down the region only. */
+const UGANDA_SUBREGIONS: [name: string, region: string, altNames?: string[]][] = [
+  ["Buganda", "Central"],
+  ["Busoga", "Eastern"],
+  ["Bugisu", "Eastern", ["masaba"]],
+  ["Bukedi", "Eastern"],
+  ["Teso", "Eastern"],
+  ["Sebei", "Eastern"],
+  ["Acholi", "Northern", ["acoli"]],
+  ["Lango", "Northern"],
+  ["West Nile", "Northern"],
+  ["Karamoja", "Northern"],
+  ["Ankole", "Western", ["nkore"]],
+  ["Kigezi", "Western"],
+  ["Tooro", "Western", ["toro"]],
+  ["Bunyoro", "Western"],
+];
+
+/**
+ * Short names shared with places abroad or with surnames: "Busia, Kenya",
+ * "Malaba, Kenya", "Toro, Spain", "Kira" in Japan, "Moyo" and "Kole" as
+ * surnames, "Teso" and "Lango" elsewhere in East Africa.
+ */
+const UGANDA_AMBIGUOUS_NAMES = new Set([
+  "busia", "malaba", "kira", "moyo", "kole", "teso", "lango", "toro", "gaba",
+]);
+
+const regionOf = new Map(
+  Object.entries(UGANDA_DISTRICTS).flatMap(([region, districts]) =>
+    districts.map((d) => [d, region] as const)
+  )
+);
+
+const lower = (names?: string[]) => names?.map((n) => n.toLowerCase());
+
+function ambiguousOf(name: string, altNames?: string[]) {
+  const names = [name, ...(altNames ?? [])]
+    .map((n) => n.toLowerCase())
+    .filter((n) => UGANDA_AMBIGUOUS_NAMES.has(n));
+  return names.length > 0 ? names : undefined;
+}
+
+export const UGANDA_GAZETTEER: GazetteerEntry[] = [
+  ...[...regionOf].map(([district, region]) => ({
+    name: district.toLowerCase(),
+    kind: "district" as const,
+    district,
+    region,
+    ambiguousNames: ambiguousOf(district),
+  })),
+  ...UGANDA_TOWNS.map(([name, district, altNames]) => ({
+    name: name.toLowerCase(),
+    kind: "town" as const,
+    district,
+    region: regionOf.get(district)!,
+    altNames: lower(altNames),
+    ambiguousNames: ambiguousOf(name, altNames),
+  })),
+  ...UGANDA_SUBURBS.map(([name, district, altNames]) => ({
+    name: name.toLowerCase(),
+    kind: "suburb" as const,
+    district,
+    region: regionOf.get(district)!,
+    altNames: lower(altNames),
+    ambiguousNames: ambiguousOf(name, altNames),
+  })),
+  ...UGANDA_SUBREGIONS.map(([name, region, altNames]) => ({
+    name: name.toLowerCase(),
+    kind: "subregion" as const,
+    district: null,
+    region,
+    altNames: lower(altNames),
+    ambiguousNames: ambiguousOf(name, altNames),
+  })),
+];
@@ -1,22 +1,76 @@
 /**
- * GitHub API helpers — search users and fetch profiles.
+ * GitHub API helpers — search users, fetch profiles and enrich them with
+ * repository and activity data.
  *
- * All calls are server-side only and use the GITHUB_TOKEN env var.
+ * All calls are server-side only and authenticate through the token pool
+ * (GITHUB_TOKENS / GITHUB_TOKEN env vars, see ./tokens).
  */
 
 import { UgandaUser } from "./types/user";
+import { CountryProfile } from "./countries";
+import { ScrapeProgressEvent } from "./progress";
+import { ActivityDay, summariseActivity } from "./activity";
 import {
-  normaliseLocation,
-  computeConfidenceScore,
-  isLikelyUganda,
-} from "./normalize";
+  OrgInfo,
+  SignalWeights,
+  resolveSignalWeights,
+  scoreSignals,
+} from "./signals";
+import { ProfileCache, getProfileCache } from "./profiles";
+import {
+  RateLimitResource,
+  TokenPool,
+  TokenPoolStats,
+  getTokenPool,
+} from "./tokens";
 
 // ---------------------------------------------------------------------------
 // Helpers
 // ---------------------------------------------------------------------------
 
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+/** Sleep for `ms`, rejecting early with the abort reason if `signal` fires. */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    function onAbort() {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    }
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Run `fn` over `items` with at most `concurrency` calls in flight, stopping
+ * with the abort reason once `signal` fires.
+ */
+async function forEachLimited<T>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T) => Promise<void>,
+  signal?: AbortSignal
+): Promise<void> {
+  let idx = 0;
+  async function worker(): Promise<void> {
+    while (idx < items.length) {
+      signal?.throwIfAborted();
+      await fn(items[idx++]);
+    }
+  }
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, items.length) }, () => worker())
+  );
+}
+
+/** Per-run context threaded through every API call of a scrape. */
+interface RequestContext {
+  pool?: TokenPool;
+  signal?: AbortSignal;
+  onProgress?: (event: ScrapeProgressEvent) => void;
 }
 
 const GITHUB_API = "https://api.github.com";
@@ -24,110 +78,469 @@ const GITHUB_API = "https://api.github.com";
 /** Per-request timeout for GitHub API calls (ms). */
 const GITHUB_API_TIMEOUT_MS = 30_000;
 
-function headers(): HeadersInit {
+function headers(
+  token: string | null,
+  extra: Record<string, string> = {}
+): HeadersInit {
   const h: Record<string, string> = {
+    ...extra,
     Accept: "application/vnd.github+json",
     "User-Agent": "gitfast-uganda-scraper/1.0.0",
   };
-  const token = process.env.GITHUB_TOKEN;
   if (token) {
     h["Authorization"] = `Bearer ${token}`;
   }
   return h;
 }
 
+/** Rate-limit bucket a URL counts against. */
+function resourceFor(url: string): RateLimitResource {
+  if (url === `${GITHUB_API}/graphql`) return "graphql";
+  return url.startsWith(`${GITHUB_API}/search/`) ? "search" : "core";
+}
+
+/** Request options ghFetch passes through to fetch. */
+interface GhRequestInit {
+  method?: "GET" | "POST";
+  headers?: Record<string, string>;
+  body?: string;
+}
+
+/** GraphQL reports an exhausted rate limit as HTTP 200 with RATE_LIMITED. */
+async function isGraphqlRateLimited(res: Response): Promise<boolean> {
+  try {
+    const json = (await res.clone().json()) as { errors?: { type?: string }[] };
+    return !!json.errors?.some((e) => e.type === "RATE_LIMITED");
+  } catch {
+    return false;
+  }
+}
+
 /**
  * Make a GitHub API request with retry / rate-limit back-off.
+ *
+ * Each attempt borrows the token with the most remaining quota from
+ * `ctx.pool`; a rate-limited token is marked exhausted and the request is
+ * retried on another one. Only when every token is exhausted does it sleep
+ * until the earliest reset — those waits are reported through
+ * `ctx.onProgress`, and both the request and the wait are cut short when
+ * `ctx.signal` aborts. GraphQL RATE_LIMITED replies (HTTP 200) count as
+ * rate limits too. A 304 reply to a conditional request (If-None-Match /
+ * If-Modified-Since in `init.headers`) is returned as-is for the caller to
+ * handle.
  */
 async function ghFetch(
   url: string,
+  ctx: RequestContext = {},
+  init: GhRequestInit = {},
   maxRetries = 3
 ): Promise<Response> {
-  for (let attempt = 0; attempt <= maxRetries; attempt++) {
+  const pool = ctx.pool ?? getTokenPool();
+  const resource = resourceFor(url);
+  // Allow one extra attempt per additional token before giving up.
+  const attempts = maxRetries + pool.size - 1;
+
+  for (let attempt = 0; attempt <= attempts; attempt++) {
+    const { token, waitMs } = pool.acquire(resource);
+    if (waitMs > 0) {
+      ctx.onProgress?.({
+        type: "rateLimit",
+        waitMs,
+        resumeAt: Date.now() + waitMs,
+      });
+      await sleep(waitMs, ctx.signal);
+    }
+
+    const timeout = AbortSignal.timeout(GITHUB_API_TIMEOUT_MS);
     const res = await fetch(url, {
-      headers: headers(),
-      signal: AbortSignal.timeout(GITHUB_API_TIMEOUT_MS),
+      method: init.method ?? "GET",
+      body: init.body,
+      headers: headers(token, init.headers),
+      signal: ctx.signal ? AbortSignal.any([ctx.signal, timeout]) : timeout,
     });
+    pool.record(token, resource, res.headers);
 
-    if (res.ok) return res;
+    if (res.status === 304) return res;
 
-    const isRateLimit =
-      (res.status === 403 || res.status === 429) &&
-      (res.headers.get("x-ratelimit-remaining") === "0" ||
-        (await res.text()).toLowerCase().includes("rate limit"));
+    const isRateLimit = res.ok
+      ? resource === "graphql" && (await isGraphqlRateLimited(res))
+      : (res.status === 403 || res.status === 429) &&
+        (res.headers.get("x-ratelimit-remaining") === "0" ||
+          (await res.text()).toLowerCase().includes("rate limit"));
 
-    if (isRateLimit && attempt < maxRetries) {
+    if (res.ok && !isRateLimit) return res;
+
+    if (isRateLimit && attempt < attempts) {
       const resetAt =
         Number(res.headers.get("x-ratelimit-reset") ?? "0") * 1000;
-      const waitMs = Math.max(resetAt - Date.now() + 2000, 5000);
-      await sleep(waitMs);
+      pool.exhaust(token, resource, Math.max(resetAt, Date.now() + 5000));
       continue;
     }
 
-    throw new Error(`GitHub API ${res.status}: ${url}`);
+    throw new Error(
+      res.ok
+        ? `GitHub GraphQL rate limited: ${url}`
+        : `GitHub API ${res.status}: ${url}`
+    );
   }
   throw new Error("Exhausted retries");
 }
 
+interface GraphqlError {
+  message: string;
+  type?: string;
+}
+
+/**
+ * Read the `data` of a GraphQL reply. GitHub answers rate limits and server
+ * errors with HTTP 200, `errors` and often `data: null`, so a reply without
+ * data, or with an error whose type is not in `tolerated`, throws rather
+ * than reading as empty.
+ */
+async function readGraphqlData<T>(
+  res: Response,
+  tolerated: string[] = []
+): Promise<T> {
+  const json = (await res.json()) as {
+    data?: T | null;
+    errors?: GraphqlError[];
+  };
+  const error = json.errors?.find((e) => !tolerated.includes(e.type ?? ""));
+  if (!json.data || error) {
+    const message = (error ?? json.errors?.[0])?.message ?? "empty response";
+    throw new Error(`GitHub GraphQL: ${message}`);
+  }
+  return json.data;
+}
+
 // ---------------------------------------------------------------------------
 // Search
 // ---------------------------------------------------------------------------
 
-interface SearchItem {
+export interface SearchItem {
   login: string;
   id: number;
   avatar_url: string;
   html_url: string;
 }
 
+/** A discovered login and every query or path that found it. */
+export interface Candidate {
+  item: SearchItem;
+  sourceQueries: string[];
+}
+
+/** Pages of one search query (or other source) read so far. */
+export interface SearchProgress {
+  items: SearchItem[];
+  /** Last page read. */
+  page: number;
+  /** True once every page has been read. */
+  complete: boolean;
+}
+
 /**
  * Run a single search-users query across multiple pages and return the raw
  * search items.
+ *
+ * Pass `progress` to continue from the pages it already holds; it is updated
+ * in place and `onPage` is called after each page.
  */
 async function searchUsers(
   query: string,
   maxPages: number,
-  perPage: number
+  perPage: number,
+  ctx: RequestContext = {},
+  progress: SearchProgress = { items: [], page: 0, complete: false },
+  onPage?: () => void
 ): Promise<SearchItem[]> {
-  const items: SearchItem[] = [];
-
-  for (let page = 1; page <= maxPages; page++) {
+  for (
+    let page = progress.page + 1;
+    page <= maxPages && !progress.complete;
+    page++
+  ) {
     const url = `${GITHUB_API}/search/users?q=${encodeURIComponent(
       query
     )}&per_page=${perPage}&page=${page}`;
 
-    const res = await ghFetch(url);
+    const res = await ghFetch(url, ctx);
     const data = await res.json();
-    const pageItems: SearchItem[] = (data.items ?? []).map(
-      (item: Record<string, unknown>) => ({
-        login: item.login as string,
-        id: item.id as number,
-        avatar_url: item.avatar_url as string,
-        html_url: item.html_url as string,
-      })
-    );
+    const pageItems: SearchItem[] = (data.items ?? []).map(toSearchItem);
 
-    items.push(...pageItems);
-
-    if (
+    progress.items.push(...pageItems);
+    progress.page = page;
+    progress.complete =
       pageItems.length === 0 ||
-      items.length >= (data.total_count as number)
-    ) {
-      break;
-    }
+      progress.items.length >= (data.total_count as number);
+    onPage?.();
+    if (progress.complete) break;
 
     // Courtesy delay between pages.
-    await sleep(500);
+    await sleep(500, ctx.signal);
+  }
+
+  progress.complete = true;
+  return progress.items;
+}
+
+// ---------------------------------------------------------------------------
+// Query partitioning
+// ---------------------------------------------------------------------------
+
+/** The search API never returns more than this many results for one query. */
+export const SEARCH_RESULT_CAP = 1000;
+
+/** Earliest account creation date considered when splitting by `created:`. */
+const GITHUB_EPOCH = "2008-01-01";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Qualifier bands tried, in order, when a single-day `created:` slice is
+ * still over the cap.
+ */
+const BAND_DIMENSIONS: { qualifier: string; bands: string[] }[] = [
+  { qualifier: "followers", bands: ["0", "1..5", "6..20", "21..100", ">100"] },
+  { qualifier: "repos", bands: ["0", "1..5", "6..20", "21..50", ">50"] },
+];
+
+/** Return the `total_count` of a search-users query. */
+async function countResults(
+  query: string,
+  ctx: RequestContext
+): Promise<number> {
+  const url = `${GITHUB_API}/search/users?q=${encodeURIComponent(
+    query
+  )}&per_page=1`;
+  const res = await ghFetch(url, ctx);
+  const data = await res.json();
+  return (data.total_count as number) ?? 0;
+}
+
+function formatDay(day: number): string {
+  return new Date(day * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Split `query` by qualifier bands, skipping qualifiers the query already
+ * uses. Slices still over the cap after every dimension are kept as-is.
+ */
+async function splitByBands(
+  query: string,
+  dimensions: typeof BAND_DIMENSIONS,
+  ctx: RequestContext
+): Promise<string[]> {
+  const [dim, ...rest] = dimensions;
+  if (!dim) return [query];
+  if (query.includes(`${dim.qualifier}:`)) {
+    return splitByBands(query, rest, ctx);
   }
 
+  const slices: string[] = [];
+  for (const band of dim.bands) {
+    const slice = `${query} ${dim.qualifier}:${band}`;
+    const count = await countResults(slice, ctx);
+    if (count === 0) continue;
+    if (count <= SEARCH_RESULT_CAP) {
+      slices.push(slice);
+    } else {
+      slices.push(...(await splitByBands(slice, rest, ctx)));
+    }
+  }
+  return slices;
+}
+
+/** Recursively bisect a `created:` day range until each slice fits the cap. */
+async function splitByCreated(
+  query: string,
+  fromDay: number,
+  toDay: number,
+  ctx: RequestContext
+): Promise<string[]> {
+  const slice = `${query} created:${formatDay(fromDay)}..${formatDay(toDay)}`;
+  const count = await countResults(slice, ctx);
+  if (count === 0) return [];
+  if (count <= SEARCH_RESULT_CAP) return [slice];
+  if (fromDay === toDay) return splitByBands(slice, BAND_DIMENSIONS, ctx);
+
+  const mid = Math.floor((fromDay + toDay) / 2);
+  return [
+    ...(await splitByCreated(query, fromDay, mid, ctx)),
+    ...(await splitByCreated(query, mid + 1, toDay, ctx)),
+  ];
+}
+
+/**
+ * Split a search query into slices whose `total_count` is under the search
+ * cap — first by `created:` date ranges, then by `followers:` / `repos:`
+ * bands. Returns `[query]` unchanged when it already fits.
+ */
+export async function partitionQuery(
+  query: string,
+  ctx: RequestContext = {}
+): Promise<string[]> {
+  const total = await countResults(query, ctx);
+  if (total <= SEARCH_RESULT_CAP) return [query];
+
+  const fromDay = Math.floor(Date.parse(GITHUB_EPOCH) / DAY_MS);
+  const toDay = Math.floor(Date.now() / DAY_MS);
+  return splitByCreated(query, fromDay, toDay, ctx);
+}
+
+// ---------------------------------------------------------------------------
+// Organisation discovery
+// ---------------------------------------------------------------------------
+
+/** Most recently pushed public repos whose contributors are listed per org. */
+const MAX_ORG_REPOS = 20;
+
+/** Keep the search-item fields of a REST user object. */
+function toSearchItem(item: Record<string, unknown>): SearchItem {
+  return {
+    login: item.login as string,
+    id: item.id as number,
+    avatar_url: item.avatar_url as string,
+    html_url: item.html_url as string,
+  };
+}
+
+/**
+ * List an organisation's public members (up to `maxPages` pages of 100) and
+ * the contributors to its most recently pushed public, non-fork repos,
+ * deduplicated. Bots are skipped.
+ */
+async function discoverOrgUsers(
+  org: string,
+  maxPages: number,
+  ctx: RequestContext = {}
+): Promise<SearchItem[]> {
+  const found = new Map<string, SearchItem>();
+  const base = `${GITHUB_API}/orgs/${encodeURIComponent(org)}`;
+
+  for (let page = 1; page <= maxPages; page++) {
+    const res = await ghFetch(
+      `${base}/public_members?per_page=100&page=${page}`,
+      ctx
+    );
+    const items = (await res.json()) as Record<string, unknown>[];
+    for (const item of items) found.set(item.login as string, toSearchItem(item));
+    if (items.length < 100) break;
+  }
+
+  const res = await ghFetch(
+    `${base}/repos?type=public&sort=pushed&per_page=100`,
+    ctx
+  );
+  const repos = ((await res.json()) as Record<string, unknown>[])
+    .filter((r) => !r.fork)
+    .slice(0, MAX_ORG_REPOS);
+
+  for (const repo of repos) {
+    try {
+      const res = await ghFetch(
+        `${GITHUB_API}/repos/${repo.full_name}/contributors?per_page=100`,
+        ctx
+      );
+      // Empty repositories answer 204 with no body.
+      if (res.status === 204) continue;
+      for (const item of (await res.json()) as Record<string, unknown>[]) {
+        if (item.type !== "User" || found.has(item.login as string)) continue;
+        found.set(item.login as string, toSearchItem(item));
+      }
+    } catch (err) {
+      // GitHub refuses to list contributors of very large repos; skip them.
+      if (ctx.signal?.aborted) throw err;
+    }
+  }
+
+  return [...found.values()];
+}
+
+// ---------------------------------------------------------------------------
+// Social-graph expansion
+// ---------------------------------------------------------------------------
+
+/** Follower / following pages (100 each) listed per seed. */
+const MAX_GRAPH_PAGES = 3;
+
+type GraphEdge = "followers" | "following";
+
+/** List the users following `login` ("followers") or followed by it. */
+async function fetchGraphEdge(
+  login: string,
+  edge: GraphEdge,
+  ctx: RequestContext
+): Promise<SearchItem[]> {
+  const items: SearchItem[] = [];
+  for (let page = 1; page <= MAX_GRAPH_PAGES; page++) {
+    const res = await ghFetch(
+      `${GITHUB_API}/users/${encodeURIComponent(
+        login
+      )}/${edge}?per_page=100&page=${page}`,
+      ctx
+    );
+    const pageItems = (await res.json()) as Record<string, unknown>[];
+    items.push(...pageItems.map(toSearchItem));
+    if (pageItems.length < 100) break;
+  }
   return items;
 }
 
+/**
+ * Run one breadth-first level: list the followers and following of each
+ * seed, strongest seeds first, and return up to `budget` logins not yet in
+ * `loginMap`. Each records the paths that found it, e.g.
+ * `via:followers-of:alice`. The returned candidates are added to `loginMap`.
+ */
+async function expandFromSeeds(
+  seeds: UgandaUser[],
+  loginMap: Map<string, Candidate>,
+  budget: number,
+  concurrency: number,
+  ctx: RequestContext
+): Promise<Candidate[]> {
+  const ordered = [...seeds].sort(
+    (a, b) => b.confidenceScore - a.confidenceScore || b.followers - a.followers
+  );
+  const found = new Map<string, Candidate>();
+
+  await forEachLimited(
+    ordered,
+    concurrency,
+    async (seed) => {
+      for (const edge of ["followers", "following"] as const) {
+        if (found.size >= budget) return;
+        let items: SearchItem[];
+        try {
+          items = await fetchGraphEdge(seed.login, edge, ctx);
+        } catch (err) {
+          // A seed whose connections cannot be listed is skipped.
+          if (ctx.signal?.aborted) throw err;
+          continue;
+        }
+        const path = `via:${edge}-of:${seed.login}`;
+        for (const item of items) {
+          if (loginMap.has(item.login)) continue;
+          const existing = found.get(item.login);
+          if (existing) existing.sourceQueries.push(path);
+          else if (found.size < budget) {
+            found.set(item.login, { item, sourceQueries: [path] });
+          }
+        }
+      }
+    },
+    ctx.signal
+  );
+
+  for (const [login, candidate] of found) loginMap.set(login, candidate);
+  return [...found.values()];
+}
+
 // ---------------------------------------------------------------------------
 // User profile
 // ---------------------------------------------------------------------------
 
-interface RawProfile {
+export interface RawProfile {
   login: string;
   id: number;
   avatar_url: string;
@@ -144,94 +557,816 @@ interface RawProfile {
   public_repos: number;
   created_at: string;
   updated_at: string;
+
+  // Only filled by the GraphQL fetch mode.
+  pinned_repos?: string[];
+  contributions_last_year?: number;
+  status_message?: string | null;
+  /** Public organisations — from GraphQL, or looked up over REST when needed. */
+  orgs?: OrgInfo[];
 }
 
-async function fetchProfile(login: string): Promise<RawProfile | null> {
+/**
+ * Fetch a user's profile, going through the profile cache.
+ *
+ * Cached profiles checked within the last `refreshOlderThan` ms are returned
+ * without a request. Older ones are revalidated with a conditional request;
+ * a 304 reuses the cached profile and does not count against the rate limit.
+ */
+async function fetchProfile(
+  login: string,
+  cache: ProfileCache,
+  refreshOlderThan: number,
+  ctx: RequestContext = {}
+): Promise<RawProfile | null> {
   try {
-    const res = await ghFetch(`${GITHUB_API}/users/${encodeURIComponent(login)}`);
-    return (await res.json()) as RawProfile;
-  } catch {
+    const cached = await cache.get(login);
+    if (cached && Date.now() - cached.checkedAt < refreshOlderThan) {
+      return cached.profile;
+    }
+
+    const conditional: Record<string, string> = {};
+    if (cached?.etag) conditional["If-None-Match"] = cached.etag;
+    else if (cached?.lastModified) {
+      conditional["If-Modified-Since"] = cached.lastModified;
+    }
+
+    const res = await ghFetch(
+      `${GITHUB_API}/users/${encodeURIComponent(login)}`,
+      ctx,
+      { headers: conditional }
+    );
+
+    if (res.status === 304 && cached) {
+      await cache.set(login, { ...cached, checkedAt: Date.now() });
+      return cached.profile;
+    }
+
+    const profile = (await res.json()) as RawProfile;
+    await cache.set(login, {
+      profile,
+      etag: res.headers.get("etag"),
+      lastModified: res.headers.get("last-modified"),
+      checkedAt: Date.now(),
+    });
+    return profile;
+  } catch (err) {
+    if (ctx.signal?.aborted) throw err;
     return null;
   }
 }
 
+/** List a user's public organisation memberships over REST. */
+async function fetchOrgs(login: string, ctx: RequestContext): Promise<OrgInfo[]> {
+  const res = await ghFetch(
+    `${GITHUB_API}/users/${encodeURIComponent(login)}/orgs?per_page=100`,
+    ctx
+  );
+  const orgs = (await res.json()) as OrgInfo[];
+  return orgs.map(({ login, description }) => ({ login, description }));
+}
+
+// ---------------------------------------------------------------------------
+// GraphQL profiles
+// ---------------------------------------------------------------------------
+
+/** Logins resolved per GraphQL query. */
+export const GRAPHQL_BATCH_SIZE = 25;
+
+const GRAPHQL_USER_FIELDS = `
+fragment ProfileFields on User {
+  login
+  databaseId
+  avatarUrl
+  url
+  name
+  location
+  bio
+  company
+  websiteUrl
+  twitterUsername
+  email
+  followers { totalCount }
+  following { totalCount }
+  repositories(ownerAffiliations: OWNER, privacy: PUBLIC) { totalCount }
+  createdAt
+  updatedAt
+  status { message }
+  pinnedItems(first: 6, types: REPOSITORY) {
+    nodes { ... on Repository { nameWithOwner } }
+  }
+  contributionsCollection {
+    contributionCalendar { totalContributions }
+  }
+  organizations(first: 20) {
+    nodes { login name description }
+  }
+}`;
+
+interface GraphqlUser {
+  login: string;
+  databaseId: number;
+  avatarUrl: string;
+  url: string;
+  name: string | null;
+  location: string | null;
+  bio: string | null;
+  company: string | null;
+  websiteUrl: string | null;
+  twitterUsername: string | null;
+  email: string;
+  followers: { totalCount: number };
+  following: { totalCount: number };
+  repositories: { totalCount: number };
+  createdAt: string;
+  updatedAt: string;
+  status: { message: string | null } | null;
+  pinnedItems: { nodes: ({ nameWithOwner?: string } | null)[] };
+  contributionsCollection: {
+    contributionCalendar: { totalContributions: number };
+  };
+  organizations: { nodes: OrgInfo[] };
+}
+
+/** Build one query resolving every login through an aliased `user` field. */
+export function buildProfilesQuery(logins: string[]): string {
+  const vars = logins.map((_, i) => `$l${i}: String!`).join(", ");
+  const fields = logins
+    .map((_, i) => `  u${i}: user(login: $l${i}) { ...ProfileFields }`)
+    .join("\n");
+  return `query(${vars}) {\n${fields}\n}\n${GRAPHQL_USER_FIELDS}`;
+}
+
+/** Map a GraphQL user node onto the REST profile shape. */
+function fromGraphqlUser(u: GraphqlUser): RawProfile {
+  return {
+    login: u.login,
+    id: u.databaseId,
+    avatar_url: u.avatarUrl,
+    html_url: u.url,
+    name: u.name,
+    location: u.location,
+    bio: u.bio,
+    company: u.company,
+    blog: u.websiteUrl,
+    twitter_username: u.twitterUsername,
+    // GraphQL returns "" rather than null for hidden emails.
+    email: u.email || null,
+    followers: u.followers.totalCount,
+    following: u.following.totalCount,
+    public_repos: u.repositories.totalCount,
+    created_at: u.createdAt,
+    updated_at: u.updatedAt,
+    pinned_repos: u.pinnedItems.nodes
+      .map((n) => n?.nameWithOwner)
+      .filter((n): n is string => !!n),
+    contributions_last_year:
+      u.contributionsCollection.contributionCalendar.totalContributions,
+    status_message: u.status?.message ?? null,
+    orgs: u.organizations.nodes,
+  };
+}
+
+/**
+ * Resolve a batch of logins with a single GraphQL query.
+ *
+ * Fresh cached profiles (see fetchProfile) are reused; the rest are fetched
+ * and written back to the cache without validators. Logins GitHub cannot
+ * resolve — renamed, deleted or suspended accounts — map to null. A batch
+ * that fails after ghFetch's rate-limit retries falls back to REST, one
+ * login at a time, so one bad batch does not fail the scrape.
+ */
+async function fetchProfilesGraphql(
+  logins: string[],
+  cache: ProfileCache,
+  refreshOlderThan: number,
+  ctx: RequestContext = {}
+): Promise<Map<string, RawProfile | null>> {
+  const result = new Map<string, RawProfile | null>();
+  const stale: string[] = [];
+
+  for (const login of logins) {
+    const cached = await cache.get(login);
+    if (cached && Date.now() - cached.checkedAt < refreshOlderThan) {
+      result.set(login, cached.profile);
+    } else {
+      stale.push(login);
+    }
+  }
+  if (stale.length === 0) return result;
+
+  const variables = Object.fromEntries(stale.map((l, i) => [`l${i}`, l]));
+  let data: Record<string, GraphqlUser | null>;
+  try {
+    const res = await ghFetch(`${GITHUB_API}/graphql`, ctx, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ query: buildProfilesQuery(stale), variables }),
+    });
+    // NOT_FOUND errors accompany the null users of a batch.
+    data = await readGraphqlData(res, ["NOT_FOUND"]);
+  } catch (err) {
+    if (ctx.signal?.aborted) throw err;
+    for (const login of stale) {
+      result.set(login, await fetchProfile(login, cache, refreshOlderThan, ctx));
+    }
+    return result;
+  }
+
+  for (const [i, login] of stale.entries()) {
+    const node = data[`u${i}`];
+    const profile = node ? fromGraphqlUser(node) : null;
+    result.set(login, profile);
+    if (profile) {
+      await cache.set(login, {
+        profile,
+        etag: null,
+        lastModified: null,
+        checkedAt: Date.now(),
+      });
+    }
+  }
+  return result;
+}
+
+// ---------------------------------------------------------------------------
+// Repository enrichment
+// ---------------------------------------------------------------------------
+
+/** Owned repositories listed per user over REST (100 per page). */
+const MAX_REPO_PAGES = 3;
+
+/** Most recently pushed repos whose languages are fetched over REST. */
+const MAX_LANGUAGE_REPOS = 20;
+
+/** Languages kept in `top_languages`. */
+const TOP_LANGUAGES = 5;
+
+/** An owned, non-fork repository reduced to what enrichment needs. */
+export interface RepoInfo {
+  full_name: string;
+  stars: number;
+  forks: number;
+  pushed_at: string | null;
+  /** Bytes of code per language. */
+  languages: Record<string, number>;
+}
+
+/** Fields added to a user by the enrichment stage. */
+export type RepoSummary = Required<
+  Pick<
+    UgandaUser,
+    "top_languages" | "total_stars" | "total_forks" | "top_repo" | "last_pushed_at"
+  >
+>;
+
+/** Aggregate a user's repositories into the enrichment fields. */
+export function summariseRepos(repos: RepoInfo[]): RepoSummary {
+  const bytes = new Map<string, number>();
+  let totalStars = 0;
+  let totalForks = 0;
+  let topRepo: RepoInfo | null = null;
+  let lastPushed: string | null = null;
+
+  for (const repo of repos) {
+    totalStars += repo.stars;
+    totalForks += repo.forks;
+    if (!topRepo || repo.stars > topRepo.stars) topRepo = repo;
+    if (repo.pushed_at && (!lastPushed || repo.pushed_at > lastPushed)) {
+      lastPushed = repo.pushed_at;
+    }
+    for (const [lang, n] of Object.entries(repo.languages)) {
+      bytes.set(lang, (bytes.get(lang) ?? 0) + n);
+    }
+  }
+
+  return {
+    top_languages: [...bytes.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, TOP_LANGUAGES)
+      .map(([lang]) => lang),
+    total_stars: totalStars,
+    total_forks: totalForks,
+    top_repo: topRepo?.full_name ?? null,
+    last_pushed_at: lastPushed,
+  };
+}
+
+/** List owned, non-fork repos over REST, with languages for the most recent. */
+async function fetchReposRest(
+  login: string,
+  ctx: RequestContext
+): Promise<RepoInfo[]> {
+  const repos: RepoInfo[] = [];
+  for (let page = 1; page <= MAX_REPO_PAGES; page++) {
+    const res = await ghFetch(
+      `${GITHUB_API}/users/${encodeURIComponent(
+        login
+      )}/repos?type=owner&sort=pushed&per_page=100&page=${page}`,
+      ctx
+    );
+    const items = (await res.json()) as Record<string, unknown>[];
+    for (const r of items) {
+      if (r.fork) continue;
+      repos.push({
+        full_name: r.full_name as string,
+        stars: r.stargazers_count as number,
+        forks: r.forks_count as number,
+        pushed_at: (r.pushed_at as string | null) ?? null,
+        languages: {},
+      });
+    }
+    if (items.length < 100) break;
+  }
+
+  // Repos arrive sorted by push date, so these are the most recent ones.
+  for (const repo of repos.slice(0, MAX_LANGUAGE_REPOS)) {
+    const res = await ghFetch(`${GITHUB_API}/repos/${repo.full_name}/languages`, ctx);
+    repo.languages = (await res.json()) as Record<string, number>;
+  }
+  return repos;
+}
+
+const GRAPHQL_REPOS_QUERY = `
+query($login: String!) {
+  user(login: $login) {
+    repositories(
+      first: 100
+      isFork: false
+      ownerAffiliations: OWNER
+      orderBy: { field: PUSHED_AT, direction: DESC }
+    ) {
+      nodes {
+        nameWithOwner
+        stargazerCount
+        forkCount
+        pushedAt
+        languages(first: 10, orderBy: { field: SIZE, direction: DESC }) {
+          edges { size node { name } }
+        }
+      }
+    }
+  }
+}`;
+
+interface GraphqlRepo {
+  nameWithOwner: string;
+  stargazerCount: number;
+  forkCount: number;
+  pushedAt: string | null;
+  languages: { edges: { size: number; node: { name: string } }[] };
+}
+
+/**
+ * List owned, non-fork repos with language sizes in one GraphQL query.
+ * Throws on a GraphQL error, so the user is left unenriched rather than
+ * enriched with no repositories.
+ */
+async function fetchReposGraphql(
+  login: string,
+  ctx: RequestContext
+): Promise<RepoInfo[]> {
+  const res = await ghFetch(`${GITHUB_API}/graphql`, ctx, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ query: GRAPHQL_REPOS_QUERY, variables: { login } }),
+  });
+  const data = await readGraphqlData<{
+    user: { repositories: { nodes: GraphqlRepo[] } } | null;
+  }>(res);
+  return (data.user?.repositories.nodes ?? []).map((r) => ({
+    full_name: r.nameWithOwner,
+    stars: r.stargazerCount,
+    forks: r.forkCount,
+    pushed_at: r.pushedAt,
+    languages: Object.fromEntries(
+      r.languages.edges.map((e) => [e.node.name, e.size])
+    ),
+  }));
+}
+
+// ---------------------------------------------------------------------------
+// Activity
+// ---------------------------------------------------------------------------
+
+/** Public events listed per user over REST (GitHub serves at most 3 pages). */
+const MAX_EVENT_PAGES = 3;
+
+/**
+ * Read a user's recent public events. GitHub only returns events from the
+ * last 90 days, so the 365-day total over REST equals the 90-day one.
+ * A push counts once per commit, every other event once.
+ */
+async function fetchActivityRest(
+  login: string,
+  ctx: RequestContext
+): Promise<ActivityDay[]> {
+  const days: ActivityDay[] = [];
+  for (let page = 1; page <= MAX_EVENT_PAGES; page++) {
+    const res = await ghFetch(
+      `${GITHUB_API}/users/${encodeURIComponent(
+        login
+      )}/events/public?per_page=100&page=${page}`,
+      ctx
+    );
+    const events = (await res.json()) as {
+      type: string;
+      created_at: string;
+      payload?: { size?: number };
+    }[];
+    for (const e of events) {
+      const commits = e.type === "PushEvent" ? e.payload?.size : undefined;
+      days.push({ date: e.created_at, count: commits ?? 1 });
+    }
+    if (events.length < 100) break;
+  }
+  return days;
+}
+
+const GRAPHQL_ACTIVITY_QUERY = `
+query($login: String!) {
+  user(login: $login) {
+    contributionsCollection {
+      contributionCalendar {
+        weeks { contributionDays { date contributionCount } }
+      }
+    }
+  }
+}`;
+
+/**
+ * Read a user's contribution calendar for the last year in one query.
+ * Throws on a GraphQL error, so the user is kept unscored rather than
+ * scored as dormant.
+ */
+async function fetchActivityGraphql(
+  login: string,
+  ctx: RequestContext
+): Promise<ActivityDay[]> {
+  const res = await ghFetch(`${GITHUB_API}/graphql`, ctx, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ query: GRAPHQL_ACTIVITY_QUERY, variables: { login } }),
+  });
+  const data = await readGraphqlData<{
+    user: {
+      contributionsCollection: {
+        contributionCalendar: {
+          weeks: {
+            contributionDays: { date: string; contributionCount: number }[];
+          }[];
+        };
+      };
+    } | null;
+  }>(res);
+  const weeks =
+    data.user?.contributionsCollection.contributionCalendar.weeks ?? [];
+  return weeks.flatMap((w) =>
+    w.contributionDays.map((d) => ({ date: d.date, count: d.contributionCount }))
+  );
+}
+
 // ---------------------------------------------------------------------------
 // Orchestrator
 // ---------------------------------------------------------------------------
 
+/**
+ * What a scrape has done so far, enough to resume it without repeating
+ * search calls or profile fetches. Activity and repository enrichment run
+ * after the last checkpoint and are redone on resume.
+ */
+export interface ScrapeCheckpoint {
+  /** Slices of each location query, once partitioned (see partitionQuery). */
+  slices: Record<string, string[]>;
+  /** Pages read per search slice; organisations are keyed `org:<name>`. */
+  searches: Record<string, SearchProgress>;
+  /** Fetched profiles by login; null when the profile could not be fetched. */
+  profiles: Record<string, RawProfile | null>;
+  /** Logins found by each completed expansion level. */
+  expansion: Candidate[][];
+}
+
+export function emptyCheckpoint(): ScrapeCheckpoint {
+  return { slices: {}, searches: {}, profiles: {}, expansion: [] };
+}
+
 export interface ScrapeOptions {
+  country: CountryProfile;
   locations: string[];
+  /**
+   * Organisations whose public members and repo contributors are added to
+   * the candidates, with source query `org:<name>`. Scored and filtered like
+   * search results; `minRepos` / `minFollowers` are applied to their
+   * profiles. Default: none.
+   */
+  orgs?: string[];
   minRepos: number;
   minFollowers: number;
   maxPagesPerQuery: number;
   perPage: number;
   concurrency: number;
   minScore: number;
+  /**
+   * Split queries over the search cap into slices (see partitionQuery) and
+   * fetch every page of each slice, ignoring `maxPagesPerQuery`.
+   */
+  partition?: boolean;
+  /**
+   * Reuse cached profiles checked within this many ms without any request;
+   * older ones are revalidated with a conditional request. Default: 0.
+   */
+  refreshOlderThan?: number;
+  /** Profile cache to read and update. Default: getProfileCache(). */
+  profileCache?: ProfileCache;
+  /** Tokens to spread requests across. Default: getTokenPool(). */
+  tokenPool?: TokenPool;
+  /**
+   * "rest" fetches one profile per request; "graphql" resolves profiles in
+   * batches of GRAPHQL_BATCH_SIZE and adds pinned repos, contribution counts
+   * and status message. GraphQL requires a token. Default: "rest".
+   */
+  fetchMode?: FetchMode;
+  /**
+   * After filtering, fetch each kept user's owned, non-fork repositories and
+   * add top languages, stars, forks, most-starred repo and last push date.
+   * Uses the same transport as `fetchMode`. Default: false.
+   */
+  enrichRepos?: boolean;
+  /**
+   * After filtering, score each kept user's recent activity (see
+   * ./activity) and add activityScore, lastActiveAt and 30/90/365-day
+   * contribution counts. Uses public events over REST and the contribution
+   * calendar over GraphQL. Default: false, or true when `minActivity` > 0.
+   */
+  activity?: boolean;
+  /**
+   * Drop users whose activityScore is below this. Users whose activity could
+   * not be read are kept. Default: 0.
+   */
+  minActivity?: number;
+  /**
+   * Weight of each detection signal in confidenceScore (see ./signals).
+   * Missing weights use DEFAULT_SIGNAL_WEIGHTS; set `org` to 0 to skip the
+   * organisation lookups REST mode makes for low-scoring users.
+   */
+  signalWeights?: Partial<SignalWeights>;
+  /**
+   * Levels of social-graph expansion: after scoring, list the followers and
+   * following of users scoring at least `minSeedScore`, then profile and
+   * score the new logins; kept users seed the next level. Their
+   * sourceQueries record the path, e.g. `via:followers-of:alice`.
+   * Default: 0 (off).
+   */
+  expandDepth?: number;
+  /** New logins profiled per expansion level. Default: 100. */
+  expandBudget?: number;
+  /** Minimum confidenceScore for a user to seed expansion. Default: 85. */
+  minSeedScore?: number;
+  /**
+   * Checkpoint of an interrupted run with the same options to resume from.
+   * It is updated in place as the run progresses. Default: a new one.
+   */
+  checkpoint?: ScrapeCheckpoint;
+  /**
+   * Called whenever the checkpoint changes: after each search page,
+   * organisation, profile batch, organisation lookup and expansion level.
+   */
+  onCheckpoint?: (checkpoint: ScrapeCheckpoint) => void;
+  /** Aborts the run; scrapeUsers then rejects with the abort reason. */
+  signal?: AbortSignal;
+  /** Called as the run moves through phases, queries and profiles. */
+  onProgress?: (event: ScrapeProgressEvent) => void;
+}
+
+export type FetchMode = "rest" | "graphql";
+
+export interface ScrapeResult {
+  users: UgandaUser[];
+  totalCandidates: number;
+  uniqueUsers: number;
+  /** Logins whose profile could not be fetched (missing, suspended, errors). */
+  missingLogins: string[];
+  /** Token pool usage during this run. */
+  tokenPool: TokenPoolStats;
 }
 
 /**
  * Run the full scrape pipeline and return deduplicated, scored users.
  */
-export async function scrapeUsers(
-  opts: ScrapeOptions
-): Promise<{ users: UgandaUser[]; totalCandidates: number; uniqueUsers: number }> {
+export async function scrapeUsers(opts: ScrapeOptions): Promise<ScrapeResult> {
   const {
+    country,
     locations,
+    orgs = [],
     minRepos,
     minFollowers,
     maxPagesPerQuery,
     perPage,
     concurrency,
     minScore,
+    partition = false,
+    refreshOlderThan = 0,
+    profileCache = getProfileCache(),
+    tokenPool = getTokenPool(),
+    fetchMode = "rest",
+    enrichRepos = false,
+    minActivity = 0,
+    activity = minActivity > 0,
+    signalWeights,
+    expandDepth = 0,
+    expandBudget = 100,
+    minSeedScore = 85,
+    checkpoint = emptyCheckpoint(),
+    onCheckpoint,
+    signal,
+    onProgress,
   } = opts;
+  const ctx: RequestContext = { pool: tokenPool, signal, onProgress };
+  const poolAtStart = tokenPool.stats();
+  const saveCheckpoint = () => onCheckpoint?.(checkpoint);
 
-  // 1. Build queries and collect logins
-  const loginMap = new Map<
-    string,
-    { item: SearchItem; sourceQueries: string[] }
-  >();
+  // 1. Collect logins from location searches and organisations. Completed
+  //    searches are replayed from the checkpoint.
+  const loginMap = new Map<string, Candidate>();
   let totalCandidates = 0;
 
-  for (const loc of locations) {
-    let q = `location:"${loc}"`;
-    if (minRepos > 0) q += ` repos:>${minRepos}`;
-    if (minFollowers > 0) q += ` followers:>${minFollowers}`;
-
-    const items = await searchUsers(q, maxPagesPerQuery, perPage);
+  function collect(items: SearchItem[], source: string): void {
     totalCandidates += items.length;
-
+    onProgress?.({ type: "query", query: source, count: items.length });
     for (const item of items) {
       const existing = loginMap.get(item.login);
       if (existing) {
-        existing.sourceQueries.push(q);
+        existing.sourceQueries.push(source);
       } else {
-        loginMap.set(item.login, { item, sourceQueries: [q] });
+        loginMap.set(item.login, { item, sourceQueries: [source] });
       }
     }
+  }
+
+  onProgress?.({ type: "phase", phase: "search" });
+
+  for (const loc of locations) {
+    let q = `location:"${loc}"`;
+    if (minRepos > 0) q += ` repos:>${minRepos}`;
+    if (minFollowers > 0) q += ` followers:>${minFollowers}`;
+
+    let slices = checkpoint.slices[q];
+    if (!slices) {
+      slices = partition ? await partitionQuery(q, ctx) : [q];
+      checkpoint.slices[q] = slices;
+      saveCheckpoint();
+    }
+    const pagesPerSlice = partition
+      ? Math.ceil(SEARCH_RESULT_CAP / perPage)
+      : maxPagesPerQuery;
+
+    let searched = false;
+    for (const slice of slices) {
+      const progress = (checkpoint.searches[slice] ??= {
+        items: [],
+        page: 0,
+        complete: false,
+      });
+      if (!progress.complete) searched = true;
+      const items = await searchUsers(
+        slice,
+        pagesPerSlice,
+        perPage,
+        ctx,
+        progress,
+        saveCheckpoint
+      );
+      collect(items, slice);
+    }
 
     // Courtesy delay between distinct queries.
-    await sleep(1000);
+    if (searched) await sleep(1000, signal);
   }
 
-  const uniqueUsers = loginMap.size;
+  for (const org of orgs) {
+    const source = `org:${org}`;
+    if (!checkpoint.searches[source]) {
+      checkpoint.searches[source] = {
+        items: await discoverOrgUsers(org, maxPagesPerQuery, ctx),
+        page: 0,
+        complete: true,
+      };
+      saveCheckpoint();
+    }
+    collect(checkpoint.searches[source].items, source);
+  }
 
-  // 2. Fetch full profiles with bounded concurrency
-  const entries = [...loginMap.values()];
-  const users: UgandaUser[] = [];
+  // 2. Fetch full profiles with bounded concurrency — one login per task
+  //    over REST, one batch per task over GraphQL — except those already in
+  //    the checkpoint. Expansion levels reuse this, so the profile counts in
+  //    progress events are cumulative.
+  const missingLogins: string[] = [];
+  let profilesFetched = 0;
+  let profilesTotal = 0;
 
-  // Simple concurrency limiter
-  let idx = 0;
-  async function worker(): Promise<void> {
-    while (idx < entries.length) {
-      const i = idx++;
-      const { item, sourceQueries } = entries[i];
-      const profile = await fetchProfile(item.login);
-      if (!profile) continue;
+  async function fetchBatch(
+    batch: string[]
+  ): Promise<Map<string, RawProfile | null>> {
+    if (fetchMode === "graphql") {
+      return fetchProfilesGraphql(batch, profileCache, refreshOlderThan, ctx);
+    }
+    const [login] = batch;
+    const profile = await fetchProfile(login, profileCache, refreshOlderThan, ctx);
+    return new Map([[login, profile]]);
+  }
 
-      const normLoc = normaliseLocation(profile.location);
-      const score = computeConfidenceScore(normLoc);
+  async function fetchProfiles(
+    logins: string[]
+  ): Promise<Map<string, RawProfile>> {
+    const profiles = new Map<string, RawProfile>();
+    const pending: string[] = [];
+    for (const login of logins) {
+      if (!Object.prototype.hasOwnProperty.call(checkpoint.profiles, login)) {
+        pending.push(login);
+        continue;
+      }
+      const profile = checkpoint.profiles[login];
+      if (profile) profiles.set(login, profile);
+      else missingLogins.push(login);
+    }
 
-      if (score < minScore) continue;
+    const batchSize = fetchMode === "graphql" ? GRAPHQL_BATCH_SIZE : 1;
+    const batches: string[][] = [];
+    for (let i = 0; i < pending.length; i += batchSize) {
+      batches.push(pending.slice(i, i + batchSize));
+    }
+
+    profilesTotal += logins.length;
+    profilesFetched += logins.length - pending.length;
+    onProgress?.({ type: "profiles", fetched: profilesFetched, total: profilesTotal });
+    await forEachLimited(
+      batches,
+      concurrency,
+      async (batch) => {
+        const found = await fetchBatch(batch);
+        for (const login of batch) {
+          const profile = found.get(login);
+          if (profile) profiles.set(login, profile);
+          else missingLogins.push(login);
+          checkpoint.profiles[login] = profile ?? null;
+        }
+        saveCheckpoint();
+        profilesFetched += batch.length;
+        onProgress?.({
+          type: "profiles",
+          fetched: profilesFetched,
+          total: profilesTotal,
+        });
+      },
+      signal
+    );
+    return profiles;
+  }
+
+  // 3. Score every signal and filter. Over REST, organisations cost one
+  //    request per user, so they are only looked up for users the other
+  //    signals leave below minScore.
+  const weights = resolveSignalWeights(signalWeights);
+
+  async function scoreCandidates(
+    candidates: Candidate[],
+    profiles: Map<string, RawProfile>
+  ): Promise<UgandaUser[]> {
+    const scored = candidates.flatMap(({ item, sourceQueries }) => {
+      const profile = profiles.get(item.login);
+      if (!profile) return [];
+      // Search applies these as qualifiers; other sources are checked here.
+      if (minRepos > 0 && profile.public_repos <= minRepos) return [];
+      if (minFollowers > 0 && profile.followers <= minFollowers) return [];
+      const result = scoreSignals(profile, country, weights);
+      return [{ profile, sourceQueries, result }];
+    });
+
+    if (weights.org > 0 && fetchMode === "rest") {
+      const pending = scored.filter(
+        (s) => !s.profile.orgs && s.result.confidenceScore < minScore
+      );
+      await forEachLimited(
+        pending,
+        concurrency,
+        async (s) => {
+          try {
+            s.profile = { ...s.profile, orgs: await fetchOrgs(s.profile.login, ctx) };
+            s.result = scoreSignals(s.profile, country, weights);
+            checkpoint.profiles[s.profile.login] = s.profile;
+            saveCheckpoint();
+          } catch (err) {
+            // Without its organisations a user is scored on the other signals.
+            if (signal?.aborted) throw err;
+          }
+        },
+        signal
+      );
+    }
+
+    const users: UgandaUser[] = [];
+    for (const { profile, sourceQueries, result } of scored) {
+      if (result.confidenceScore < minScore) continue;
 
       users.push({
         login: profile.login,
@@ -250,22 +1385,131 @@ export async function scrapeUsers(
         public_repos: profile.public_repos,
         created_at: profile.created_at,
         updated_at: profile.updated_at,
-        confidenceScore: score,
-        isLikelyUganda: isLikelyUganda(normLoc),
+        pinned_repos: profile.pinned_repos,
+        contributions_last_year: profile.contributions_last_year,
+        status_message: profile.status_message,
+        country: country.id,
+        confidenceScore: result.confidenceScore,
+        locationMatch: result.locationMatch,
+        signalScores: result.signalScores,
+        isLikelyUganda: result.isLikely,
+        scoreReasons: result.reasons,
         sourceQueries,
       });
     }
+    return users;
   }
 
-  const workers = Array.from({ length: Math.min(concurrency, entries.length) }, () =>
-    worker()
+  onProgress?.({ type: "phase", phase: "profile" });
+  const entries = [...loginMap.values()];
+  const users = await scoreCandidates(
+    entries,
+    await fetchProfiles(entries.map((e) => e.item.login))
   );
-  await Promise.all(workers);
 
-  // 3. Sort by confidence score desc, then followers desc
+  // 3b. Optionally expand breadth-first over the followers and following of
+  //     high-confidence users. Each level profiles at most expandBudget new
+  //     logins, and the users it keeps seed the next level.
+  if (expandDepth > 0) {
+    onProgress?.({ type: "phase", phase: "expand" });
+    let seeds = users.filter((u) => u.confidenceScore >= minSeedScore);
+
+    for (let level = 1; level <= expandDepth && seeds.length > 0; level++) {
+      onProgress?.({ type: "expand", level, depth: expandDepth, discovered: 0 });
+      let found = checkpoint.expansion[level - 1];
+      if (found) {
+        for (const c of found) loginMap.set(c.item.login, c);
+      } else {
+        found = await expandFromSeeds(
+          seeds,
+          loginMap,
+          expandBudget,
+          concurrency,
+          ctx
+        );
+        checkpoint.expansion[level - 1] = found;
+        saveCheckpoint();
+      }
+      onProgress?.({
+        type: "expand",
+        level,
+        depth: expandDepth,
+        discovered: found.length,
+      });
+      totalCandidates += found.length;
+
+      const kept = await scoreCandidates(
+        found,
+        await fetchProfiles(found.map((c) => c.item.login))
+      );
+      users.push(...kept);
+      seeds = kept.filter((u) => u.confidenceScore >= minSeedScore);
+    }
+  }
+
+  // 4. Optionally score activity and drop dormant users
+  if (activity) {
+    onProgress?.({ type: "phase", phase: "activity" });
+    onProgress?.({ type: "activity", done: 0, total: users.length });
+    const fetchActivity =
+      fetchMode === "graphql" ? fetchActivityGraphql : fetchActivityRest;
+    const dormant = new Set<UgandaUser>();
+    let done = 0;
+    await forEachLimited(
+      users,
+      concurrency,
+      async (user) => {
+        try {
+          const summary = summariseActivity(await fetchActivity(user.login, ctx));
+          Object.assign(user, summary);
+          if (summary.activityScore < minActivity) dormant.add(user);
+        } catch (err) {
+          // A user whose activity cannot be read is kept unscored.
+          if (signal?.aborted) throw err;
+        }
+        done++;
+        onProgress?.({ type: "activity", done, total: users.length });
+      },
+      signal
+    );
+    if (dormant.size > 0) {
+      users.splice(0, users.length, ...users.filter((u) => !dormant.has(u)));
+    }
+  }
+
+  // 5. Optionally enrich kept users with repository stats
+  if (enrichRepos) {
+    onProgress?.({ type: "phase", phase: "enrich" });
+    onProgress?.({ type: "enrich", done: 0, total: users.length });
+    const fetchRepos = fetchMode === "graphql" ? fetchReposGraphql : fetchReposRest;
+    let done = 0;
+    await forEachLimited(
+      users,
+      concurrency,
+      async (user) => {
+        try {
+          Object.assign(user, summariseRepos(await fetchRepos(user.login, ctx)));
+        } catch (err) {
+          // A user whose repos cannot be listed is kept without enrichment.
+          if (signal?.aborted) throw err;
+        }
+        done++;
+        onProgress?.({ type: "enrich", done, total: users.length });
+      },
+      signal
+    );
+  }
+
+  // 6. Sort by confidence score desc, then followers desc
   users.sort(
     (a, b) => b.confidenceScore - a.confidenceScore || b.followers - a.followers
   );
 
-  return { users, totalCandidates, uniqueUsers };
+  return {
+    users,
+    totalCandidates,
+    uniqueUsers: loginMap.size,
+    missingLogins,
+    tokenPool: tokenPool.stats(poolAtStart),
+  };
 }
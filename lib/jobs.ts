@@ -0,0 +1,227 @@
+/**
+ * In-memory registry of background scrape jobs.
+ *
+ * A job runs scrapeUsers without blocking the request that started it and
+ * records every progress event so SSE subscribers that connect late still
+ * see the full history. The job id doubles as the runId under which the
+ * finished run is saved to the run store. While it runs, its checkpoint is
+ * saved to the run store too, so a job that fails, is cancelled or dies with
+ * the process can be resumed (see resumeJob). Completed and failed runs are
+ * announced to webhook subscribers (see ./webhooks) in the background.
+ * Finished jobs are evicted from this registry after a TTL (default: 30
+ * minutes).
+ */
+
+import { scrapeUsers, ScrapeOptions } from "./github";
+import {
+  StoredCheckpoint,
+  buildStoredRun,
+  createCheckpointWriter,
+  createRunId,
+  getRunStore,
+} from "./runs";
+import {
+  ScrapeProgress,
+  ScrapeProgressEvent,
+  applyProgressEvent,
+  emptyProgress,
+} from "./progress";
+import { loadCountryProfile } from "./rules";
+import { notifyRunCompleted, notifyRunFailed } from "./webhooks";
+import { ScrapeRequest, ScrapeResponse } from "./types/user";
+
+export type JobStatus = "running" | "completed" | "failed" | "cancelled";
+
+/** Events streamed to subscribers: progress, then exactly one terminal event. */
+export type JobEvent =
+  | ScrapeProgressEvent
+  | { type: "completed"; result: ScrapeResponse }
+  | { type: "failed"; error: string }
+  | { type: "cancelled" };
+
+export interface ScrapeJob {
+  id: string;
+  status: JobStatus;
+  createdAt: number;
+  finishedAt: number | null;
+  progress: ScrapeProgress;
+  events: JobEvent[];
+}
+
+interface JobEntry {
+  job: ScrapeJob;
+  controller: AbortController;
+  listeners: Set<(event: JobEvent) => void>;
+}
+
+const TTL_MS = 30 * 60 * 1000; // 30 minutes
+
+const jobs = new Map<string, JobEntry>();
+
+/**
+ * Deliveries log their own failures; this only sees errors before sending,
+ * such as an unreadable subscriptions file.
+ */
+function reportNotifyError(err: unknown): void {
+  console.error("Webhook notification failed:", err);
+}
+
+function emit(entry: JobEntry, event: JobEvent): void {
+  const { job } = entry;
+  job.events.push(event);
+  switch (event.type) {
+    case "completed":
+    case "failed":
+    case "cancelled":
+      job.status = event.type;
+      job.finishedAt = Date.now();
+      break;
+    default:
+      job.progress = applyProgressEvent(job.progress, event);
+  }
+  for (const listener of entry.listeners) listener(event);
+  if (job.status !== "running") entry.listeners.clear();
+}
+
+/**
+ * Start a scrape job in the background and return it immediately.
+ *
+ * `request` is the validated request behind `opts`; it is saved with the run.
+ * With `resumeFrom`, the job continues that run under the same id.
+ */
+export function startJob(
+  opts: ScrapeOptions,
+  request: ScrapeRequest,
+  resumeFrom?: StoredCheckpoint
+): ScrapeJob {
+  const id = resumeFrom?.runId ?? createRunId();
+  const entry: JobEntry = {
+    job: {
+      id,
+      status: "running",
+      createdAt: Date.now(),
+      finishedAt: null,
+      progress: emptyProgress(),
+      events: [],
+    },
+    controller: new AbortController(),
+    listeners: new Set(),
+  };
+  jobs.set(id, entry);
+
+  const createdAt =
+    resumeFrom?.createdAt ?? new Date(entry.job.createdAt).toISOString();
+  const checkpoints = createCheckpointWriter(getRunStore(), {
+    runId: id,
+    request,
+    createdAt,
+  });
+
+  scrapeUsers({
+    ...opts,
+    checkpoint: resumeFrom?.state,
+    onCheckpoint: checkpoints.update,
+    signal: entry.controller.signal,
+    onProgress: (event) => emit(entry, event),
+  })
+    .then(async (result) => {
+      const run = buildStoredRun(id, request, result, new Date(createdAt));
+      const store = getRunStore();
+      await store.save(run);
+      // The run is saved; a checkpoint left behind must not fail the job.
+      await checkpoints.clear().catch((err) => {
+        console.error("Checkpoint cleanup failed:", err);
+      });
+      notifyRunCompleted(store, run).catch(reportNotifyError);
+      emit(entry, {
+        type: "completed",
+        result: {
+          runId: id,
+          country: opts.country.id,
+          stats: run.stats,
+          users: run.users,
+        },
+      });
+    })
+    .catch(async (err) => {
+      await checkpoints.flush();
+      if (entry.controller.signal.aborted) {
+        emit(entry, { type: "cancelled" });
+      } else {
+        const message = err instanceof Error ? err.message : "Unknown error";
+        emit(entry, { type: "failed", error: message });
+        notifyRunFailed(
+          getRunStore(),
+          { runId: id, request, createdAt },
+          message
+        ).catch(reportNotifyError);
+      }
+    });
+
+  return entry.job;
+}
+
+/**
+ * Resume an interrupted run from its checkpoint in the run store. Returns
+ * null when the run has no checkpoint, and throws when its job is still
+ * running or its country no longer exists.
+ */
+export async function resumeJob(runId: string): Promise<ScrapeJob | null> {
+  if (jobs.get(runId)?.job.status === "running") {
+    throw new Error(`Run ${runId} is still running`);
+  }
+  const checkpoint = await getRunStore().getCheckpoint(runId);
+  if (!checkpoint) return null;
+
+  const country = await loadCountryProfile(checkpoint.request.country);
+  if (!country) {
+    throw new Error(`Unknown country: ${checkpoint.request.country}`);
+  }
+  const { request } = checkpoint;
+  return startJob({ ...request, country }, request, checkpoint);
+}
+
+export function getJob(id: string): ScrapeJob | null {
+  return jobs.get(id)?.job ?? null;
+}
+
+/**
+ * Request cancellation of a running job. Returns false when the job does not
+ * exist or has already finished.
+ */
+export function cancelJob(id: string): boolean {
+  const entry = jobs.get(id);
+  if (!entry || entry.job.status !== "running") return false;
+  entry.controller.abort();
+  return true;
+}
+
+/**
+ * Subscribe to a job's future events. Returns an unsubscribe function, or
+ * null when the job does not exist.
+ */
+export function subscribeJob(
+  id: string,
+  listener: (event: JobEvent) => void
+): (() => void) | null {
+  const entry = jobs.get(id);
+  if (!entry) return null;
+  entry.listeners.add(listener);
+  return () => entry.listeners.delete(listener);
+}
+
+/** Periodically evict finished jobs past their TTL (called internally). */
+function evict(): void {
+  const now = Date.now();
+  for (const [key, entry] of jobs) {
+    const { finishedAt } = entry.job;
+    if (finishedAt !== null && now - finishedAt > TTL_MS) {
+      jobs.delete(key);
+    }
+  }
+}
+
+// Run eviction every 5 minutes.
+if (typeof setInterval !== "undefined") {
+  setInterval(evict, 5 * 60 * 1000).unref?.();
+}
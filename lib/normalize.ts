@@ -1,33 +1,33 @@
 /**
- * Location normalizer and confidence scoring for Uganda-related GitHub
- * profile locations.
+ * Location normalizer and confidence scoring for GitHub profile locations.
+ *
+ * Every function takes an optional CountryProfile (see ./countries) and
+ * defaults to Uganda, with the learned rules (see ./rules) the process has
+ * loaded. Profiles with a gazetteer (see ./gazetteer) also
+ * resolve the district and region, and tolerate misspellings.
  */
 
+import { CountryProfile, COUNTRY_PROFILES, DEFAULT_COUNTRY } from "./countries";
+import { GazetteerEntry, PlaceKind } from "./gazetteer";
+
+/** Profiles with learned rules merged in (see ./rules), by country id. */
+const activeProfiles = new Map<string, CountryProfile>();
+
+/**
+ * Make `profile` the default for its country in the helpers below. ./rules
+ * calls this whenever it loads or saves learned rules.
+ */
+export function setActiveProfile(profile: CountryProfile): void {
+  activeProfiles.set(profile.id, profile);
+}
+
+/** A country's profile with its learned rules, once loaded, else built-in. */
+export function getActiveProfile(id: string = DEFAULT_COUNTRY): CountryProfile {
+  return activeProfiles.get(id) ?? COUNTRY_PROFILES[id];
+}
+
 /** Known Ugandan city / region names (lowercase). */
-export const UGANDA_CITIES: string[] = [
-  "kampala",
-  "entebbe",
-  "jinja",
-  "mbarara",
-  "gulu",
-  "mbale",
-  "mukono",
-  "wakiso",
-  "lira",
-  "kasese",
-  "fort portal",
-  "arua",
-  "soroti",
-  "kabale",
-  "masaka",
-];
-
-/** Aliases for common shorthand location strings. */
-const LOCATION_ALIASES: Record<string, string> = {
-  "kampala ug": "kampala, uganda",
-  "kampala, ug": "kampala, uganda",
-  ug: "uganda",
-};
+export const UGANDA_CITIES: string[] = COUNTRY_PROFILES.uganda.cities;
 
 /** Escape special regex characters in a literal string. */
 function escapeRegex(str: string): string {
@@ -42,9 +42,12 @@ function escapeRegex(str: string): string {
  *   2. Strip emoji / non-ASCII symbols that users sometimes add.
  *   3. Collapse internal runs of whitespace to a single space.
  *   4. Lowercase the result.
- *   5. Apply known aliases (exact full-string matches).
+ *   5. Apply the profile's known aliases (exact full-string matches).
  */
-export function normaliseLocation(raw: string | null | undefined): string {
+export function normaliseLocation(
+  raw: string | null | undefined,
+  profile: CountryProfile = getActiveProfile()
+): string {
   if (!raw) return "";
 
   let loc = raw
@@ -54,75 +57,466 @@ export function normaliseLocation(raw: string | null | undefined): string {
     .trim()
     .toLowerCase();
 
-  if (Object.prototype.hasOwnProperty.call(LOCATION_ALIASES, loc)) {
-    loc = LOCATION_ALIASES[loc];
+  if (Object.prototype.hasOwnProperty.call(profile.aliases, loc)) {
+    loc = profile.aliases[loc];
   }
 
   return loc;
 }
 
+// ---------------------------------------------------------------------------
+// Location matching
+// ---------------------------------------------------------------------------
+
+/**
+ * How the best-scoring term matched: verbatim, within a small edit distance,
+ * or as a country abbreviation ("ug", "u.g.").
+ */
+export type MatchType = "exact" | "fuzzy" | "abbreviation" | "none";
+
+export interface LocationMatch {
+  /** Most specific district resolved from the location, if any. */
+  district: string | null;
+  region: string | null;
+  /** Term of the best-scoring match, as written in the profile / gazetteer. */
+  matchedTerm: string | null;
+  matchType: MatchType;
+  /** Country confidence, 0 – 100 (see matchLocation). */
+  score: number;
+}
+
+const NO_MATCH: LocationMatch = {
+  district: null,
+  region: null,
+  matchedTerm: null,
+  matchType: "none",
+  score: 0,
+};
+
+/** Rule behind one scoring signal; "falsePositive" is a veto. */
+export type ScoreRule =
+  | "country"
+  | "primaryCity"
+  | PlaceKind
+  | "city"
+  | "abbreviation"
+  | "domain"
+  | "org"
+  | "falsePositive";
+
+/** One signal that contributed to (or vetoed) a location's score. */
+export interface ScoreReason {
+  rule: ScoreRule;
+  /** Profile or gazetteer term that matched, or the marker that vetoed. */
+  term: string;
+  /** Location text that matched — differs from `term` for fuzzy matches. */
+  matchedText: string;
+  fuzzy: boolean;
+  /** Score this signal alone earns; 0 for a veto. */
+  score: number;
+}
+
+export interface LocationExplanation {
+  match: LocationMatch;
+  /** Same as isLikelyInCountry: matched, and not vetoed by a marker. */
+  isLikely: boolean;
+  /** Every signal found, highest score first, followed by any vetoes. */
+  reasons: ScoreReason[];
+}
+
+/** Score for an exact match of each rule. */
+const RULE_SCORES: Record<
+  Exclude<ScoreRule, "domain" | "org" | "falsePositive">,
+  number
+> = {
+  country: 100,
+  primaryCity: 85,
+  suburb: 80,
+  district: 75,
+  town: 75,
+  city: 75,
+  subregion: 60,
+  abbreviation: 50,
+};
+
+/** Subtracted from a term's score when it only matched fuzzily. */
+const FUZZY_PENALTY = 10;
+
+/**
+ * Most an ambiguous gazetteer name scores on its own — below the default
+ * minScore of 50, so "Busia, Kenya" or "Toro, Spain" is not accepted.
+ */
+const AMBIGUOUS_SCORE = 40;
+
+/** Preference when several places match: the most specific one resolves. */
+const SPECIFICITY: Record<PlaceKind, number> = {
+  suburb: 3,
+  town: 2,
+  district: 2,
+  subregion: 1,
+};
+
+interface Term {
+  /** Space-joined tokens, as produced by tokenize. */
+  text: string;
+  words: number;
+  rule: Exclude<ScoreRule, "abbreviation" | "domain" | "org" | "falsePositive">;
+  /** Edits tolerated for a fuzzy match (0 disables fuzzy matching). */
+  maxEdits: number;
+  entry: GazetteerEntry | null;
+  /** One of the entry's ambiguousNames. */
+  ambiguous: boolean;
+}
+
+function tokenize(text: string): string[] {
+  return text.split(/[^\p{L}]+/u).filter(Boolean);
+}
+
 /**
- * Compute a Uganda confidence score (0 – 100) for a normalised location.
+ * Short names are only matched exactly — "jinja" is one edit from "ninja",
+ * "gomba" one from "goma".
+ */
+function maxEditsFor(text: string): number {
+  if (text.length >= 9) return 2;
+  if (text.length >= 6) return 1;
+  return 0;
+}
+
+function makeTerm(
+  name: string,
+  rule: Term["rule"],
+  entry: GazetteerEntry | null
+): Term {
+  const tokens = tokenize(name);
+  const text = tokens.join(" ");
+  return {
+    text,
+    words: tokens.length,
+    rule,
+    maxEdits: maxEditsFor(text),
+    entry,
+    ambiguous: entry?.ambiguousNames?.includes(name) ?? false,
+  };
+}
+
+const termCache = new WeakMap<CountryProfile, Term[]>();
+
+/** Every term the profile is recognised by, built once per profile. */
+function termsFor(profile: CountryProfile): Term[] {
+  const cached = termCache.get(profile);
+  if (cached) return cached;
+
+  const terms = [makeTerm(profile.name.toLowerCase(), "country", null)];
+  const covered = new Set<string>();
+  for (const entry of profile.gazetteer ?? []) {
+    const rule = entry.name === profile.primaryCity ? "primaryCity" : entry.kind;
+    for (const name of [entry.name, ...(entry.altNames ?? [])]) {
+      terms.push(makeTerm(name, rule, entry));
+      covered.add(name);
+    }
+  }
+  // Cities not in the gazetteer (or every city, without one) match with no
+  // district or region.
+  for (const city of profile.cities) {
+    if (covered.has(city)) continue;
+    terms.push(
+      makeTerm(city, city === profile.primaryCity ? "primaryCity" : "city", null)
+    );
+  }
+
+  termCache.set(profile, terms);
+  return terms;
+}
+
+/**
+ * Optimal string alignment distance — Levenshtein plus adjacent
+ * transpositions, so "kamapla" is one edit from "kampala".
+ */
+function editDistance(a: string, b: string): number {
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) => [i]);
+  for (let j = 1; j <= b.length; j++) d[0][j] = j;
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(
+        d[i - 1][j] + 1,
+        d[i][j - 1] + 1,
+        d[i - 1][j - 1] + cost
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
+}
+
+/** Exact or fuzzy match of `term` against a run of location tokens. */
+function compareTerm(term: Term, phrase: string): MatchType | null {
+  if (phrase === term.text) return "exact";
+  if (
+    term.maxEdits > 0 &&
+    phrase[0] === term.text[0] &&
+    Math.abs(phrase.length - term.text.length) <= term.maxEdits &&
+    editDistance(phrase, term.text) <= term.maxEdits
+  ) {
+    return "fuzzy";
+  }
+  return null;
+}
+
+/** The profile abbreviation the location contains as a token, if any. */
+function findAbbreviation(loc: string, profile: CountryProfile): string | null {
+  for (const abbr of profile.abbreviations) {
+    const plain = new RegExp(
+      `(?:,\\s*| )${escapeRegex(abbr)}(?:\\s*,|\\s+|$)`
+    );
+    if (plain.test(loc)) return abbr;
+    const dotted = new RegExp(
+      `\\b${abbr.split("").map(escapeRegex).join("\\.")}\\.?\\b`
+    );
+    if (dotted.test(loc)) return abbr;
+  }
+  return null;
+}
+
+/**
+ * Match a normalised location against the profile's country name, cities
+ * and gazetteer.
  *
- * - 100 → location includes "uganda"
- * -  85 → location includes "kampala"
- * -  75 → location includes another known Uganda city
- * -  50 → location includes "ug" or "u.g." abbreviation
+ * Exact scores (fuzzy matches score FUZZY_PENALTY less):
+ * - 100 → country name (e.g. "uganda"; also as a substring, "ugandan")
+ * -  85 → primary city (e.g. "kampala")
+ * -  80 → suburb (e.g. "ntinda")
+ * -  75 → district, town or other known city (e.g. "hoima", "entebbe")
+ * -  60 → sub-region or kingdom (e.g. "busoga")
+ * -  50 → country abbreviation (e.g. "ug" or "u.g.")
  * -   0 → no match
+ *
+ * An ambiguous gazetteer name (e.g. "busia", "toro") scores at most
+ * AMBIGUOUS_SCORE unless the location also contains the country name or an
+ * unambiguous place: "busia, kenya" scores 40, "busia, uganda" 100.
+ *
+ * The score, term and match type come from the best-scoring match; district
+ * and region come from the most specific place matched, so
+ * "ntinda, kampala, uganda" scores 100 and resolves to Kampala, Central.
  */
-export function computeConfidenceScore(normalisedLocation: string): number {
-  if (!normalisedLocation) return 0;
+export function matchLocation(
+  normalisedLocation: string,
+  profile: CountryProfile = getActiveProfile()
+): LocationMatch {
+  return scoreLocation(normalisedLocation, profile).match;
+}
 
-  const loc = normalisedLocation;
+/** matchLocation plus every signal found, best first. */
+function scoreLocation(
+  loc: string,
+  profile: CountryProfile
+): { match: LocationMatch; reasons: ScoreReason[] } {
+  if (!loc) return { match: NO_MATCH, reasons: [] };
 
-  if (loc.includes("uganda")) return 100;
+  const tokens = tokenize(loc);
+  // Learned per-term adjustments; a term adjusted down to 0 no longer matches.
+  const adjust = (term: string, score: number) =>
+    Math.min(Math.max(score + (profile.scoreAdjustments?.[term] ?? 0), 0), 100);
+  // Strongest signal per rule and term.
+  const found = new Map<string, ScoreReason>();
+  const add = (reason: ScoreReason) => {
+    if (reason.score === 0) return;
+    const key = `${reason.rule}:${reason.term}`;
+    if ((found.get(key)?.score ?? -1) < reason.score) found.set(key, reason);
+  };
+  // Set in addPlace; the cast keeps TS from narrowing it to null below.
+  let place = null as { entry: GazetteerEntry; score: number } | null;
+  const addPlace = (entry: GazetteerEntry, score: number) => {
+    if (
+      !place ||
+      SPECIFICITY[entry.kind] > SPECIFICITY[place.entry.kind] ||
+      (SPECIFICITY[entry.kind] === SPECIFICITY[place.entry.kind] &&
+        score > place.score)
+    ) {
+      place = { entry, score };
+    }
+  };
+  // Whether the country name or an unambiguous term matched.
+  let corroborated = false;
+  const ambiguous: { term: Term; phrase: string; fuzzy: boolean }[] = [];
 
-  if (loc.includes("kampala")) return 85;
+  const countryName = profile.name.toLowerCase();
+  if (loc.includes(countryName)) {
+    corroborated = true;
+    add({
+      rule: "country",
+      term: countryName,
+      matchedText: countryName,
+      fuzzy: false,
+      score: adjust(countryName, RULE_SCORES.country),
+    });
+  }
+
+  for (const term of termsFor(profile)) {
+    for (let i = 0; i + term.words <= tokens.length; i++) {
+      const phrase = tokens.slice(i, i + term.words).join(" ");
+      const matchType = compareTerm(term, phrase);
+      if (!matchType) continue;
+
+      const fuzzy = matchType === "fuzzy";
+      if (term.ambiguous) {
+        ambiguous.push({ term, phrase, fuzzy });
+        continue;
+      }
+      const score = adjust(
+        term.text,
+        RULE_SCORES[term.rule] - (fuzzy ? FUZZY_PENALTY : 0)
+      );
+      if (score === 0) continue;
+      corroborated = true;
+      add({ rule: term.rule, term: term.text, matchedText: phrase, fuzzy, score });
+      if (term.entry) addPlace(term.entry, score);
+    }
+  }
 
-  for (const city of UGANDA_CITIES) {
-    if (city === "kampala") continue;
-    const re = new RegExp(`(?:^|[^a-z])${escapeRegex(city)}(?:[^a-z]|$)`);
-    if (re.test(loc)) return 75;
+  for (const { term, phrase, fuzzy } of ambiguous) {
+    const base = RULE_SCORES[term.rule] - (fuzzy ? FUZZY_PENALTY : 0);
+    const score = adjust(
+      term.text,
+      corroborated ? base : Math.min(base, AMBIGUOUS_SCORE)
+    );
+    if (score === 0) continue;
+    add({ rule: term.rule, term: term.text, matchedText: phrase, fuzzy, score });
+    if (term.entry) addPlace(term.entry, score);
   }
 
-  // Match "ug" / "u.g." abbreviation
-  if (/(?:,\s*| )ug(?:\s*,|\s+|$)/.test(loc)) return 50;
-  if (/\bu\.g\.?\b/.test(loc)) return 50;
+  const abbr = findAbbreviation(loc, profile);
+  if (abbr) {
+    add({
+      rule: "abbreviation",
+      term: abbr,
+      matchedText: abbr,
+      fuzzy: false,
+      score: adjust(abbr, RULE_SCORES.abbreviation),
+    });
+  }
 
-  return 0;
+  // Stable sort keeps discovery order (country name first) among equal scores.
+  const reasons = [...found.values()].sort((a, b) => b.score - a.score);
+  const best = reasons[0];
+  if (!best) return { match: NO_MATCH, reasons };
+
+  return {
+    match: {
+      district: place?.entry.district ?? null,
+      region: place?.entry.region ?? null,
+      matchedTerm: best.term,
+      matchType:
+        best.rule === "abbreviation"
+          ? "abbreviation"
+          : best.fuzzy
+          ? "fuzzy"
+          : "exact",
+      score: best.score,
+    },
+    reasons,
+  };
 }
 
 /**
- * Determine whether a normalised location string refers to Uganda.
+ * Match a location and explain the result: every term that matched with the
+ * rule it fired, plus the false-positive markers (if any) that veto
+ * isLikelyInCountry.
  */
-export function isUgandaLocation(normalisedLocation: string): boolean {
-  return computeConfidenceScore(normalisedLocation) > 0;
+export function explainLocation(
+  normalisedLocation: string,
+  profile: CountryProfile = getActiveProfile()
+): LocationExplanation {
+  const { match, reasons } = scoreLocation(normalisedLocation, profile);
+  if (match.score === 0) return { match, isLikely: false, reasons };
+
+  const vetoes: ScoreReason[] = profile.falsePositiveMarkers
+    .filter((marker) => normalisedLocation.includes(marker))
+    .map((marker) => ({
+      rule: "falsePositive",
+      term: marker.trim(),
+      matchedText: marker,
+      fuzzy: false,
+      score: 0,
+    }));
+
+  return {
+    match,
+    isLikely: vetoes.length === 0,
+    reasons: [...reasons, ...vetoes],
+  };
 }
 
-/** Countries that may cause false positives when location is ambiguous. */
-const FALSE_POSITIVE_MARKERS = [
-  "united states",
-  "united kingdom",
-  "canada",
-  " us ",
-  " uk ",
-  ", us",
-  ", uk",
-];
+const RULE_LABELS: Record<ScoreRule, string> = {
+  country: "country",
+  primaryCity: "primary city",
+  suburb: "suburb",
+  district: "district",
+  town: "town",
+  city: "city",
+  subregion: "sub-region",
+  abbreviation: "abbreviation",
+  domain: "domain",
+  org: "known org",
+  falsePositive: "false-positive marker",
+};
 
 /**
- * Flag likely false positives – locations that mention another country alongside
- * a Uganda-related term.
+ * One-line description of a reason, e.g. `suburb "ntinda" → 80`,
+ * `primary city "kampala" (typo "kamapla") → 75` or
+ * `vetoed by false-positive marker "united states"`.
  */
-export function isLikelyUganda(normalisedLocation: string): boolean {
-  if (!normalisedLocation) return false;
+export function formatScoreReason(reason: ScoreReason): string {
+  const label = `${RULE_LABELS[reason.rule]} "${reason.term}"`;
+  if (reason.rule === "falsePositive") return `vetoed by ${label}`;
+  const typo = reason.fuzzy ? ` (typo "${reason.matchedText}")` : "";
+  return `${label}${typo} → ${reason.score}`;
+}
+
+/**
+ * Compute a country confidence score (0 – 100) for a normalised location —
+ * the score of matchLocation.
+ */
+export function computeConfidenceScore(
+  normalisedLocation: string,
+  profile: CountryProfile = getActiveProfile()
+): number {
+  return matchLocation(normalisedLocation, profile).score;
+}
 
-  const score = computeConfidenceScore(normalisedLocation);
-  if (score === 0) return false;
+/**
+ * Determine whether a normalised location string refers to the country.
+ */
+export function isCountryLocation(
+  normalisedLocation: string,
+  profile: CountryProfile = getActiveProfile()
+): boolean {
+  return computeConfidenceScore(normalisedLocation, profile) > 0;
+}
 
-  for (const marker of FALSE_POSITIVE_MARKERS) {
-    if (normalisedLocation.includes(marker)) return false;
-  }
+/**
+ * Determine whether a normalised location string refers to Uganda.
+ */
+export function isUgandaLocation(normalisedLocation: string): boolean {
+  return isCountryLocation(normalisedLocation, getActiveProfile("uganda"));
+}
+
+/**
+ * Flag likely false positives – locations that mention another country alongside
+ * a term from the profile.
+ */
+export function isLikelyInCountry(
+  normalisedLocation: string,
+  profile: CountryProfile = getActiveProfile()
+): boolean {
+  return explainLocation(normalisedLocation, profile).isLikely;
+}
 
-  return true;
+/**
+ * Uganda-specific form of isLikelyInCountry.
+ */
+export function isLikelyUganda(normalisedLocation: string): boolean {
+  return isLikelyInCountry(normalisedLocation, getActiveProfile("uganda"));
 }
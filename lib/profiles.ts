@@ -0,0 +1,98 @@
+/**
+ * Profile cache — stores each fetched `/users/:login` response with its
+ * ETag / Last-Modified validators so later runs can revalidate with a
+ * conditional request instead of downloading the profile again.
+ *
+ * Like the run store, the cache comes in two flavours selected by env:
+ *   • createFileProfileCache   – one JSON file per login under PROFILE_CACHE_DIR
+ *                                (default: .data/profiles)
+ *   • createMemoryProfileCache – process-local Map (default under NODE_ENV=test)
+ */
+
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { isMissing, writeJsonAtomic } from "./files";
+import type { RawProfile } from "./github";
+
+export interface CachedProfile {
+  profile: RawProfile;
+  etag: string | null;
+  lastModified: string | null;
+  /** Epoch ms when the profile was last fetched or revalidated (304). */
+  checkedAt: number;
+}
+
+export interface ProfileCache {
+  get(login: string): Promise<CachedProfile | null>;
+  set(login: string, entry: CachedProfile): Promise<void>;
+}
+
+// ---------------------------------------------------------------------------
+// In-memory cache
+// ---------------------------------------------------------------------------
+
+export function createMemoryProfileCache(): ProfileCache {
+  const entries = new Map<string, CachedProfile>();
+
+  return {
+    async get(login) {
+      return entries.get(login.toLowerCase()) ?? null;
+    },
+    async set(login, entry) {
+      entries.set(login.toLowerCase(), entry);
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// File-system cache
+// ---------------------------------------------------------------------------
+
+/** GitHub logins are alphanumeric plus hyphens; anything else is skipped. */
+const LOGIN_RE = /^[a-z0-9-]+$/i;
+
+export function createFileProfileCache(dir: string): ProfileCache {
+  const entryPath = (login: string) =>
+    path.join(dir, `${login.toLowerCase()}.json`);
+
+  return {
+    async get(login) {
+      if (!LOGIN_RE.test(login)) return null;
+      try {
+        return JSON.parse(await fs.readFile(entryPath(login), "utf8"));
+      } catch (err) {
+        if (isMissing(err)) return null;
+        throw err;
+      }
+    },
+
+    async set(login, entry) {
+      if (!LOGIN_RE.test(login)) return;
+      await fs.mkdir(dir, { recursive: true });
+      await writeJsonAtomic(entryPath(login), entry);
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Active cache
+// ---------------------------------------------------------------------------
+
+let activeCache: ProfileCache | null = null;
+
+/** Return the process-wide profile cache, creating it from env on first use. */
+export function getProfileCache(): ProfileCache {
+  if (!activeCache) {
+    const kind =
+      process.env.PROFILE_CACHE ??
+      (process.env.NODE_ENV === "test" ? "memory" : "file");
+    activeCache =
+      kind === "memory"
+        ? createMemoryProfileCache()
+        : createFileProfileCache(
+            process.env.PROFILE_CACHE_DIR ??
+              path.join(process.cwd(), ".data", "profiles")
+          );
+  }
+  return activeCache;
+}
@@ -0,0 +1,107 @@
+/**
+ * Scrape progress events and the progress snapshot built from them.
+ *
+ * Events are emitted by scrapeUsers, streamed to the browser over SSE and
+ * folded into a ScrapeProgress with applyProgressEvent — on the server for
+ * job snapshots and in the UI for the progress bar.
+ */
+
+export type ScrapePhase =
+  | "search"
+  | "profile"
+  | "expand"
+  | "activity"
+  | "enrich";
+
+export type ScrapeProgressEvent =
+  | { type: "phase"; phase: ScrapePhase }
+  | { type: "query"; query: string; count: number }
+  | { type: "profiles"; fetched: number; total: number }
+  | { type: "expand"; level: number; depth: number; discovered: number }
+  | { type: "activity"; done: number; total: number }
+  | { type: "enrich"; done: number; total: number }
+  | { type: "rateLimit"; waitMs: number; resumeAt: number };
+
+export interface ScrapeProgress {
+  phase: ScrapePhase | null;
+  /** Result count for each search query (or slice) completed so far. */
+  queries: { query: string; count: number }[];
+  profilesFetched: number;
+  profilesTotal: number;
+  /** Last social-graph expansion level reached, of expandDepth. */
+  expandLevel: number;
+  expandDepth: number;
+  /** New logins found by expansion so far. */
+  usersDiscovered: number;
+  activityChecked: number;
+  activityTotal: number;
+  usersEnriched: number;
+  usersToEnrich: number;
+  /** Epoch ms when the current rate-limit wait ends, or null when not waiting. */
+  rateLimitedUntil: number | null;
+}
+
+export function emptyProgress(): ScrapeProgress {
+  return {
+    phase: null,
+    queries: [],
+    profilesFetched: 0,
+    profilesTotal: 0,
+    expandLevel: 0,
+    expandDepth: 0,
+    usersDiscovered: 0,
+    activityChecked: 0,
+    activityTotal: 0,
+    usersEnriched: 0,
+    usersToEnrich: 0,
+    rateLimitedUntil: null,
+  };
+}
+
+/** Return a new snapshot with `event` applied. */
+export function applyProgressEvent(
+  progress: ScrapeProgress,
+  event: ScrapeProgressEvent
+): ScrapeProgress {
+  switch (event.type) {
+    case "phase":
+      return { ...progress, phase: event.phase, rateLimitedUntil: null };
+    case "query":
+      return {
+        ...progress,
+        queries: [...progress.queries, { query: event.query, count: event.count }],
+        rateLimitedUntil: null,
+      };
+    case "profiles":
+      return {
+        ...progress,
+        profilesFetched: event.fetched,
+        profilesTotal: event.total,
+        rateLimitedUntil: null,
+      };
+    case "expand":
+      return {
+        ...progress,
+        expandLevel: event.level,
+        expandDepth: event.depth,
+        usersDiscovered: progress.usersDiscovered + event.discovered,
+        rateLimitedUntil: null,
+      };
+    case "activity":
+      return {
+        ...progress,
+        activityChecked: event.done,
+        activityTotal: event.total,
+        rateLimitedUntil: null,
+      };
+    case "enrich":
+      return {
+        ...progress,
+        usersEnriched: event.done,
+        usersToEnrich: event.total,
+        rateLimitedUntil: null,
+      };
+    case "rateLimit":
+      return { ...progress, rateLimitedUntil: event.resumeAt };
+  }
+}
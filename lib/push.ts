@@ -0,0 +1,422 @@
+/**
+ * CRM / ATS push — maps users to a target's schema and sends selected users
+ * of a stored run to HubSpot or a generic webhook.
+ *
+ * Targets are configured by env vars (see getPushTargets). Every attempt
+ * records a PushRecord per user with the run (see RunStore.savePushes), so a
+ * user already pushed to a target is skipped unless the push is forced, and
+ * a dry run previews the payloads without sending or recording anything.
+ */
+
+import { getCountryProfile } from "./countries";
+import { applyReviews } from "./reviews";
+import { RunStore, StoredRun } from "./runs";
+import { UgandaUser } from "./types/user";
+
+export const PUSH_TARGET_NAMES = ["hubspot", "webhook"] as const;
+
+export type PushTargetName = (typeof PUSH_TARGET_NAMES)[number];
+
+export interface PushTarget {
+  name: PushTargetName;
+  /** HubSpot API base URL, or the webhook URL. */
+  url: string;
+  /** Sent as a Bearer token when set. */
+  token: string | null;
+}
+
+/** Outcome of the last push of one user to one target. */
+export interface PushRecord {
+  login: string;
+  target: PushTargetName;
+  status: "pushed" | "failed";
+  /** ISO timestamp of the attempt. */
+  at: string;
+  /** Record id at the target (HubSpot contact id). */
+  externalId?: string;
+  error?: string;
+}
+
+export const HUBSPOT_API_URL = "https://api.hubapi.com";
+
+/**
+ * Contact property holding the GitHub login. It must exist in the HubSpot
+ * portal as a unique-value property, since contacts are upserted by it.
+ */
+export const HUBSPOT_LOGIN_PROPERTY = "github_login";
+
+/** Users per request; HubSpot's batch limit. */
+const BATCH_SIZE = 100;
+
+/** Per-request timeout (ms), so a hung target cannot stall a push. */
+export const REQUEST_TIMEOUT_MS = 30_000;
+
+/**
+ * Targets configured in `env`: HubSpot when HUBSPOT_TOKEN is set (base URL
+ * HUBSPOT_API_URL, e.g. a local mock server), and the webhook when
+ * PUSH_WEBHOOK_URL is set (with an optional PUSH_WEBHOOK_TOKEN).
+ */
+export function getPushTargets(
+  env: Record<string, string | undefined> = process.env
+): PushTarget[] {
+  const targets: PushTarget[] = [];
+  if (env.HUBSPOT_TOKEN) {
+    targets.push({
+      name: "hubspot",
+      url: (env.HUBSPOT_API_URL || HUBSPOT_API_URL).replace(/\/+$/, ""),
+      token: env.HUBSPOT_TOKEN,
+    });
+  }
+  if (env.PUSH_WEBHOOK_URL) {
+    targets.push({
+      name: "webhook",
+      url: env.PUSH_WEBHOOK_URL,
+      token: env.PUSH_WEBHOOK_TOKEN || null,
+    });
+  }
+  return targets;
+}
+
+// ---------------------------------------------------------------------------
+// Mappers
+// ---------------------------------------------------------------------------
+
+export interface HubSpotContactInput {
+  idProperty: string;
+  id: string;
+  properties: Record<string, string>;
+}
+
+/**
+ * A HubSpot batch-upsert input keyed by login. Empty fields are left out so
+ * a push never clears what a recruiter entered in HubSpot.
+ */
+export function toHubSpotContact(user: UgandaUser): HubSpotContactInput {
+  const [firstname, ...rest] = (user.name ?? "").trim().split(/\s+/);
+  const properties: Record<string, string | null | undefined> = {
+    [HUBSPOT_LOGIN_PROPERTY]: user.login,
+    firstname: firstname || user.login,
+    lastname: rest.join(" "),
+    email: user.email,
+    company: user.company?.replace(/^@/, ""),
+    website: user.blog,
+    twitterhandle: user.twitter_username,
+    city: user.locationMatch.district,
+    country: getCountryProfile(user.country)?.name ?? user.country,
+  };
+  return {
+    idProperty: HUBSPOT_LOGIN_PROPERTY,
+    id: user.login,
+    properties: Object.fromEntries(
+      Object.entries(properties).filter(
+        (entry): entry is [string, string] => !!entry[1]
+      )
+    ),
+  };
+}
+
+/** A flat user record for generic webhooks. */
+export interface WebhookUser {
+  login: string;
+  name: string | null;
+  email: string | null;
+  company: string | null;
+  blog: string | null;
+  twitter_username: string | null;
+  location: string | null;
+  country: string;
+  district: string | null;
+  region: string | null;
+  confidenceScore: number;
+  followers: number;
+  public_repos: number;
+  html_url: string;
+  reviewState: string;
+  reviewNote: string;
+}
+
+export function toWebhookUser(user: UgandaUser): WebhookUser {
+  return {
+    login: user.login,
+    name: user.name,
+    email: user.email,
+    company: user.company,
+    blog: user.blog,
+    twitter_username: user.twitter_username,
+    location: user.location,
+    country: user.country,
+    district: user.locationMatch.district,
+    region: user.locationMatch.region,
+    confidenceScore: user.confidenceScore,
+    followers: user.followers,
+    public_repos: user.public_repos,
+    html_url: user.html_url,
+    reviewState: user.reviewState ?? "unreviewed",
+    reviewNote: user.reviewNote ?? "",
+  };
+}
+
+function mapUser(target: PushTarget, user: UgandaUser): unknown {
+  return target.name === "hubspot"
+    ? toHubSpotContact(user)
+    : toWebhookUser(user);
+}
+
+// ---------------------------------------------------------------------------
+// Planning
+// ---------------------------------------------------------------------------
+
+export interface PushSkip {
+  login: string;
+  reason: "not in run" | "already pushed";
+}
+
+export interface PushPlan {
+  users: UgandaUser[];
+  skipped: PushSkip[];
+}
+
+/**
+ * The users of `logins` to send, each once (logins are case-insensitive).
+ * Logins missing from the run are skipped, as are users already pushed to
+ * the target unless `force` is set; failed pushes are always retried.
+ */
+export function planPush(
+  users: UgandaUser[],
+  logins: string[],
+  records: PushRecord[],
+  target: PushTargetName,
+  force = false
+): PushPlan {
+  const byLogin = new Map(users.map((u) => [u.login.toLowerCase(), u]));
+  const pushed = new Set(
+    records
+      .filter((r) => r.target === target && r.status === "pushed")
+      .map((r) => r.login.toLowerCase())
+  );
+
+  const plan: PushPlan = { users: [], skipped: [] };
+  const seen = new Set<string>();
+  for (const login of logins) {
+    const key = login.toLowerCase();
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    const user = byLogin.get(key);
+    if (!user) plan.skipped.push({ login, reason: "not in run" });
+    else if (pushed.has(key) && !force) {
+      plan.skipped.push({ login: user.login, reason: "already pushed" });
+    } else plan.users.push(user);
+  }
+  return plan;
+}
+
+// ---------------------------------------------------------------------------
+// Sending
+// ---------------------------------------------------------------------------
+
+export interface PushOptions {
+  /** Preview payloads without sending or recording anything. */
+  dryRun?: boolean;
+  /** Push users again even if they were pushed before. */
+  force?: boolean;
+  /** Override REQUEST_TIMEOUT_MS (tests). */
+  timeoutMs?: number;
+}
+
+export interface PushResult {
+  target: PushTargetName;
+  dryRun: boolean;
+  /** Pushed (or, in a dry run, to be pushed) users with their payloads. */
+  previews: { login: string; payload: unknown }[];
+  pushed: string[];
+  failed: { login: string; error: string }[];
+  skipped: PushSkip[];
+}
+
+async function post(
+  target: PushTarget,
+  url: string,
+  body: unknown,
+  timeoutMs: number
+): Promise<unknown> {
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (target.token) headers.Authorization = `Bearer ${target.token}`;
+
+  let res: Response;
+  let text: string;
+  try {
+    res = await fetch(url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+    text = await res.text();
+  } catch (err) {
+    // A DOMException, which is not always an Error instance.
+    if ((err as { name?: string } | null)?.name === "TimeoutError") {
+      throw new Error(
+        `${target.name} did not respond within ${timeoutMs / 1000}s`
+      );
+    }
+    throw err;
+  }
+  if (!res.ok) {
+    let message = text.slice(0, 200);
+    try {
+      message = JSON.parse(text).message ?? message;
+    } catch {
+      // not JSON; keep the raw text
+    }
+    throw new Error(`${target.name} responded ${res.status}: ${message}`);
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+}
+
+/** What the target did with one user of an accepted batch. */
+interface UserOutcome {
+  /** Record id at the target (HubSpot contact id). */
+  externalId?: string;
+  /** Set when the target accepted the batch but not this user. */
+  error?: string;
+}
+
+interface HubSpotBatchResponse {
+  results?: { id: string; properties?: Record<string, string> }[];
+  errors?: { message?: string; context?: { ids?: string[] } }[];
+}
+
+/**
+ * HubSpot answers a partly failed batch with 207 Multi-Status: only the
+ * upserted contacts are in `results`, and `errors` says why the others were
+ * not. A login without a returned id is failed, with the error naming it
+ * (or else one naming no ids) as the reason.
+ */
+function hubSpotOutcomes(
+  users: UgandaUser[],
+  data: HubSpotBatchResponse | null
+): Map<string, UserOutcome> {
+  const ids = new Map<string, string>();
+  for (const result of data?.results ?? []) {
+    const login = result.properties?.[HUBSPOT_LOGIN_PROPERTY];
+    if (login) ids.set(login.toLowerCase(), result.id);
+  }
+  const errors = data?.errors ?? [];
+  const errorFor = (key: string) =>
+    (
+      errors.find((e) =>
+        e.context?.ids?.some((id) => id.toLowerCase() === key)
+      ) ?? errors.find((e) => !e.context?.ids)
+    )?.message ?? "hubspot returned no contact for this login";
+
+  return new Map(
+    users.map((u) => {
+      const key = u.login.toLowerCase();
+      const externalId = ids.get(key);
+      return [key, externalId ? { externalId } : { error: errorFor(key) }];
+    })
+  );
+}
+
+/**
+ * Send one batch; resolves to the outcome of each user by lowercased login.
+ * Throws when the target rejects the whole batch.
+ */
+async function sendBatch(
+  target: PushTarget,
+  run: StoredRun,
+  users: UgandaUser[],
+  timeoutMs: number
+): Promise<Map<string, UserOutcome>> {
+  if (target.name === "hubspot") {
+    const data = (await post(
+      target,
+      `${target.url}/crm/v3/objects/contacts/batch/upsert`,
+      { inputs: users.map(toHubSpotContact) },
+      timeoutMs
+    )) as HubSpotBatchResponse | null;
+    return hubSpotOutcomes(users, data);
+  }
+  await post(
+    target,
+    target.url,
+    {
+      event: "users.push",
+      runId: run.runId,
+      country: run.request.country,
+      users: users.map(toWebhookUser),
+    },
+    timeoutMs
+  );
+  return new Map(users.map((u) => [u.login.toLowerCase(), {}]));
+}
+
+/**
+ * Push the users of `logins` from `run` to `target` in batches, and save
+ * each user's outcome with the run. A rejected batch marks its users failed,
+ * as does a partly failed HubSpot batch the users it did not upsert, and
+ * the push carries on with the next batch.
+ */
+export async function pushUsers(
+  store: RunStore,
+  run: StoredRun,
+  target: PushTarget,
+  logins: string[],
+  {
+    dryRun = false,
+    force = false,
+    timeoutMs = REQUEST_TIMEOUT_MS,
+  }: PushOptions = {}
+): Promise<PushResult> {
+  const users = applyReviews(run.users, await store.listReviews());
+  const plan = planPush(
+    users,
+    logins,
+    await store.listPushes(run.runId),
+    target.name,
+    force
+  );
+
+  const result: PushResult = {
+    target: target.name,
+    dryRun,
+    previews: plan.users.map((u) => ({
+      login: u.login,
+      payload: mapUser(target, u),
+    })),
+    pushed: [],
+    failed: [],
+    skipped: plan.skipped,
+  };
+  if (dryRun) return result;
+
+  for (let i = 0; i < plan.users.length; i += BATCH_SIZE) {
+    const batch = plan.users.slice(i, i + BATCH_SIZE);
+    const at = new Date().toISOString();
+    let outcomes: Map<string, UserOutcome>;
+    try {
+      outcomes = await sendBatch(target, run, batch, timeoutMs);
+    } catch (err) {
+      const error = err instanceof Error ? err.message : String(err);
+      outcomes = new Map(batch.map((u) => [u.login.toLowerCase(), { error }]));
+    }
+
+    const records = batch.map((u): PushRecord => {
+      const { login } = u;
+      const { externalId, error } = outcomes.get(login.toLowerCase()) ?? {};
+      if (error) {
+        result.failed.push({ login, error });
+        return { login, target: target.name, status: "failed", at, error };
+      }
+      result.pushed.push(login);
+      return { login, target: target.name, status: "pushed", at, externalId };
+    });
+    await store.savePushes(run.runId, records);
+  }
+  return result;
+}
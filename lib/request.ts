@@ -0,0 +1,73 @@
+/**
+ * Scrape request defaults and limits, shared by POST /api/scrape and the CLI
+ * (src/cli.ts) so both run the same pipeline with the same settings.
+ */
+
+import { CountryProfile } from "./countries";
+import { resolveSignalWeights } from "./signals";
+import { ScrapeRequest } from "./types/user";
+
+const clamp = (n: number, min: number, max: number) =>
+  Math.min(Math.max(min, n), max);
+
+/**
+ * Fill in defaults for a partial scrape request and clamp its limits.
+ * Throws when `locations` / `orgs` are not arrays or are both empty.
+ */
+export function resolveScrapeRequest(
+  body: Partial<ScrapeRequest>,
+  country: CountryProfile
+): ScrapeRequest {
+  const {
+    locations = country.defaultLocations,
+    orgs = [],
+    minRepos = 0,
+    minFollowers = 0,
+    maxPagesPerQuery = 3,
+    perPage = 100,
+    concurrency = 5,
+    minScore = 50,
+    partition = false,
+    refreshOlderThan = 0,
+    fetchMode = "rest",
+    enrichRepos = false,
+    activity = false,
+    minActivity = 0,
+    signalWeights,
+    expandDepth = 0,
+    expandBudget = 100,
+    minSeedScore = 85,
+  } = body;
+
+  if (!Array.isArray(locations) || !Array.isArray(orgs)) {
+    throw new Error("locations and orgs must be arrays");
+  }
+  const orgLogins = [
+    ...new Set(orgs.map((o) => String(o).trim().replace(/^@/, "")).filter(Boolean)),
+  ];
+  if (locations.length === 0 && orgLogins.length === 0) {
+    throw new Error("locations or orgs must be non-empty");
+  }
+
+  return {
+    country: country.id,
+    locations,
+    orgs: orgLogins,
+    minRepos,
+    minFollowers,
+    maxPagesPerQuery: Math.min(maxPagesPerQuery, 10),
+    perPage: Math.min(perPage, 100),
+    concurrency: Math.min(concurrency, 10),
+    minScore,
+    partition: partition === true,
+    refreshOlderThan: Math.max(0, Number(refreshOlderThan) || 0),
+    fetchMode: fetchMode === "graphql" ? "graphql" : "rest",
+    enrichRepos: enrichRepos === true,
+    activity: activity === true || Number(minActivity) > 0,
+    minActivity: clamp(Number(minActivity) || 0, 0, 100),
+    signalWeights: resolveSignalWeights(signalWeights),
+    expandDepth: clamp(Math.floor(Number(expandDepth) || 0), 0, 3),
+    expandBudget: clamp(Math.floor(Number(expandBudget) || 100), 1, 1000),
+    minSeedScore: clamp(Number(minSeedScore) || 0, 0, 100),
+  };
+}
@@ -0,0 +1,55 @@
+/**
+ * Manual review — recruiters confirm or reject the heuristic country match
+ * per user and leave notes.
+ *
+ * Reviews are keyed by login, not by run, so a decision carries over to
+ * every later run that finds the same user. They are persisted by the run
+ * store (see ./runs) and merged into users when a run is shown or exported.
+ */
+
+import { UgandaUser } from "./types/user";
+
+export type ReviewState = "unreviewed" | "confirmed" | "rejected" | "needs-info";
+
+export const REVIEW_STATES: ReviewState[] = [
+  "unreviewed",
+  "confirmed",
+  "rejected",
+  "needs-info",
+];
+
+export interface Review {
+  login: string;
+  state: ReviewState;
+  note: string;
+  /** ISO timestamp of the last change. */
+  updatedAt: string;
+}
+
+/** Keyboard shortcuts of the results table, key → state. */
+export const REVIEW_KEYS: Record<string, ReviewState> = {
+  c: "confirmed",
+  x: "rejected",
+  n: "needs-info",
+  u: "unreviewed",
+};
+
+export function isReviewState(value: unknown): value is ReviewState {
+  return REVIEW_STATES.includes(value as ReviewState);
+}
+
+/** Copy each user with its review state and note; unreviewed when absent. */
+export function applyReviews(
+  users: UgandaUser[],
+  reviews: Review[]
+): UgandaUser[] {
+  const byLogin = new Map(reviews.map((r) => [r.login, r]));
+  return users.map((user) => {
+    const review = byLogin.get(user.login);
+    return {
+      ...user,
+      reviewState: review?.state ?? "unreviewed",
+      reviewNote: review?.note ?? "",
+    };
+  });
+}
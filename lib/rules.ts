@@ -0,0 +1,359 @@
+/**
+ * Learned location rules — aliases, false-positive markers and per-term score
+ * adjustments proposed from review decisions (see ./reviews).
+ *
+ * proposeRules compares confirmed and rejected users' locations with how the
+ * current country profile scores them, and reports precision / recall for
+ * each proposal. Approved rules are saved to a rules file and merged into the
+ * country profile at runtime (loadCountryProfile). Loading or saving rules
+ * also makes the merged profile the default of ./normalize's helpers, so
+ * normaliseLocation and isLikelyUganda pick them up without source changes.
+ *
+ * The rules file is RULES_FILE (default: .data/rules.json) and maps country
+ * ids to LearnedRules. Server-only: it reads and writes the file system.
+ */
+
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { CountryProfile, getCountryProfile } from "./countries";
+import {
+  explainLocation,
+  normaliseLocation,
+  setActiveProfile,
+} from "./normalize";
+import { classifyLocation, ratio } from "./evaluate";
+import { isMissing, writeJsonAtomic } from "./files";
+import { RunStore } from "./runs";
+
+export interface LearnedRules {
+  /** Normalised location → replacement, like CountryProfile.aliases. */
+  aliases: Record<string, string>;
+  falsePositiveMarkers: string[];
+  /** Matched term → points added to its score. */
+  scoreAdjustments: Record<string, number>;
+}
+
+/** Contents of the rules file, keyed by country id. */
+export type RulesFile = Record<string, LearnedRules>;
+
+export function emptyRules(): LearnedRules {
+  return { aliases: {}, falsePositiveMarkers: [], scoreAdjustments: {} };
+}
+
+/** Return `profile` with `rules` merged over its built-in terms. */
+export function withLearnedRules(
+  profile: CountryProfile,
+  rules: LearnedRules | undefined
+): CountryProfile {
+  if (!rules) return profile;
+  return {
+    ...profile,
+    aliases: { ...profile.aliases, ...rules.aliases },
+    falsePositiveMarkers: [
+      ...profile.falsePositiveMarkers,
+      ...rules.falsePositiveMarkers.filter(
+        (m) => !profile.falsePositiveMarkers.includes(m)
+      ),
+    ],
+    scoreAdjustments: { ...profile.scoreAdjustments, ...rules.scoreAdjustments },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Evaluation
+// ---------------------------------------------------------------------------
+
+/** A reviewed user's location: confirmed (true) or rejected (false). */
+export interface LabeledLocation {
+  login: string;
+  location: string;
+  confirmed: boolean;
+}
+
+export interface RuleMetrics {
+  /** Share of accepted locations that were confirmed. */
+  precision: number;
+  /** Share of confirmed locations that were accepted. */
+  recall: number;
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+}
+
+/** Precision and recall of `profile` on the labeled locations. */
+export function evaluateRules(
+  samples: LabeledLocation[],
+  profile: CountryProfile,
+  threshold: number
+): RuleMetrics {
+  let tp = 0;
+  let fp = 0;
+  let fn = 0;
+  for (const s of samples) {
+    const { accepted } = classifyLocation(s.location, profile, threshold);
+    if (accepted && s.confirmed) tp++;
+    else if (accepted) fp++;
+    else if (s.confirmed) fn++;
+  }
+  return {
+    precision: ratio(tp, tp + fp),
+    recall: ratio(tp, tp + fn),
+    truePositives: tp,
+    falsePositives: fp,
+    falseNegatives: fn,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Proposals
+// ---------------------------------------------------------------------------
+
+/** A single learned rule. */
+export type RuleChange =
+  | { kind: "alias"; from: string; to: string }
+  | { kind: "falsePositiveMarker"; marker: string }
+  | { kind: "scoreAdjustment"; term: string; delta: number };
+
+/** A proposed rule, with how many labeled users back it and its effect. */
+export type RuleProposal = RuleChange & {
+  /** Labeled users the rule was derived from. */
+  support: number;
+  /** Precision / recall with only this rule added. */
+  metrics: RuleMetrics;
+};
+
+export interface RuleProposals {
+  samples: number;
+  baseline: RuleMetrics;
+  /** Precision / recall with every proposal added. */
+  combined: RuleMetrics;
+  proposals: RuleProposal[];
+}
+
+export interface ProposeOptions {
+  /** Score a location needs to be accepted, as minScore in a scrape. Default: 50. */
+  threshold?: number;
+  /** Labeled users needed before a rule is proposed. Default: 2. */
+  minSupport?: number;
+}
+
+/** Shortest word proposed as a false-positive marker. */
+const MIN_MARKER_LENGTH = 4;
+
+/** Add rule changes (e.g. approved proposals) to a copy of `rules`. */
+export function applyProposals(
+  rules: LearnedRules,
+  proposals: RuleChange[]
+): LearnedRules {
+  const next: LearnedRules = {
+    aliases: { ...rules.aliases },
+    falsePositiveMarkers: [...rules.falsePositiveMarkers],
+    scoreAdjustments: { ...rules.scoreAdjustments },
+  };
+  for (const p of proposals) {
+    if (p.kind === "alias") next.aliases[p.from] = p.to;
+    else if (p.kind === "scoreAdjustment") {
+      next.scoreAdjustments[p.term] = p.delta;
+    } else if (!next.falsePositiveMarkers.includes(p.marker)) {
+      next.falsePositiveMarkers.push(p.marker);
+    }
+  }
+  return next;
+}
+
+/**
+ * Propose rules that fix the profile's mistakes on the labeled set:
+ *   • alias — a location confirmed at least `minSupport` times, never
+ *     rejected, that the profile does not accept; mapped to
+ *     "<location>, <country>".
+ *   • falsePositiveMarker — a word in at least `minSupport` rejected
+ *     locations the profile accepts, absent from every confirmed location.
+ *   • scoreAdjustment — a term that is the best match of at least
+ *     `minSupport` labeled users: lowered below the threshold when at most
+ *     half were confirmed, or raised to it when all were but it scores below.
+ */
+export function proposeRules(
+  samples: LabeledLocation[],
+  profile: CountryProfile,
+  { threshold = 50, minSupport = 2 }: ProposeOptions = {}
+): RuleProposals {
+  const country = profile.name.toLowerCase();
+  const scored = samples.map((s) => {
+    const loc = normaliseLocation(s.location, profile);
+    const { match, isLikely } = explainLocation(loc, profile);
+    return { ...s, loc, match, accepted: isLikely && match.score >= threshold };
+  });
+  const confirmedLocs = scored.filter((s) => s.confirmed).map((s) => s.loc);
+  const rejectedLocs = new Set(
+    scored.filter((s) => !s.confirmed).map((s) => s.loc)
+  );
+
+  const found: (RuleChange & { support: number })[] = [];
+
+  // Aliases for confirmed locations the profile misses.
+  const missed = new Map<string, number>();
+  for (const s of scored) {
+    if (s.confirmed && !s.accepted && !rejectedLocs.has(s.loc)) {
+      missed.set(s.loc, (missed.get(s.loc) ?? 0) + 1);
+    }
+  }
+  for (const [loc, support] of missed) {
+    if (
+      support >= minSupport &&
+      !Object.prototype.hasOwnProperty.call(profile.aliases, loc)
+    ) {
+      found.push({ kind: "alias", from: loc, to: `${loc}, ${country}`, support });
+    }
+  }
+
+  // Markers from words shared by rejected locations the profile accepts.
+  const words = new Map<string, number>();
+  for (const s of scored) {
+    if (s.confirmed || !s.accepted) continue;
+    for (const word of new Set(s.loc.split(/[^\p{L}]+/u))) {
+      if (word.length >= MIN_MARKER_LENGTH) {
+        words.set(word, (words.get(word) ?? 0) + 1);
+      }
+    }
+  }
+  for (const [word, support] of words) {
+    if (
+      support >= minSupport &&
+      !profile.falsePositiveMarkers.includes(word) &&
+      !confirmedLocs.some((loc) => loc.includes(word)) &&
+      explainLocation(word, profile).match.score === 0
+    ) {
+      found.push({ kind: "falsePositiveMarker", marker: word, support });
+    }
+  }
+
+  // Score adjustments for terms that mislead or undersell.
+  const byTerm = new Map<
+    string,
+    { confirmed: number; total: number; score: number }
+  >();
+  for (const s of scored) {
+    const term = s.match.matchedTerm;
+    if (!term) continue;
+    const t = byTerm.get(term) ?? { confirmed: 0, total: 0, score: 0 };
+    t.total++;
+    if (s.confirmed) t.confirmed++;
+    t.score = Math.max(t.score, s.match.score);
+    byTerm.set(term, t);
+  }
+  for (const [term, t] of byTerm) {
+    if (t.total < minSupport) continue;
+    const delta =
+      t.confirmed * 2 <= t.total && t.score >= threshold
+        ? threshold - 1 - t.score
+        : t.confirmed === t.total && t.score < threshold
+        ? threshold - t.score
+        : 0;
+    if (delta !== 0) {
+      found.push({ kind: "scoreAdjustment", term, delta, support: t.total });
+    }
+  }
+
+  const proposals: RuleProposal[] = found
+    .map((p) => ({
+      ...p,
+      metrics: evaluateRules(
+        samples,
+        withLearnedRules(profile, applyProposals(emptyRules(), [p])),
+        threshold
+      ),
+    }))
+    .sort((a, b) => b.support - a.support);
+
+  return {
+    samples: samples.length,
+    baseline: evaluateRules(samples, profile, threshold),
+    combined: evaluateRules(
+      samples,
+      withLearnedRules(profile, applyProposals(emptyRules(), proposals)),
+      threshold
+    ),
+    proposals,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Labeled set
+// ---------------------------------------------------------------------------
+
+/**
+ * Confirmed and rejected users of `country` with their location, taken from
+ * the newest stored run that contains each of them.
+ */
+export async function collectLabeledLocations(
+  store: RunStore,
+  country: string
+): Promise<LabeledLocation[]> {
+  const pending = new Map(
+    (await store.listReviews())
+      .filter((r) => r.state === "confirmed" || r.state === "rejected")
+      .map((r) => [r.login, r.state === "confirmed"])
+  );
+  const samples: LabeledLocation[] = [];
+
+  for (const summary of await store.list()) {
+    if (pending.size === 0) break;
+    if (summary.request.country !== country) continue;
+    const run = await store.get(summary.runId);
+    for (const user of run?.users ?? []) {
+      const confirmed = pending.get(user.login);
+      if (confirmed === undefined) continue;
+      pending.delete(user.login);
+      if (user.location) {
+        samples.push({ login: user.login, location: user.location, confirmed });
+      }
+    }
+  }
+  return samples;
+}
+
+// ---------------------------------------------------------------------------
+// Rules file
+// ---------------------------------------------------------------------------
+
+export function getRulesPath(): string {
+  return process.env.RULES_FILE ?? path.join(process.cwd(), ".data", "rules.json");
+}
+
+/** Read the rules file; a missing file has no rules. */
+export async function loadRules(file: string = getRulesPath()): Promise<RulesFile> {
+  try {
+    return JSON.parse(await fs.readFile(file, "utf8")) as RulesFile;
+  } catch (err) {
+    if (isMissing(err)) return {};
+    throw err;
+  }
+}
+
+/** Write the rules file, and make its rules the defaults of ./normalize. */
+export async function saveRules(
+  rules: RulesFile,
+  file: string = getRulesPath()
+): Promise<void> {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await writeJsonAtomic(file, rules, true);
+  for (const [id, learned] of Object.entries(rules)) {
+    const profile = getCountryProfile(id);
+    if (profile) setActiveProfile(withLearnedRules(profile, learned));
+  }
+}
+
+/**
+ * getCountryProfile with the country's learned rules merged in, which also
+ * becomes the country's default in ./normalize.
+ */
+export async function loadCountryProfile(
+  id: string | null | undefined,
+  file: string = getRulesPath()
+): Promise<CountryProfile | null> {
+  const profile = getCountryProfile(id);
+  if (!profile) return null;
+  const merged = withLearnedRules(profile, (await loadRules(file))[profile.id]);
+  setActiveProfile(merged);
+  return merged;
+}
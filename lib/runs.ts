@@ -0,0 +1,530 @@
+/**
+ * Run storage — persists each finished scrape run so exports and run history
+ * survive restarts, redeploys and multiple server instances.
+ *
+ * Two implementations share the RunStore interface:
+ *   • createFileRunStore   – one JSON metadata file plus one users file per run
+ *   • createMemoryRunStore – process-local Map (default under NODE_ENV=test)
+ *
+ * The active store is chosen by the RUN_STORE env var ("file" | "memory") and
+ * the file store writes to RUN_STORE_DIR (default: .data/runs).
+ *
+ * The store also keeps manual reviews (see ./reviews), keyed by login and
+ * shared by all runs, and the checkpoints of runs still in progress (see
+ * ScrapeCheckpoint in ./github) so an interrupted run can be resumed,
+ * each run's CRM push statuses (see ./push) and the webhook delivery log
+ * (see ./webhooks).
+ */
+
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { isMissing, writeJsonAtomic } from "./files";
+import { ScrapeRequest, ScrapeResponse, UgandaUser } from "./types/user";
+import type { LocationMatch, ScoreReason } from "./normalize";
+import type { SignalName } from "./signals";
+import type { Review } from "./reviews";
+import type { ScrapeCheckpoint, ScrapeResult } from "./github";
+import type { PushRecord } from "./push";
+import type { WebhookDelivery } from "./webhooks";
+
+export interface StoredRun {
+  runId: string;
+  request: ScrapeRequest;
+  stats: ScrapeResponse["stats"];
+  /** ISO timestamp when the run started. */
+  createdAt: string;
+  /** ISO timestamp when the run finished. */
+  completedAt: string;
+  users: UgandaUser[];
+}
+
+/** A stored run without its users, as returned by RunStore.list. */
+export type RunSummary = Omit<StoredRun, "users">;
+
+/** Progress of an unfinished run, saved while it runs. */
+export interface StoredCheckpoint {
+  runId: string;
+  request: ScrapeRequest;
+  /** ISO timestamp when the run first started. */
+  createdAt: string;
+  /** ISO timestamp of the last save. */
+  updatedAt: string;
+  state: ScrapeCheckpoint;
+}
+
+/** A checkpoint without its state, as returned by RunStore.listCheckpoints. */
+export type CheckpointSummary = Omit<StoredCheckpoint, "state">;
+
+export interface RunStore {
+  save(run: StoredRun): Promise<void>;
+  get(runId: string): Promise<StoredRun | null>;
+  /** All runs, newest first. */
+  list(): Promise<RunSummary[]>;
+  /** Returns false when the run does not exist. */
+  delete(runId: string): Promise<boolean>;
+  /** Every review saved so far, across runs. */
+  listReviews(): Promise<Review[]>;
+  /** Create or replace the review of `review.login`. */
+  saveReview(review: Review): Promise<void>;
+  /** Create or replace the checkpoint of `checkpoint.runId`. */
+  saveCheckpoint(checkpoint: StoredCheckpoint): Promise<void>;
+  getCheckpoint(runId: string): Promise<StoredCheckpoint | null>;
+  /** Checkpoints of unfinished runs, newest first. */
+  listCheckpoints(): Promise<CheckpointSummary[]>;
+  deleteCheckpoint(runId: string): Promise<void>;
+  /** Push statuses of a run's users, one per target and login. */
+  listPushes(runId: string): Promise<PushRecord[]>;
+  /** Create or replace push statuses, keyed by target and login. */
+  savePushes(runId: string, records: PushRecord[]): Promise<void>;
+  /** Create or replace a delivery, keeping the newest MAX_DELIVERIES. */
+  saveDelivery(delivery: WebhookDelivery): Promise<void>;
+  /** Logged webhook deliveries, newest first. */
+  listDeliveries(): Promise<WebhookDelivery[]>;
+}
+
+/** Webhook deliveries kept in the log; older ones are dropped. */
+export const MAX_DELIVERIES = 500;
+
+/** A new run id: creation time plus a random suffix, safe as a file name. */
+export function createRunId(): string {
+  return `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/** The run to save for a finished scrapeUsers call started at `createdAt`. */
+export function buildStoredRun(
+  runId: string,
+  request: ScrapeRequest,
+  { users, missingLogins, tokenPool, ...counts }: ScrapeResult,
+  createdAt: Date
+): StoredRun {
+  return {
+    runId,
+    request,
+    stats: {
+      ...counts,
+      keptAfterFilter: users.length,
+      missingLogins,
+      tokenPool,
+    },
+    createdAt: createdAt.toISOString(),
+    completedAt: new Date().toISOString(),
+    users,
+  };
+}
+
+/** A user as written by older versions, which lacked some scoring fields. */
+type LegacyUser = Omit<
+  UgandaUser,
+  "confidenceScore" | "locationMatch" | "signalScores" | "scoreReasons"
+> & {
+  confidenceScore?: number;
+  locationMatch?: LocationMatch;
+  signalScores?: UgandaUser["signalScores"];
+  scoreReasons?: (ScoreReason & { signal?: SignalName })[];
+};
+
+/**
+ * Older runs scored the location only: users had a bare `confidenceScore`,
+ * later a `locationMatch` and location-only reasons. Fill in the newer fields
+ * so those runs still load.
+ */
+function upgradeUsers(users: LegacyUser[]): UgandaUser[] {
+  return users.map((user) => {
+    const score = user.confidenceScore ?? user.locationMatch?.score ?? 0;
+    return {
+      ...user,
+      confidenceScore: score,
+      locationMatch: user.locationMatch ?? {
+        district: null,
+        region: null,
+        matchedTerm: null,
+        matchType: score > 0 ? "exact" : "none",
+        score,
+      },
+      signalScores: user.signalScores ?? (score > 0 ? { location: score } : {}),
+      scoreReasons: (user.scoreReasons ?? []).map((r) => ({
+        ...r,
+        signal: r.signal ?? "location",
+      })),
+    };
+  });
+}
+
+function summarise(run: StoredRun): RunSummary {
+  const { users: _users, ...summary } = run;
+  return summary;
+}
+
+const pushKey = (record: PushRecord) => `${record.target}:${record.login}`;
+
+/** Add or replace `delivery`, newest first, capped at MAX_DELIVERIES. */
+function logDelivery(
+  log: WebhookDelivery[],
+  delivery: WebhookDelivery
+): WebhookDelivery[] {
+  return [delivery, ...log.filter((d) => d.id !== delivery.id)]
+    .sort(newestFirst)
+    .slice(0, MAX_DELIVERIES);
+}
+
+function newestFirst(
+  a: { createdAt: string },
+  b: { createdAt: string }
+): number {
+  return b.createdAt.localeCompare(a.createdAt);
+}
+
+// ---------------------------------------------------------------------------
+// In-memory store
+// ---------------------------------------------------------------------------
+
+export function createMemoryRunStore(): RunStore {
+  const runs = new Map<string, StoredRun>();
+  const reviews = new Map<string, Review>();
+  const checkpoints = new Map<string, StoredCheckpoint>();
+  const pushes = new Map<string, Map<string, PushRecord>>();
+  let deliveries: WebhookDelivery[] = [];
+
+  return {
+    async save(run) {
+      runs.set(run.runId, run);
+    },
+    async get(runId) {
+      return runs.get(runId) ?? null;
+    },
+    async list() {
+      return [...runs.values()].map(summarise).sort(newestFirst);
+    },
+    async delete(runId) {
+      pushes.delete(runId);
+      return runs.delete(runId);
+    },
+    async listReviews() {
+      return [...reviews.values()];
+    },
+    async saveReview(review) {
+      reviews.set(review.login, review);
+    },
+    async saveCheckpoint(checkpoint) {
+      // The pipeline keeps updating its state, so store a snapshot.
+      checkpoints.set(checkpoint.runId, structuredClone(checkpoint));
+    },
+    async getCheckpoint(runId) {
+      const checkpoint = checkpoints.get(runId);
+      return checkpoint ? structuredClone(checkpoint) : null;
+    },
+    async listCheckpoints() {
+      return [...checkpoints.values()]
+        .map(({ state: _state, ...summary }) => summary)
+        .sort(newestFirst);
+    },
+    async deleteCheckpoint(runId) {
+      checkpoints.delete(runId);
+    },
+    async listPushes(runId) {
+      return [...(pushes.get(runId)?.values() ?? [])];
+    },
+    async savePushes(runId, records) {
+      const byKey = pushes.get(runId) ?? new Map<string, PushRecord>();
+      for (const record of records) byKey.set(pushKey(record), record);
+      pushes.set(runId, byKey);
+    },
+    async saveDelivery(delivery) {
+      deliveries = logDelivery(deliveries, structuredClone(delivery));
+    },
+    async listDeliveries() {
+      return structuredClone(deliveries);
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// File-system store
+// ---------------------------------------------------------------------------
+
+/** Run ids become file names, so only allow a safe character set. */
+const RUN_ID_RE = /^[\w-]+$/;
+
+export function createFileRunStore(dir: string): RunStore {
+  const metaPath = (runId: string) => path.join(dir, `${runId}.meta.json`);
+  const usersPath = (runId: string) => path.join(dir, `${runId}.users.json`);
+  const reviewsPath = path.join(dir, "reviews.json");
+  const checkpointPath = (runId: string) =>
+    path.join(dir, `${runId}.checkpoint.json`);
+  const pushesPath = (runId: string) => path.join(dir, `${runId}.pushes.json`);
+  const deliveriesPath = path.join(dir, "deliveries.json");
+
+  async function readReviews(): Promise<Record<string, Review>> {
+    try {
+      return JSON.parse(await fs.readFile(reviewsPath, "utf8"));
+    } catch (err) {
+      if (isMissing(err)) return {};
+      throw err;
+    }
+  }
+
+  async function readPushes(runId: string): Promise<Record<string, PushRecord>> {
+    try {
+      return JSON.parse(await fs.readFile(pushesPath(runId), "utf8"));
+    } catch (err) {
+      if (isMissing(err)) return {};
+      throw err;
+    }
+  }
+
+  async function readDeliveries(): Promise<WebhookDelivery[]> {
+    try {
+      return JSON.parse(await fs.readFile(deliveriesPath, "utf8"));
+    } catch (err) {
+      if (isMissing(err)) return [];
+      throw err;
+    }
+  }
+
+  // Reviews live in one file, so saves are serialised to avoid lost updates.
+  let reviewWrites: Promise<void> = Promise.resolve();
+  // Likewise the pushes file of each run and the delivery log.
+  let pushWrites: Promise<void> = Promise.resolve();
+  let deliveryWrites: Promise<void> = Promise.resolve();
+
+  return {
+    async save(run) {
+      if (!RUN_ID_RE.test(run.runId)) {
+        throw new Error(`Invalid runId: ${run.runId}`);
+      }
+      await fs.mkdir(dir, { recursive: true });
+      // Users first: a run is only listed once its metadata file exists.
+      await writeJsonAtomic(usersPath(run.runId), run.users);
+      await writeJsonAtomic(metaPath(run.runId), summarise(run));
+    },
+
+    async get(runId) {
+      if (!RUN_ID_RE.test(runId)) return null;
+      try {
+        const [meta, users] = await Promise.all([
+          fs.readFile(metaPath(runId), "utf8"),
+          fs.readFile(usersPath(runId), "utf8"),
+        ]);
+        return {
+          ...(JSON.parse(meta) as RunSummary),
+          users: upgradeUsers(JSON.parse(users)),
+        };
+      } catch (err) {
+        if (isMissing(err)) return null;
+        throw err;
+      }
+    },
+
+    async list() {
+      let files: string[];
+      try {
+        files = await fs.readdir(dir);
+      } catch (err) {
+        if (isMissing(err)) return [];
+        throw err;
+      }
+      const summaries = await Promise.all(
+        files
+          .filter((f) => f.endsWith(".meta.json"))
+          .map(async (f) =>
+            JSON.parse(await fs.readFile(path.join(dir, f), "utf8")) as RunSummary
+          )
+      );
+      return summaries.sort(newestFirst);
+    },
+
+    async delete(runId) {
+      if (!RUN_ID_RE.test(runId)) return false;
+      try {
+        await fs.unlink(metaPath(runId));
+      } catch (err) {
+        if (isMissing(err)) return false;
+        throw err;
+      }
+      await fs.rm(usersPath(runId), { force: true });
+      await fs.rm(pushesPath(runId), { force: true });
+      return true;
+    },
+
+    async listReviews() {
+      await reviewWrites;
+      return Object.values(await readReviews());
+    },
+
+    async saveReview(review) {
+      const write = reviewWrites.then(async () => {
+        const reviews = await readReviews();
+        reviews[review.login] = review;
+        await fs.mkdir(dir, { recursive: true });
+        await writeJsonAtomic(reviewsPath, reviews);
+      });
+      // Keep the chain alive after a failed write; the caller still sees it.
+      reviewWrites = write.catch(() => undefined);
+      return write;
+    },
+
+    async saveCheckpoint(checkpoint) {
+      if (!RUN_ID_RE.test(checkpoint.runId)) {
+        throw new Error(`Invalid runId: ${checkpoint.runId}`);
+      }
+      await fs.mkdir(dir, { recursive: true });
+      await writeJsonAtomic(checkpointPath(checkpoint.runId), checkpoint);
+    },
+
+    async getCheckpoint(runId) {
+      if (!RUN_ID_RE.test(runId)) return null;
+      try {
+        return JSON.parse(await fs.readFile(checkpointPath(runId), "utf8"));
+      } catch (err) {
+        if (isMissing(err)) return null;
+        throw err;
+      }
+    },
+
+    async listCheckpoints() {
+      let files: string[];
+      try {
+        files = await fs.readdir(dir);
+      } catch (err) {
+        if (isMissing(err)) return [];
+        throw err;
+      }
+      const summaries = await Promise.all(
+        files
+          .filter((f) => f.endsWith(".checkpoint.json"))
+          .map(async (f) => {
+            const { state: _state, ...summary } = JSON.parse(
+              await fs.readFile(path.join(dir, f), "utf8")
+            ) as StoredCheckpoint;
+            return summary;
+          })
+      );
+      return summaries.sort(newestFirst);
+    },
+
+    async deleteCheckpoint(runId) {
+      if (!RUN_ID_RE.test(runId)) return;
+      await fs.rm(checkpointPath(runId), { force: true });
+    },
+
+    async listPushes(runId) {
+      if (!RUN_ID_RE.test(runId)) return [];
+      await pushWrites;
+      return Object.values(await readPushes(runId));
+    },
+
+    async savePushes(runId, records) {
+      if (!RUN_ID_RE.test(runId)) throw new Error(`Invalid runId: ${runId}`);
+      const write = pushWrites.then(async () => {
+        const pushes = await readPushes(runId);
+        for (const record of records) pushes[pushKey(record)] = record;
+        await fs.mkdir(dir, { recursive: true });
+        await writeJsonAtomic(pushesPath(runId), pushes);
+      });
+      pushWrites = write.catch(() => undefined);
+      return write;
+    },
+
+    async saveDelivery(delivery) {
+      const write = deliveryWrites.then(async () => {
+        const log = logDelivery(await readDeliveries(), delivery);
+        await fs.mkdir(dir, { recursive: true });
+        await writeJsonAtomic(deliveriesPath, log);
+      });
+      deliveryWrites = write.catch(() => undefined);
+      return write;
+    },
+
+    async listDeliveries() {
+      await deliveryWrites;
+      return readDeliveries();
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Checkpoint writer
+// ---------------------------------------------------------------------------
+
+/** Minimum time between two checkpoint saves of the same run (ms). */
+export const CHECKPOINT_INTERVAL_MS = 2000;
+
+export interface CheckpointWriter {
+  /** Record the latest state; saved within `intervalMs`. */
+  update(state: ScrapeCheckpoint): void;
+  /** Save the latest state now, e.g. when the run fails or is cancelled. */
+  flush(): Promise<void>;
+  /** Drop the checkpoint once the run has been saved. */
+  clear(): Promise<void>;
+}
+
+/**
+ * Save a running scrape's checkpoints to `store`, at most once per
+ * `intervalMs`, so a crash or timeout loses at most that much work.
+ */
+export function createCheckpointWriter(
+  store: RunStore,
+  run: Omit<StoredCheckpoint, "updatedAt" | "state">,
+  intervalMs = CHECKPOINT_INTERVAL_MS
+): CheckpointWriter {
+  let latest: ScrapeCheckpoint | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let lastWrite = 0;
+  let writes: Promise<void> = Promise.resolve();
+
+  function write(): Promise<void> {
+    if (timer) clearTimeout(timer);
+    timer = null;
+    const state = latest;
+    latest = null;
+    if (state) {
+      lastWrite = Date.now();
+      writes = writes.then(() =>
+        store
+          .saveCheckpoint({ ...run, updatedAt: new Date().toISOString(), state })
+          // A failed save is retried with the next update.
+          .catch(() => undefined)
+      );
+    }
+    return writes;
+  }
+
+  return {
+    update(state) {
+      latest = state;
+      if (timer) return;
+      timer = setTimeout(write, Math.max(0, lastWrite + intervalMs - Date.now()));
+      timer.unref?.();
+    },
+    flush: write,
+    async clear() {
+      if (timer) clearTimeout(timer);
+      timer = null;
+      latest = null;
+      await writes;
+      await store.deleteCheckpoint(run.runId);
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Active store
+// ---------------------------------------------------------------------------
+
+let activeStore: RunStore | null = null;
+
+/** Return the process-wide run store, creating it from env on first use. */
+export function getRunStore(): RunStore {
+  if (!activeStore) {
+    const kind =
+      process.env.RUN_STORE ??
+      (process.env.NODE_ENV === "test" ? "memory" : "file");
+    activeStore =
+      kind === "memory"
+        ? createMemoryRunStore()
+        : createFileRunStore(
+            process.env.RUN_STORE_DIR ?? path.join(process.cwd(), ".data", "runs")
+          );
+  }
+  return activeStore;
+}
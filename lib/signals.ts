@@ -0,0 +1,283 @@
+/**
+ * Multi-signal country detection — scores the location field plus bio,
+ * company, blog and email domains, Twitter handle and organisation
+ * membership, and combines them into one confidence score.
+ *
+ * Each signal scores 0 – 100 on its own. Signals are combined as
+ * independent evidence: 100 × (1 − Π (1 − weight × score / 100)), so a
+ * single strong signal at weight 1 gives 100, and weaker signals reinforce
+ * each other without exceeding it.
+ */
+
+import { CountryProfile } from "./countries";
+import {
+  LocationMatch,
+  ScoreReason,
+  explainLocation,
+  formatScoreReason,
+  normaliseLocation,
+} from "./normalize";
+
+export type SignalName =
+  | "location"
+  | "bio"
+  | "company"
+  | "blog"
+  | "email"
+  | "twitter"
+  | "org";
+
+export const SIGNAL_NAMES: SignalName[] = [
+  "location",
+  "bio",
+  "company",
+  "blog",
+  "email",
+  "twitter",
+  "org",
+];
+
+/** How much each signal counts, 0 (ignored) to 1 (as strong as its score). */
+export type SignalWeights = Record<SignalName, number>;
+
+export const DEFAULT_SIGNAL_WEIGHTS: SignalWeights = {
+  location: 1,
+  bio: 0.8,
+  company: 0.7,
+  blog: 0.7,
+  email: 0.7,
+  twitter: 0.4,
+  org: 0.8,
+};
+
+/** A score reason tagged with the profile field it came from. */
+export type SignalReason = ScoreReason & { signal: SignalName };
+
+/** A public organisation membership, as returned by `/users/:login/orgs`. */
+export interface OrgInfo {
+  login: string;
+  name?: string | null;
+  description?: string | null;
+}
+
+/** Profile fields read by the signals. */
+export interface SignalProfile {
+  location: string | null;
+  bio: string | null;
+  company: string | null;
+  blog: string | null;
+  email: string | null;
+  twitter_username: string | null;
+  /** Public organisations; undefined when they were not looked up. */
+  orgs?: OrgInfo[];
+}
+
+export interface SignalResult {
+  /** Combined score, 0 – 100. */
+  confidenceScore: number;
+  locationMatch: LocationMatch;
+  /** False when nothing matched or a false-positive marker vetoed the location. */
+  isLikely: boolean;
+  /** Non-zero signal scores. */
+  signalScores: Partial<Record<SignalName, number>>;
+  reasons: SignalReason[];
+}
+
+/** Score for a known organisation named in free text (bio / company). */
+const ORG_MENTION_SCORE = 90;
+
+/**
+ * Free-text fields only count place names of six or more letters, so a bio
+ * mentioning "Kira" or "Lira" does not read as a Ugandan town.
+ */
+const MIN_FREE_TEXT_TERM = 6;
+
+/** Clamp weights to 0 – 1 and fill in defaults. */
+export function resolveSignalWeights(
+  weights: Partial<SignalWeights> = {}
+): SignalWeights {
+  const resolved = { ...DEFAULT_SIGNAL_WEIGHTS };
+  for (const name of SIGNAL_NAMES) {
+    const w = Number(weights[name] ?? resolved[name]);
+    resolved[name] = Number.isFinite(w) ? Math.min(Math.max(w, 0), 1) : 0;
+  }
+  return resolved;
+}
+
+/** Combine per-signal scores into one 0 – 100 score. */
+export function combineSignals(
+  scores: Partial<Record<SignalName, number>>,
+  weights: SignalWeights = DEFAULT_SIGNAL_WEIGHTS
+): number {
+  let miss = 1;
+  for (const name of SIGNAL_NAMES) {
+    miss *= 1 - (weights[name] * (scores[name] ?? 0)) / 100;
+  }
+  return Math.round(100 * (1 - miss));
+}
+
+/** Known organisation keywords the text mentions. */
+function orgMentions(text: string, profile: CountryProfile): string[] {
+  const padded = ` ${text.replace(/[^\p{L}\d]+/gu, " ")} `;
+  return (profile.knownOrgs ?? []).filter((org) => padded.includes(` ${org} `));
+}
+
+/** Bio / company: country and place names, plus known organisations. */
+function freeTextReasons(
+  text: string | null,
+  signal: SignalName,
+  profile: CountryProfile
+): SignalReason[] {
+  const norm = normaliseLocation(text, profile);
+  if (!norm) return [];
+
+  const { match, isLikely, reasons } = explainLocation(norm, profile);
+  const tagged: SignalReason[] = reasons
+    .filter(
+      (r) =>
+        r.rule === "country" ||
+        r.rule === "primaryCity" ||
+        r.rule === "falsePositive" ||
+        (r.rule !== "abbreviation" && r.term.length >= MIN_FREE_TEXT_TERM)
+    )
+    .map((r) => ({ ...r, signal }));
+  if (match.score > 0 && !isLikely) {
+    // Vetoed: keep the reasons for display, but the signal scores nothing.
+    return tagged.map((r) => ({ ...r, score: 0 }));
+  }
+
+  for (const org of orgMentions(norm, profile)) {
+    tagged.push({
+      signal,
+      rule: "org",
+      term: org,
+      matchedText: org,
+      fuzzy: false,
+      score: ORG_MENTION_SCORE,
+    });
+  }
+  return tagged;
+}
+
+/** Host name of a URL or bare domain, or null when unparsable. */
+function hostOf(blog: string): string | null {
+  try {
+    return new URL(/^[a-z]+:\/\//i.test(blog) ? blog : `http://${blog}`)
+      .hostname;
+  } catch {
+    return null;
+  }
+}
+
+/** Blog / email: the domain ends in the country's TLD (".ug", ".co.ug", …). */
+function domainReason(
+  domain: string | null | undefined,
+  signal: SignalName,
+  profile: CountryProfile
+): SignalReason[] {
+  if (!domain || !profile.tld) return [];
+  const host = domain.toLowerCase();
+  const tld = `.${profile.tld}`;
+  if (!host.endsWith(tld)) return [];
+  return [
+    {
+      signal,
+      rule: "domain",
+      term: tld,
+      matchedText: host,
+      fuzzy: false,
+      score: 100,
+    },
+  ];
+}
+
+/** Twitter: the handle contains the country name or primary city. */
+function twitterReasons(
+  handle: string | null,
+  profile: CountryProfile
+): SignalReason[] {
+  if (!handle) return [];
+  const h = handle.toLowerCase();
+  const terms: [ScoreReason["rule"], string, number][] = [
+    ["country", profile.name.toLowerCase(), 100],
+    ["primaryCity", profile.primaryCity, 85],
+  ];
+  for (const [rule, term, score] of terms) {
+    if (h.includes(term.replace(/\s+/g, ""))) {
+      return [
+        { signal: "twitter", rule, term, matchedText: handle, fuzzy: false, score },
+      ];
+    }
+  }
+  return [];
+}
+
+/** Org: membership of a known organisation, or one named after the country. */
+function orgReasons(
+  orgs: OrgInfo[] | undefined,
+  profile: CountryProfile
+): SignalReason[] {
+  const reasons: SignalReason[] = [];
+  for (const org of orgs ?? []) {
+    const text = normaliseLocation(
+      [org.login, org.name, org.description].filter(Boolean).join(" "),
+      profile
+    ).replace(/[-_]/g, " ");
+    const known = orgMentions(text, profile)[0];
+    const { match, isLikely } = explainLocation(text, profile);
+    if (known || (isLikely && match.score >= 85)) {
+      reasons.push({
+        signal: "org",
+        rule: "org",
+        term: known ?? match.matchedTerm!,
+        matchedText: org.login,
+        fuzzy: false,
+        score: 100,
+      });
+    }
+  }
+  return reasons;
+}
+
+/** Score every signal of a profile and combine them. */
+export function scoreSignals(
+  user: SignalProfile,
+  profile: CountryProfile,
+  weights: SignalWeights = DEFAULT_SIGNAL_WEIGHTS
+): SignalResult {
+  const location = explainLocation(
+    normaliseLocation(user.location, profile),
+    profile
+  );
+
+  const reasons: SignalReason[] = [
+    ...location.reasons.map((r) => ({ ...r, signal: "location" as const })),
+    ...freeTextReasons(user.bio, "bio", profile),
+    ...freeTextReasons(user.company, "company", profile),
+    ...domainReason(user.blog && hostOf(user.blog), "blog", profile),
+    ...domainReason(user.email?.split("@")[1], "email", profile),
+    ...twitterReasons(user.twitter_username, profile),
+    ...orgReasons(user.orgs, profile),
+  ];
+
+  const signalScores: Partial<Record<SignalName, number>> = {};
+  for (const r of reasons) {
+    if (r.score > (signalScores[r.signal] ?? 0)) signalScores[r.signal] = r.score;
+  }
+
+  const confidenceScore = combineSignals(signalScores, weights);
+  return {
+    confidenceScore,
+    locationMatch: location.match,
+    // A vetoed location keeps its score; the veto only clears isLikely.
+    isLikely:
+      confidenceScore > 0 && (location.match.score === 0 || location.isLikely),
+    signalScores,
+    reasons,
+  };
+}
+
+/** One-line description of a reason, prefixed with its signal. */
+export function formatSignalReason(reason: SignalReason): string {
+  return `${reason.signal}: ${formatScoreReason(reason)}`;
+}
@@ -0,0 +1,198 @@
+/**
+ * GitHub token pool — spreads requests across several personal access
+ * tokens using the rate-limit headers GitHub returns.
+ *
+ * Quota is tracked per token and per resource ("search", "core" and
+ * "graphql" have separate limits). Each request goes to the token with the most remaining
+ * quota for its resource; callers only have to wait when every token is
+ * exhausted.
+ *
+ * Tokens come from GITHUB_TOKENS (comma-separated), falling back to
+ * GITHUB_TOKEN. With neither set the pool holds one anonymous entry.
+ */
+
+export type RateLimitResource = "search" | "core" | "graphql";
+
+export interface ResourceQuota {
+  /** Requests left in the current window, or null before the first response. */
+  remaining: number | null;
+  limit: number | null;
+  /** Epoch ms when the window resets, or null when unknown. */
+  resetAt: number | null;
+}
+
+/** Snapshot of pool state, safe to expose (tokens are masked). */
+export interface TokenPoolStats {
+  tokens: {
+    label: string;
+    requests: number;
+    quotas: Record<RateLimitResource, ResourceQuota>;
+  }[];
+  /** Number of times every token was exhausted and the caller had to wait. */
+  waits: number;
+}
+
+export interface TokenLease {
+  /** Token to send, or null for an anonymous request. */
+  token: string | null;
+  /** How long to wait before sending, when every token is exhausted. */
+  waitMs: number;
+}
+
+export interface TokenPool {
+  readonly size: number;
+  /** Pick the token with the most remaining quota for `resource`. */
+  acquire(resource: RateLimitResource): TokenLease;
+  /** Update quota from a response's x-ratelimit-* headers. */
+  record(
+    token: string | null,
+    resource: RateLimitResource,
+    headers: Headers
+  ): void;
+  /** Mark a token as exhausted for `resource` until `resetAt` (epoch ms). */
+  exhaust(
+    token: string | null,
+    resource: RateLimitResource,
+    resetAt: number
+  ): void;
+  /**
+   * Current pool state. With `since`, request and wait counters are relative
+   * to that earlier snapshot (e.g. to report a single run).
+   */
+  stats(since?: TokenPoolStats): TokenPoolStats;
+}
+
+interface TokenEntry {
+  token: string | null;
+  requests: number;
+  quotas: Record<RateLimitResource, ResourceQuota>;
+}
+
+function emptyQuota(): ResourceQuota {
+  return { remaining: null, limit: null, resetAt: null };
+}
+
+function maskToken(token: string | null): string {
+  return token ? `…${token.slice(-4)}` : "anonymous";
+}
+
+/** Remaining quota as seen now; unknown or past-reset windows count as full. */
+function available(quota: ResourceQuota, now: number): number {
+  if (quota.remaining === null) return Infinity;
+  if (quota.resetAt !== null && quota.resetAt <= now) return Infinity;
+  return quota.remaining;
+}
+
+export function createTokenPool(tokens: string[]): TokenPool {
+  const entries: TokenEntry[] = (tokens.length > 0 ? tokens : [null]).map(
+    (token) => ({
+      token,
+      requests: 0,
+      quotas: {
+        search: emptyQuota(),
+        core: emptyQuota(),
+        graphql: emptyQuota(),
+      },
+    })
+  );
+  let waits = 0;
+
+  const find = (token: string | null) =>
+    entries.find((e) => e.token === token);
+
+  return {
+    size: entries.length,
+
+    acquire(resource) {
+      const now = Date.now();
+      let best = entries[0];
+      for (const entry of entries) {
+        if (
+          available(entry.quotas[resource], now) >
+          available(best.quotas[resource], now)
+        ) {
+          best = entry;
+        }
+      }
+
+      const quota = best.quotas[resource];
+      let waitMs = 0;
+      if (available(quota, now) <= 0) {
+        // Every token is exhausted: wait for the earliest reset.
+        const resets = entries.map((e) => e.quotas[resource].resetAt ?? now);
+        const earliest = Math.min(...resets);
+        best = entries[resets.indexOf(earliest)];
+        waitMs = Math.max(earliest - now, 0) + 1000;
+        waits++;
+      } else if (quota.remaining !== null) {
+        // Optimistically reserve one request so concurrent callers spread out.
+        quota.remaining--;
+      }
+
+      best.requests++;
+      return { token: best.token, waitMs };
+    },
+
+    record(token, resource, headers) {
+      const entry = find(token);
+      if (!entry) return;
+      const remaining = headers.get("x-ratelimit-remaining");
+      if (remaining === null) return;
+      const limit = headers.get("x-ratelimit-limit");
+      const reset = headers.get("x-ratelimit-reset");
+      entry.quotas[resource] = {
+        remaining: Number(remaining),
+        limit: limit === null ? null : Number(limit),
+        resetAt: reset === null ? null : Number(reset) * 1000,
+      };
+    },
+
+    exhaust(token, resource, resetAt) {
+      const entry = find(token);
+      if (!entry) return;
+      entry.quotas[resource] = {
+        ...entry.quotas[resource],
+        remaining: 0,
+        resetAt,
+      };
+    },
+
+    stats(since) {
+      return {
+        tokens: entries.map((e, i) => ({
+          label: maskToken(e.token),
+          requests: e.requests - (since?.tokens[i]?.requests ?? 0),
+          quotas: {
+            search: { ...e.quotas.search },
+            core: { ...e.quotas.core },
+            graphql: { ...e.quotas.graphql },
+          },
+        })),
+        waits: waits - (since?.waits ?? 0),
+      };
+    },
+  };
+}
+
+const splitTokens = (list: string | undefined) =>
+  (list ?? "")
+    .split(",")
+    .map((t) => t.trim())
+    .filter(Boolean);
+
+/**
+ * Read tokens from GITHUB_TOKENS, falling back to GITHUB_TOKEN when it is
+ * unset or holds no tokens (e.g. `GITHUB_TOKENS=` in a .env file).
+ */
+export function tokensFromEnv(): string[] {
+  const tokens = splitTokens(process.env.GITHUB_TOKENS);
+  return tokens.length > 0 ? tokens : splitTokens(process.env.GITHUB_TOKEN);
+}
+
+let activePool: TokenPool | null = null;
+
+/** Return the process-wide token pool, creating it from env on first use. */
+export function getTokenPool(): TokenPool {
+  if (!activePool) activePool = createTokenPool(tokensFromEnv());
+  return activePool;
+}
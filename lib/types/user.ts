@@ -1,3 +1,8 @@
+import type { TokenPoolStats } from "../tokens";
+import type { LocationMatch } from "../normalize";
+import type { SignalName, SignalReason, SignalWeights } from "../signals";
+import type { ReviewState } from "../reviews";
+
 export type UgandaUser = {
   login: string;
   id: number;
@@ -19,28 +24,98 @@ export type UgandaUser = {
   created_at: string;
   updated_at: string;
 
+  // Only filled when profiles are fetched over GraphQL (fetchMode "graphql").
+  pinned_repos?: string[];
+  contributions_last_year?: number;
+  status_message?: string | null;
+
+  // Only filled when repository enrichment is enabled (enrichRepos).
+  /** Top languages by bytes across owned, non-fork repos. */
+  top_languages?: string[];
+  total_stars?: number;
+  total_forks?: number;
+  /** Full name of the most-starred repo. */
+  top_repo?: string | null;
+  last_pushed_at?: string | null;
+
+  // Only filled when activity scoring is enabled (activity / minActivity).
+  /** 0–100, weighted towards the last 30 days (see lib/activity.ts). */
+  activityScore?: number;
+  /** Latest day with public activity. */
+  lastActiveAt?: string | null;
+  contributions_30d?: number;
+  contributions_90d?: number;
+  contributions_365d?: number;
+
+  // Only filled when reviews are merged in (applyReviews in lib/reviews.ts).
+  reviewState?: ReviewState;
+  reviewNote?: string;
+
+  /** Country profile id the user was scored against, e.g. "uganda". */
+  country: string;
+  /** Combined score over every signal, 0 – 100 (see lib/signals.ts). */
   confidenceScore: number;
+  /** Location signal: its score, district and region resolved from `location`. */
+  locationMatch: LocationMatch;
+  /** Non-zero score of each signal before weighting. */
+  signalScores: Partial<Record<SignalName, number>>;
+  /** True when some signal matched `country` and no false-positive marker vetoed the location. */
   isLikelyUganda: boolean;
+  /** Why the user scored as they did, per signal, including any veto. */
+  scoreReasons: SignalReason[];
 
   sourceQueries: string[];
 };
 
 export type ScrapeRequest = {
+  /** Country profile id (see lib/countries.ts); defaults to "uganda". */
+  country: string;
   locations: string[];
+  /** Organisations whose public members and repo contributors are added. */
+  orgs: string[];
   minRepos: number;
   minFollowers: number;
   maxPagesPerQuery: number;
   perPage: number;
   concurrency: number;
   minScore: number;
+  /** Split queries over GitHub's 1,000-result search cap into slices. */
+  partition: boolean;
+  /** Reuse cached profiles checked within this many ms without refetching. */
+  refreshOlderThan: number;
+  /** Fetch profiles one REST call at a time or in GraphQL batches. */
+  fetchMode: "rest" | "graphql";
+  /** Add repository and language stats to each kept user. */
+  enrichRepos: boolean;
+  /** Score each kept user's recent activity. */
+  activity: boolean;
+  /** Drop users whose activity score is below this (implies `activity`). */
+  minActivity: number;
+  /** Weight of each detection signal in `confidenceScore`, 0 – 1. */
+  signalWeights: SignalWeights;
+  /** Levels of follower / following expansion from confident users; 0 = off. */
+  expandDepth: number;
+  /** New logins profiled per expansion level. */
+  expandBudget: number;
+  /** Minimum confidenceScore for a user to seed expansion. */
+  minSeedScore: number;
+};
+
+/** Returned by POST /api/scrape; the job id is also the eventual runId. */
+export type ScrapeJobResponse = {
+  jobId: string;
 };
 
 export type ScrapeResponse = {
   runId: string;
+  country: string;
   stats: {
     totalCandidates: number;
     uniqueUsers: number;
     keptAfterFilter: number;
+    /** Logins whose profile could not be fetched (missing or suspended). */
+    missingLogins: string[];
+    tokenPool: TokenPoolStats;
   };
   users: UgandaUser[];
 };
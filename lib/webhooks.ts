@@ -0,0 +1,315 @@
+/**
+ * Webhook notifications — signed JSON payloads sent to subscribers when a
+ * run completes (`run.completed`) or fails (`run.failed`), and when it finds
+ * logins that the previous run of the same query set did not have
+ * (`users.new`).
+ *
+ * Subscriptions live in WEBHOOKS_FILE (default: .data/webhooks.json), which
+ * can be edited by hand or through /api/webhooks. Each delivery is retried
+ * with backoff and logged to the run store (see RunStore.saveDelivery).
+ * Server-only: it reads and writes the file system.
+ */
+
+import { createHmac, randomBytes, randomUUID } from "node:crypto";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { isMissing, writeJsonAtomic } from "./files";
+import { RunStore, StoredRun } from "./runs";
+import { ScrapeRequest } from "./types/user";
+
+export const WEBHOOK_EVENTS = [
+  "run.completed",
+  "run.failed",
+  "users.new",
+] as const;
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+export interface WebhookSubscription {
+  id: string;
+  url: string;
+  /** HMAC-SHA256 key of the signature header. */
+  secret: string;
+  events: WebhookEvent[];
+  description?: string;
+  /** ISO timestamp. */
+  createdAt: string;
+}
+
+export interface WebhooksFile {
+  subscriptions: WebhookSubscription[];
+}
+
+/** One POST of a delivery. */
+export interface DeliveryAttempt {
+  /** ISO timestamp. */
+  at: string;
+  /** HTTP status, or null when the request itself failed. */
+  status: number | null;
+  error?: string;
+}
+
+export interface WebhookDelivery {
+  /** Also the payload id and the X-Gitfast-Delivery header. */
+  id: string;
+  subscriptionId: string;
+  event: WebhookEvent;
+  url: string;
+  runId: string;
+  status: "pending" | "delivered" | "failed";
+  attempts: DeliveryAttempt[];
+  /** ISO timestamp. */
+  createdAt: string;
+}
+
+export const SIGNATURE_HEADER = "X-Gitfast-Signature";
+
+/** Waits before each retry (ms): up to five attempts over about 2.5 minutes. */
+export const RETRY_DELAYS_MS = [1_000, 5_000, 30_000, 120_000];
+
+/** Per-attempt request timeout (ms). */
+const ATTEMPT_TIMEOUT_MS = 10_000;
+
+export function isWebhookEvent(value: unknown): value is WebhookEvent {
+  return WEBHOOK_EVENTS.includes(value as WebhookEvent);
+}
+
+/** A random secret for subscriptions created without one. */
+export function createWebhookSecret(): string {
+  return randomBytes(24).toString("hex");
+}
+
+/** `sha256=<hex HMAC of body>`, as sent in SIGNATURE_HEADER. */
+export function signPayload(secret: string, body: string): string {
+  return `sha256=${createHmac("sha256", secret).update(body).digest("hex")}`;
+}
+
+// ---------------------------------------------------------------------------
+// Subscriptions file
+// ---------------------------------------------------------------------------
+
+export function getWebhooksPath(): string {
+  return (
+    process.env.WEBHOOKS_FILE ??
+    path.join(process.cwd(), ".data", "webhooks.json")
+  );
+}
+
+/** Read the subscriptions file; a missing file has no subscriptions. */
+export async function loadWebhooks(
+  file: string = getWebhooksPath()
+): Promise<WebhooksFile> {
+  try {
+    const config = JSON.parse(await fs.readFile(file, "utf8")) as WebhooksFile;
+    return { subscriptions: config.subscriptions ?? [] };
+  } catch (err) {
+    if (isMissing(err)) return { subscriptions: [] };
+    throw err;
+  }
+}
+
+/** Write the subscriptions file. */
+export async function saveWebhooks(
+  config: WebhooksFile,
+  file: string = getWebhooksPath()
+): Promise<void> {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await writeJsonAtomic(file, config, true);
+}
+
+// ---------------------------------------------------------------------------
+// Delivery
+// ---------------------------------------------------------------------------
+
+export interface DeliveryOptions {
+  /** Override RETRY_DELAYS_MS (tests). */
+  retryDelays?: number[];
+}
+
+/** Network errors, timeouts, 408, 429 and 5xx are worth retrying. */
+function isRetryable(status: number | null): boolean {
+  return status === null || status === 408 || status === 429 || status >= 500;
+}
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+/**
+ * POST `data` as `event` to one subscriber, retrying with backoff, and log
+ * the delivery to `store` after every attempt.
+ */
+export async function deliverWebhook(
+  store: RunStore,
+  subscription: WebhookSubscription,
+  event: WebhookEvent,
+  runId: string,
+  data: unknown,
+  { retryDelays = RETRY_DELAYS_MS }: DeliveryOptions = {}
+): Promise<WebhookDelivery> {
+  const delivery: WebhookDelivery = {
+    id: randomUUID(),
+    subscriptionId: subscription.id,
+    event,
+    url: subscription.url,
+    runId,
+    status: "pending",
+    attempts: [],
+    createdAt: new Date().toISOString(),
+  };
+  const body = JSON.stringify({
+    id: delivery.id,
+    event,
+    createdAt: delivery.createdAt,
+    data,
+  });
+
+  for (let attempt = 0; ; attempt++) {
+    const at = new Date().toISOString();
+    let status: number | null = null;
+    let error: string | undefined;
+    try {
+      const res = await fetch(subscription.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "gitfast-webhooks",
+          "X-Gitfast-Event": event,
+          "X-Gitfast-Delivery": delivery.id,
+          [SIGNATURE_HEADER]: signPayload(subscription.secret, body),
+        },
+        body,
+        signal: AbortSignal.timeout(ATTEMPT_TIMEOUT_MS),
+      });
+      status = res.status;
+      if (!res.ok) error = `HTTP ${res.status}`;
+      await res.body?.cancel();
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+    }
+    delivery.attempts.push(error ? { at, status, error } : { at, status });
+
+    const done =
+      !error || !isRetryable(status) || attempt >= retryDelays.length;
+    if (done) delivery.status = error ? "failed" : "delivered";
+    await store.saveDelivery(delivery);
+    if (done) return delivery;
+    await sleep(retryDelays[attempt]);
+  }
+}
+
+/** Deliver `event` to every subscription that wants it. */
+async function notify(
+  store: RunStore,
+  event: WebhookEvent,
+  runId: string,
+  data: unknown,
+  options: DeliveryOptions
+): Promise<WebhookDelivery[]> {
+  const { subscriptions } = await loadWebhooks();
+  return Promise.all(
+    subscriptions
+      .filter((s) => s.events.includes(event))
+      .map((s) => deliverWebhook(store, s, event, runId, data, options))
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Run events
+// ---------------------------------------------------------------------------
+
+// Runs saved before organisation discovery have no `orgs`.
+const normalisedTerms = (terms: string[] | undefined) =>
+  (terms ?? []).map((t) => t.trim().toLowerCase()).sort().join("\n");
+
+/** Same country, locations and orgs, ignoring order and case. */
+export function sameQuerySet(a: ScrapeRequest, b: ScrapeRequest): boolean {
+  return (
+    a.country === b.country &&
+    normalisedTerms(a.locations) === normalisedTerms(b.locations) &&
+    normalisedTerms(a.orgs) === normalisedTerms(b.orgs)
+  );
+}
+
+/** The newest run of the same query set started before `run`. */
+export async function findPreviousRun(
+  store: RunStore,
+  run: Pick<StoredRun, "runId" | "request" | "createdAt">
+): Promise<StoredRun | null> {
+  const previous = (await store.list()).find(
+    (r) =>
+      r.runId !== run.runId &&
+      r.createdAt < run.createdAt &&
+      sameQuerySet(r.request, run.request)
+  );
+  return previous ? store.get(previous.runId) : null;
+}
+
+function describeRun(run: Pick<StoredRun, "runId" | "request" | "createdAt">) {
+  return {
+    runId: run.runId,
+    country: run.request.country,
+    locations: run.request.locations,
+    orgs: run.request.orgs,
+    createdAt: run.createdAt,
+  };
+}
+
+/**
+ * Send `run.completed` for a saved run and, when it has logins that the
+ * previous run of the same query set did not, `users.new`. A first run has
+ * nothing to compare with, so it sends no `users.new`.
+ */
+export async function notifyRunCompleted(
+  store: RunStore,
+  run: StoredRun,
+  options: DeliveryOptions = {}
+): Promise<WebhookDelivery[]> {
+  const previous = await findPreviousRun(store, run);
+  const known = new Set(previous?.users.map((u) => u.login.toLowerCase()));
+  const logins = run.users
+    .map((u) => u.login)
+    .filter((login) => !known.has(login.toLowerCase()));
+
+  const completed = notify(
+    store,
+    "run.completed",
+    run.runId,
+    {
+      ...describeRun(run),
+      completedAt: run.completedAt,
+      stats: {
+        totalCandidates: run.stats.totalCandidates,
+        uniqueUsers: run.stats.uniqueUsers,
+        keptAfterFilter: run.stats.keptAfterFilter,
+      },
+    },
+    options
+  );
+  const newUsers =
+    previous && logins.length > 0
+      ? notify(
+          store,
+          "users.new",
+          run.runId,
+          { ...describeRun(run), previousRunId: previous.runId, logins },
+          options
+        )
+      : [];
+
+  return (await Promise.all([completed, newUsers])).flat();
+}
+
+/** Send `run.failed` for a run that stopped with `error`. */
+export async function notifyRunFailed(
+  store: RunStore,
+  run: Pick<StoredRun, "runId" | "request" | "createdAt">,
+  error: string,
+  options: DeliveryOptions = {}
+): Promise<WebhookDelivery[]> {
+  return notify(
+    store,
+    "run.failed",
+    run.runId,
+    { ...describeRun(run), error },
+    options
+  );
+}
@@ -0,0 +1,15 @@
+/**
+ * CLI entry point — see lib/cli.ts for commands and options.
+ *
+ * Usage:
+ *   npm run cli -- scrape --locations Kampala,Gulu --min-score 70
+ *   npm run cli -- runs
+ */
+
+import "dotenv/config";
+import { runCli } from "../lib/cli";
+
+const controller = new AbortController();
+process.once("SIGINT", () => controller.abort());
+
+process.exitCode = await runCli(process.argv.slice(2), undefined, controller.signal);
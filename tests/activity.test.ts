@@ -0,0 +1,64 @@
+/**
+ * Tests for lib/activity.ts — contribution windows and activity score.
+ */
+
+import { summariseActivity } from "../lib/activity.ts";
+
+const NOW = Date.parse("2024-07-01T00:00:00Z");
+
+function daysAgo(n: number): string {
+  return new Date(NOW - n * 24 * 60 * 60 * 1000).toISOString();
+}
+
+describe("summariseActivity", () => {
+  test("totals contributions per window and finds the last active day", () => {
+    const summary = summariseActivity(
+      [
+        { date: daysAgo(5), count: 4 },
+        { date: daysAgo(60), count: 6 },
+        { date: daysAgo(200), count: 10 },
+        { date: daysAgo(400), count: 50 },
+      ],
+      NOW
+    );
+
+    expect(summary).toMatchObject({
+      contributions_30d: 4,
+      contributions_90d: 10,
+      contributions_365d: 20,
+      lastActiveAt: daysAgo(5),
+    });
+  });
+
+  test("saturates each window at its full weight", () => {
+    const busy = Array.from({ length: 30 }, (_, i) => ({
+      date: daysAgo(i),
+      count: 5,
+    }));
+    expect(summariseActivity(busy, NOW).activityScore).toBe(100);
+  });
+
+  test("weights recent activity above older activity", () => {
+    const recent = summariseActivity([{ date: daysAgo(3), count: 5 }], NOW);
+    const old = summariseActivity([{ date: daysAgo(300), count: 5 }], NOW);
+    expect(recent.activityScore).toBeGreaterThan(old.activityScore);
+  });
+
+  test("scores dormant accounts zero and ignores empty or future days", () => {
+    expect(
+      summariseActivity(
+        [
+          { date: daysAgo(10), count: 0 },
+          { date: daysAgo(-3), count: 8 },
+        ],
+        NOW
+      )
+    ).toEqual({
+      contributions_30d: 0,
+      contributions_90d: 0,
+      contributions_365d: 0,
+      lastActiveAt: null,
+      activityScore: 0,
+    });
+  });
+});
@@ -0,0 +1,215 @@
+/**
+ * Tests for lib/cli.ts — argument parsing and the scrape / export / diff /
+ * runs commands against a fake GitHub API and the in-memory run store.
+ */
+
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { parseCliArgs, runCli } from "../lib/cli.ts";
+import { getRunStore } from "../lib/runs.ts";
+
+describe("parseCliArgs", () => {
+  test("parses scrape flags, leaving unset ones to the request defaults", () => {
+    expect(
+      parseCliArgs([
+        "scrape",
+        "--locations",
+        "Kampala, Gulu",
+        "--locations",
+        "Jinja",
+        "--min-repos",
+        "5",
+        "--min-score",
+        "70",
+        "--format",
+        "json",
+        "--out-dir",
+        "out",
+      ])
+    ).toEqual({
+      command: "scrape",
+      request: { locations: ["Kampala", "Gulu", "Jinja"], minRepos: 5, minScore: 70 },
+      save: true,
+      format: "json",
+      outDir: "out",
+    });
+  });
+
+  test("parses export, diff and runs", () => {
+    expect(parseCliArgs(["export", "run-1", "--no-save"])).toMatchObject({
+      command: "export",
+      runId: "run-1",
+      format: "both",
+    });
+    expect(parseCliArgs(["diff", "a", "b"])).toMatchObject({
+      command: "diff",
+      from: "a",
+      to: "b",
+      format: "csv",
+    });
+    expect(parseCliArgs(["runs"])).toEqual({ command: "runs" });
+    expect(parseCliArgs([])).toEqual({ command: "help" });
+  });
+
+  test("rejects invalid usage", () => {
+    expect(() => parseCliArgs(["scrape", "--min-repos", "many"])).toThrow(
+      "--min-repos must be a number"
+    );
+    expect(() => parseCliArgs(["scrape", "--format", "xml"])).toThrow("--format");
+    expect(() => parseCliArgs(["export"])).toThrow("export expects a runId");
+    expect(() => parseCliArgs(["deploy"])).toThrow("Unknown command: deploy");
+    expect(() => parseCliArgs(["runs", "--verbose"])).toThrow();
+  });
+});
+
+describe("runCli", () => {
+  const realFetch = global.fetch;
+  let outDir: string;
+  let logs: string[];
+  const io = {
+    log: (message: string) => logs.push(message),
+    error: () => {},
+  };
+
+  beforeEach(async () => {
+    outDir = await fs.mkdtemp(path.join(os.tmpdir(), "gitfast-cli-"));
+    process.env.RULES_FILE = path.join(outDir, "rules.json");
+    logs = [];
+  });
+  afterEach(() => {
+    global.fetch = realFetch;
+    delete process.env.RULES_FILE;
+  });
+
+  function fakeApi(location: string): typeof fetch {
+    const profile = {
+      login: "alice",
+      id: 1,
+      avatar_url: "",
+      html_url: "https://github.com/alice",
+      name: "Alice",
+      location,
+      bio: null,
+      company: null,
+      blog: null,
+      twitter_username: null,
+      email: null,
+      followers: 10,
+      following: 1,
+      public_repos: 3,
+      created_at: "2015-01-01T00:00:00Z",
+      updated_at: "2024-01-01T00:00:00Z",
+    };
+    return (async (input: RequestInfo | URL) => {
+      const url = new URL(String(input));
+      if (url.pathname === "/search/users") {
+        return new Response(JSON.stringify({ total_count: 1, items: [profile] }));
+      }
+      return new Response(JSON.stringify(profile));
+    }) as typeof fetch;
+  }
+
+  test("scrape saves the run and writes the web app's user records", async () => {
+    global.fetch = fakeApi("Kampala, Uganda");
+    const code = await runCli(
+      ["scrape", "--locations", "Kampala", "--max-pages", "1", "--out-dir", outDir],
+      io
+    );
+    expect(code).toBe(0);
+
+    const [run] = await getRunStore().list();
+    expect(logs).toContain(`Saved run ${run.runId}`);
+    expect(run.request).toMatchObject({ country: "uganda", locations: ["Kampala"] });
+
+    const users = JSON.parse(
+      await fs.readFile(path.join(outDir, "uganda_github_users.json"), "utf8")
+    );
+    expect(users).toEqual((await getRunStore().get(run.runId))!.users);
+    expect(users[0]).toMatchObject({
+      login: "alice",
+      sourceQueries: ['location:"Kampala"'],
+    });
+    expect(users[0].confidenceScore).toBeGreaterThan(50);
+    await expect(
+      fs.readFile(path.join(outDir, "uganda_github_users.csv"), "utf8")
+    ).resolves.toMatch(/^login,/);
+  });
+
+  test("export, diff and runs read stored runs", async () => {
+    const scrape = async (location: string, ...args: string[]) => {
+      global.fetch = fakeApi(location);
+      await runCli(
+        [
+          "scrape",
+          ...["--locations", "Kampala", "--max-pages", "1", "--format", "json"],
+          ...["--out-dir", outDir, ...args],
+        ],
+        io
+      );
+      return logs.find((l) => l.startsWith("Saved run"))!.slice("Saved run ".length);
+    };
+    const older = { runId: await scrape("Kampala, Uganda") };
+    logs = [];
+    const newer = { runId: await scrape("Nairobi, Kenya", "--min-score", "0") };
+
+    logs = [];
+    await expect(runCli(["runs"], io)).resolves.toBe(0);
+    expect(logs.join("\n")).toContain(newer.runId);
+
+    await expect(
+      runCli(["export", older.runId, "--format", "csv", "--out-dir", outDir], io)
+    ).resolves.toBe(0);
+    const csv = await fs.readFile(path.join(outDir, "uganda_github_users.csv"), "utf8");
+    expect(csv).toContain("unreviewed");
+
+    logs = [];
+    await expect(
+      runCli(["diff", older.runId, newer.runId, "--out-dir", outDir], io)
+    ).resolves.toBe(0);
+    expect(logs[0]).toBe("0 added, 0 removed, 1 moved out, 1 changed");
+
+    await expect(runCli(["export", "missing"], io)).resolves.toBe(1);
+    await expect(runCli(["export"], io)).resolves.toBe(2);
+  });
+
+  test("resume finishes an interrupted scrape without repeating requests", async () => {
+    const controller = new AbortController();
+    let requests: string[] = [];
+    let interrupt = true;
+    global.fetch = (async (input: RequestInfo | URL) => {
+      const url = new URL(String(input));
+      requests.push(url.pathname);
+      if (url.pathname === "/search/users") {
+        const items = [{ login: "alice" }, { login: "bob" }];
+        return new Response(JSON.stringify({ total_count: 2, items }));
+      }
+      const login = url.pathname.split("/")[2];
+      if (login === "bob" && interrupt) {
+        controller.abort();
+        return new Response("", { status: 500 });
+      }
+      return new Response(
+        JSON.stringify({ login, id: login.length, location: "Kampala, Uganda" })
+      );
+    }) as typeof fetch;
+
+    const args = ["--locations", "Kampala", "--max-pages", "1", "--out-dir", outDir];
+    await expect(
+      runCli(["scrape", "--concurrency", "1", ...args], io, controller.signal)
+    ).resolves.toBe(1);
+    const [checkpoint] = await getRunStore().listCheckpoints();
+    await runCli(["runs"], io);
+    expect(logs.join("\n")).toContain(`${checkpoint.runId}\t`);
+
+    requests = [];
+    interrupt = false;
+    await expect(
+      runCli(["resume", checkpoint.runId, "--out-dir", outDir], io)
+    ).resolves.toBe(0);
+    expect(requests).toEqual(["/users/bob"]);
+    const run = await getRunStore().get(checkpoint.runId);
+    expect(run?.users.map((u) => u.login).sort()).toEqual(["alice", "bob"]);
+    await expect(getRunStore().getCheckpoint(checkpoint.runId)).resolves.toBeNull();
+  });
+});
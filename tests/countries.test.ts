@@ -0,0 +1,37 @@
+/**
+ * Tests for lib/countries.ts — country profile registry.
+ */
+
+import {
+  COUNTRY_PROFILES,
+  DEFAULT_COUNTRY,
+  getCountryProfile,
+} from "../lib/countries.ts";
+
+describe("getCountryProfile", () => {
+  test("returns the default profile when no id is given", () => {
+    expect(getCountryProfile(undefined)?.id).toBe(DEFAULT_COUNTRY);
+    expect(getCountryProfile("")?.id).toBe(DEFAULT_COUNTRY);
+  });
+
+  test("looks up profiles case-insensitively", () => {
+    expect(getCountryProfile("Kenya")?.name).toBe("Kenya");
+    expect(getCountryProfile(" RWANDA ")?.name).toBe("Rwanda");
+  });
+
+  test("returns null for unknown countries", () => {
+    expect(getCountryProfile("atlantis")).toBeNull();
+  });
+});
+
+describe("COUNTRY_PROFILES", () => {
+  test("each profile is internally consistent", () => {
+    for (const profile of Object.values(COUNTRY_PROFILES)) {
+      expect(profile.cities).toContain(profile.primaryCity);
+      expect(profile.defaultLocations.length).toBeGreaterThan(0);
+      for (const loc of profile.defaultLocations) {
+        expect(profile.searchLocations).toContain(loc);
+      }
+    }
+  });
+});
@@ -2,7 +2,7 @@
  * Tests for lib/csv.ts
  */
 
-import { buildCsv } from "../lib/csv.ts";
+import { buildCsv, buildDiffCsv } from "../lib/csv.ts";
 
 describe("buildCsv", () => {
   const sampleUser = {
@@ -23,7 +23,25 @@ describe("buildCsv", () => {
     created_at: "2020-01-01T00:00:00Z",
     updated_at: "2023-06-01T00:00:00Z",
     confidenceScore: 100,
+    locationMatch: {
+      district: "Kampala",
+      region: "Central",
+      matchedTerm: "uganda",
+      matchType: "exact",
+      score: 100,
+    },
+    signalScores: { location: 100, blog: 100 },
     isLikelyUganda: true,
+    scoreReasons: [
+      {
+        signal: "location",
+        rule: "country",
+        term: "uganda",
+        matchedText: "uganda",
+        fuzzy: false,
+        score: 100,
+      },
+    ],
     sourceQueries: ['location:"Uganda"', 'location:"Kampala"'],
   };
 
@@ -36,6 +54,21 @@ describe("buildCsv", () => {
     expect(lines[1]).toContain("testuser");
   });
 
+  test("flattens the location match into its own columns", () => {
+    const [header, row] = buildCsv([sampleUser]).split("\n");
+    expect(header).toContain(
+      "country,confidenceScore,locationScore,district,region,matchedTerm,matchType"
+    );
+    expect(row).toContain(",100,100,Kampala,Central,uganda,exact,");
+  });
+
+  test("writes signal scores and reasons as readable text", () => {
+    const [header, row] = buildCsv([sampleUser]).split("\n");
+    expect(header).toContain("scoreReasons");
+    expect(row).toContain("location:100|blog:100");
+    expect(row).toContain('"location: country ""uganda"" → 100"');
+  });
+
   test("returns only header for empty array", () => {
     const csv = buildCsv([]);
     const lines = csv.split("\n");
@@ -55,3 +88,34 @@ describe("buildCsv", () => {
     expect(csv).toContain('"Last, First"');
   });
 });
+
+describe("buildDiffCsv", () => {
+  const user = {
+    login: "testuser",
+    name: "Test User",
+    location: "Kampala, Uganda",
+    followers: 50,
+    public_repos: 10,
+    confidenceScore: 100,
+    html_url: "https://github.com/testuser",
+  };
+
+  test("writes one row per change with before/after values", () => {
+    const csv = buildDiffCsv({
+      fromRunId: "a",
+      toRunId: "b",
+      added: [user],
+      removed: [],
+      movedOut: [],
+      changed: [
+        { user, changes: { followers: { from: 40, to: 50 } } },
+      ],
+    });
+    const lines = csv.split("\n");
+    expect(lines[0]).toContain("change,login");
+    expect(lines[0]).toContain("followers_before");
+    expect(lines[1].startsWith("added,testuser")).toBe(true);
+    expect(lines[2]).toContain("changed,testuser");
+    expect(lines[2]).toContain("50,40");
+  });
+});
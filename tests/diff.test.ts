@@ -0,0 +1,107 @@
+/**
+ * Tests for lib/diff.ts — comparing two runs.
+ */
+
+import { computeRunDiff, loadRunDiff } from "../lib/diff.ts";
+import { getProfileCache } from "../lib/profiles.ts";
+import type { RawProfile } from "../lib/github.ts";
+import { getRunStore } from "../lib/runs.ts";
+import { makeRun, user } from "./fixtures/runs.ts";
+
+describe("computeRunDiff", () => {
+  test("lists added and removed users", () => {
+    const diff = computeRunDiff(
+      "a",
+      [user("alice"), user("bob")],
+      "b",
+      [user("bob"), user("carol")]
+    );
+    expect(diff.added.map((u) => u.login)).toEqual(["carol"]);
+    expect(diff.removed.map((u) => u.login)).toEqual(["alice"]);
+    expect(diff.movedOut).toEqual([]);
+    expect(diff.changed).toEqual([]);
+  });
+
+  test("reports numeric field changes", () => {
+    const diff = computeRunDiff(
+      "a",
+      [user("alice")],
+      "b",
+      [user("alice", { followers: 15, confidenceScore: 85 })]
+    );
+    expect(diff.changed).toHaveLength(1);
+    expect(diff.changed[0].changes).toEqual({
+      followers: { from: 10, to: 15 },
+      confidenceScore: { from: 90, to: 85 },
+    });
+  });
+
+  test("reports users whose location moved out of the country", () => {
+    const diff = computeRunDiff(
+      "a",
+      [user("alice"), user("bob")],
+      "b",
+      [
+        user("alice", { location: "Berlin, Germany" }),
+        user("bob", { location: "Entebbe" }),
+      ]
+    );
+    expect(diff.movedOut).toEqual([
+      {
+        user: expect.objectContaining({ login: "alice" }),
+        previousLocation: "Kampala, Uganda",
+      },
+    ]);
+  });
+
+  test("reports dropped users whose current location moved out", () => {
+    const diff = computeRunDiff(
+      "a",
+      [user("alice"), user("bob"), user("carol")],
+      "b",
+      [],
+      undefined,
+      new Map([
+        ["alice", "Nairobi, Kenya"],
+        ["bob", "Kampala, Uganda"],
+      ])
+    );
+    expect(diff.movedOut).toEqual([
+      {
+        user: expect.objectContaining({
+          login: "alice",
+          location: "Nairobi, Kenya",
+        }),
+        previousLocation: "Kampala, Uganda",
+      },
+    ]);
+    expect(diff.removed.map((u) => u.login)).toEqual(["bob", "carol"]);
+  });
+});
+
+test("loadRunDiff reads dropped users' locations from the profile cache", async () => {
+  const store = getRunStore();
+  const from = makeRun({
+    runId: "diff-from",
+    createdAt: "2024-05-01T00:00:00.000Z",
+    users: [user("dana"), user("eve")],
+  });
+  await store.save(from);
+  await store.save(
+    makeRun({ runId: "diff-to", createdAt: "2024-06-01T00:00:00.000Z" })
+  );
+  const cache = getProfileCache();
+  const cached = (location: string, checkedAt: string) => ({
+    profile: { location } as RawProfile,
+    etag: null,
+    lastModified: null,
+    checkedAt: Date.parse(checkedAt),
+  });
+  await cache.set("dana", cached("London, UK", "2024-06-01T00:00:00Z"));
+  // Checked before the older run, so it says nothing about a move.
+  await cache.set("eve", cached("London, UK", "2024-04-01T00:00:00Z"));
+
+  const diff = await loadRunDiff("diff-from", "diff-to");
+  expect(diff?.movedOut.map((m) => m.user.login)).toEqual(["dana"]);
+  expect(diff?.removed.map((u) => u.login)).toEqual(["eve"]);
+});
@@ -0,0 +1,124 @@
+/**
+ * Tests for lib/evaluate.ts, and the accuracy gate for the location
+ * classifier on tests/fixtures/uganda-locations.json.
+ *
+ * `npm run eval` prints the full report. Set EVAL_RULES_FILE to a learned
+ * rules file (see lib/rules.ts) to also compare it against the built-in
+ * rules.
+ */
+
+import { readFileSync } from "node:fs";
+import { COUNTRY_PROFILES } from "../lib/countries.ts";
+import {
+  LocationFixture,
+  compareReports,
+  evaluateClassifier,
+  formatComparison,
+  formatReport,
+} from "../lib/evaluate.ts";
+import { loadCountryProfile } from "../lib/rules.ts";
+
+const uganda = COUNTRY_PROFILES.uganda;
+
+const fixtures: LocationFixture[] = JSON.parse(
+  readFileSync(new URL("./fixtures/uganda-locations.json", import.meta.url), "utf8")
+);
+
+/** Floors below which a scoring change is treated as a regression. */
+const MIN_METRICS = {
+  precision: 0.9,
+  recall: 0.95,
+  f1: 0.92,
+  accuracy: 0.92,
+  districtAccuracy: 0.95,
+};
+
+describe("evaluateClassifier", () => {
+  const report = evaluateClassifier(
+    [
+      { location: "Kampala", expected: true, district: "Kampala" },
+      { location: "Ntinda", expected: true, district: "Wakiso" },
+      { location: "Pearl of Africa", expected: true },
+      { location: "Lira, Italy", expected: false },
+      { location: "Nairobi", expected: false },
+    ],
+    uganda
+  );
+
+  test("builds the confusion matrix and headline metrics", () => {
+    expect(report.confusion).toEqual({
+      truePositives: 2,
+      falsePositives: 1,
+      trueNegatives: 1,
+      falseNegatives: 1,
+    });
+    expect(report).toMatchObject({
+      precision: 0.667,
+      recall: 0.667,
+      f1: 0.667,
+      accuracy: 0.6,
+      districtAccuracy: 0.5,
+    });
+  });
+
+  test("reports accuracy per score bucket", () => {
+    expect(report.buckets.map((b) => [b.min, b.total, b.correct])).toEqual([
+      [0, 2, 1],
+      [1, 0, 0],
+      [50, 0, 0],
+      [75, 3, 2],
+      [90, 0, 0],
+    ]);
+  });
+
+  test("lists misclassified locations and wrong districts", () => {
+    expect(report.mistakes).toEqual([
+      {
+        location: "Ntinda",
+        expected: true,
+        score: 80,
+        district: { expected: "Wakiso", actual: "Kampala" },
+      },
+      { location: "Pearl of Africa", expected: true, score: 0 },
+      { location: "Lira, Italy", expected: false, score: 75 },
+    ]);
+  });
+});
+
+describe("compareReports", () => {
+  test("puts two rule versions side by side", () => {
+    const candidate = {
+      ...uganda,
+      falsePositiveMarkers: [...uganda.falsePositiveMarkers, "italy", "japan"],
+    };
+    const rows = compareReports(
+      evaluateClassifier(fixtures, uganda),
+      evaluateClassifier(fixtures, candidate)
+    );
+    const precision = rows.find((r) => r.metric === "precision")!;
+    expect(precision.candidate).toBe(1);
+    expect(precision.delta).toBeGreaterThan(0);
+    expect(formatComparison(rows)).toContain("precision");
+  });
+});
+
+describe("location classifier accuracy", () => {
+  const baseline = evaluateClassifier(fixtures, uganda);
+  if (process.env.EVAL_REPORT) {
+    beforeAll(() => console.log(formatReport(baseline)));
+  }
+
+  test.each(Object.entries(MIN_METRICS))("%s stays above %d", (metric: string, min: number) => {
+    expect(baseline[metric as keyof typeof MIN_METRICS]).toBeGreaterThanOrEqual(min);
+  });
+
+  const rulesFile = process.env.EVAL_RULES_FILE;
+  (rulesFile ? test : test.skip)("learned rules do not regress", async () => {
+    const profile = (await loadCountryProfile("uganda", rulesFile))!;
+    const candidate = evaluateClassifier(fixtures, profile);
+    console.log(formatComparison(compareReports(baseline, candidate)));
+    for (const [metric, min] of Object.entries(MIN_METRICS)) {
+      expect(candidate[metric as keyof typeof MIN_METRICS]).toBeGreaterThanOrEqual(min);
+    }
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Tests for lib/export.ts — export option parsing, filenames and every
+ * output format.
+ */
+
+import {
+  exportFilename,
+  exportUsers,
+  parseExportOptions,
+} from "../lib/export.ts";
+import type { UgandaUser } from "../lib/types/user.ts";
+import { user as baseUser } from "./fixtures/runs.ts";
+
+/** A fixture user with every exported column filled in. */
+const user = (login: string, overrides: Partial<UgandaUser> = {}) =>
+  baseUser(login, {
+    name: `${login} name`,
+    bio: "Builds things, mostly",
+    followers: 12,
+    following: 1,
+    public_repos: 4,
+    sourceQueries: ['location:"Kampala"', 'location:"Uganda"'],
+    ...overrides,
+  });
+
+const params = (query: string) => new URLSearchParams(query);
+
+async function text(body: BodyInit): Promise<string> {
+  return new Response(body).text();
+}
+
+async function bytes(body: BodyInit): Promise<Uint8Array> {
+  return new Uint8Array(await new Response(body).arrayBuffer());
+}
+
+describe("parseExportOptions", () => {
+  test("defaults to the route's format with all columns", () => {
+    expect(parseExportOptions(params(""), "csv")).toEqual({
+      format: "csv",
+      columns: null,
+      delimiter: ",",
+      arrayJoin: "|",
+    });
+    expect(parseExportOptions(params("format=tsv"), "csv").delimiter).toBe("\t");
+  });
+
+  test("reads columns, delimiter and arrayJoin", () => {
+    const options = parseExportOptions(
+      params("columns=login, followers&delimiter=;&arrayJoin=%20/%20"),
+      "json"
+    );
+    expect(options.columns?.map((c) => c.header)).toEqual(["login", "followers"]);
+    expect(options.delimiter).toBe(";");
+    expect(options.arrayJoin).toBe(" / ");
+    expect(parseExportOptions(params("delimiter=tab"), "csv").delimiter).toBe("\t");
+  });
+
+  test("rejects unknown formats, columns and unusable delimiters", () => {
+    expect(() => parseExportOptions(params("format=xml"), "csv")).toThrow(
+      "Unknown format: xml"
+    );
+    expect(() => parseExportOptions(params("columns=login,karma"), "csv")).toThrow(
+      "Unknown column: karma"
+    );
+    expect(() => parseExportOptions(params("columns=,"), "csv")).toThrow();
+    expect(() => parseExportOptions(params("delimiter=::"), "csv")).toThrow();
+    expect(() => parseExportOptions(params('delimiter="'), "csv")).toThrow();
+  });
+});
+
+test("exportFilename includes the run id and date", () => {
+  const run = {
+    runId: "run-1",
+    createdAt: "2024-05-01T12:00:00.000Z",
+    request: { country: "kenya" } as never,
+  };
+  expect(exportFilename(run, "parquet")).toBe(
+    "kenya_github_users_run-1_2024-05-01.parquet"
+  );
+});
+
+describe("exportUsers", () => {
+  const users = [user("alice"), user("bob", { followers: 3 })];
+
+  test("writes TSV with the chosen columns and array separator", async () => {
+    const options = parseExportOptions(
+      params("format=tsv&columns=login,bio,sourceQueries&arrayJoin=;"),
+      "csv"
+    );
+    const { body, contentType } = await exportUsers(users, options);
+    expect(contentType).toBe("text/tab-separated-values");
+    expect((await text(body)).split("\n")).toEqual([
+      "login\tbio\tsourceQueries",
+      'alice\tBuilds things, mostly\t"location:""Kampala"";location:""Uganda"""',
+      'bob\tBuilds things, mostly\t"location:""Kampala"";location:""Uganda"""',
+    ]);
+  });
+
+  test("streams CSV and NDJSON in chunks", async () => {
+    const many = Array.from({ length: 1201 }, (_, i) => user(`u${i}`));
+
+    const csv = await exportUsers(many, parseExportOptions(params(""), "csv"));
+    expect(csv.body).toBeInstanceOf(ReadableStream);
+    const lines = (await text(csv.body)).split("\n");
+    expect(lines).toHaveLength(1202);
+    expect(lines[1201]).toMatch(/^u1200,/);
+
+    const ndjson = await exportUsers(
+      many,
+      parseExportOptions(params("format=ndjson"), "json")
+    );
+    expect(ndjson.contentType).toBe("application/x-ndjson");
+    const records = (await text(ndjson.body))
+      .trimEnd()
+      .split("\n")
+      .map((line) => JSON.parse(line));
+    expect(records).toHaveLength(1201);
+    expect(records[0]).toEqual(many[0]);
+  });
+
+  test("picks columns from JSON records", async () => {
+    const { body } = await exportUsers(
+      users,
+      parseExportOptions(params("columns=login,followers,district"), "json")
+    );
+    expect(JSON.parse(await text(body))).toEqual([
+      { login: "alice", followers: 12, district: "Kampala" },
+      { login: "bob", followers: 3, district: "Kampala" },
+    ]);
+  });
+
+  test("writes XLSX and Parquet files", async () => {
+    const xlsx = await exportUsers(
+      users,
+      parseExportOptions(params("format=xlsx"), "csv")
+    );
+    expect(new TextDecoder().decode((await bytes(xlsx.body)).slice(0, 2))).toBe("PK");
+
+    const parquet = await exportUsers(
+      users,
+      parseExportOptions(params("format=parquet&columns=login,followers"), "csv")
+    );
+    const file = new TextDecoder().decode(await bytes(parquet.body));
+    expect(file.startsWith("PAR1")).toBe(true);
+    expect(file.endsWith("PAR1")).toBe(true);
+    expect(file).toContain("alice");
+  });
+});
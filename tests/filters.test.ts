@@ -0,0 +1,195 @@
+/**
+ * Tests for lib/filters.ts — the results-table filters and pagination shared
+ * by the page, the export routes and the run users API.
+ */
+
+import {
+  DEFAULT_FILTERS,
+  MAX_PAGE_SIZE,
+  filterUsers,
+  filtersToParams,
+  pageUsers,
+  parseFilterParams,
+  parsePageParams,
+  type UserFilters,
+} from "../lib/filters.ts";
+import type { UgandaUser } from "../lib/types/user.ts";
+import { user } from "./fixtures/runs.ts";
+
+const filters = (overrides: Partial<UserFilters>): UserFilters => ({
+  ...DEFAULT_FILTERS,
+  ...overrides,
+});
+
+const logins = (users: UgandaUser[]) => users.map((u) => u.login);
+
+describe("filter query parameters", () => {
+  test("leave defaults out", () => {
+    expect(filtersToParams(DEFAULT_FILTERS).toString()).toBe("");
+    expect(parseFilterParams(new URLSearchParams())).toEqual(DEFAULT_FILTERS);
+  });
+
+  test("round-trip every filter", () => {
+    const all: UserFilters = {
+      search: "make rere",
+      company: "@andela",
+      followers: { min: 10, max: 500 },
+      repos: { min: null, max: 20 },
+      score: { min: 75, max: 75 },
+      hasBio: true,
+      hasCompany: false,
+      hasBlog: true,
+      hasEmail: true,
+      review: "needs-info",
+      minActivity: 40,
+      activeWithinDays: 90,
+      web3Skills: ["solidity", "smart contract"],
+      sort: "recent",
+    };
+    const params = filtersToParams(all);
+    expect(params.get("web3")).toBe("solidity,smart contract");
+    expect(params.get("followers")).toBe("10..500");
+    expect(params.get("repos")).toBe("..20");
+    expect(params.get("score")).toBe("75");
+    expect(parseFilterParams(new URLSearchParams(params.toString()))).toEqual(all);
+  });
+
+  test("reject invalid values", () => {
+    const parse = (query: string) => () =>
+      parseFilterParams(new URLSearchParams(query));
+    expect(parse("sort=karma")).toThrow("Unknown sort: karma");
+    expect(parse("review=maybe")).toThrow("Unknown review state: maybe");
+    expect(parse("web3=rust")).toThrow("Unknown Web3 skill: rust");
+    expect(parse("hasBio=yes")).toThrow("hasBio must be 1 or 0");
+    expect(parse("minActivity=-1")).toThrow("minActivity");
+    expect(parse("followers=ten..")).toThrow("followers must be a number");
+    expect(parse("repos=1..2..3")).toThrow("repos must be a number");
+    expect(parse("score=90..50")).toThrow("score range is empty");
+  });
+});
+
+describe("filterUsers", () => {
+  const now = Date.parse("2024-06-01T00:00:00Z");
+  const users = [
+    user("alice", {
+      name: "Alice Makerere",
+      bio: "Solidity and DeFi",
+      followers: 5,
+      public_repos: 40,
+      activityScore: 70,
+      lastActiveAt: "2024-05-20T00:00:00Z",
+      reviewState: "confirmed",
+    }),
+    user("bob", {
+      company: "Andela",
+      email: "bob@example.com",
+      followers: 50,
+      confidenceScore: 60,
+      created_at: "2023-01-01T00:00:00Z",
+    }),
+    user("carol", {
+      bio: "Data engineer",
+      blog: "https://carol.dev",
+      followers: 20,
+      activityScore: 30,
+      lastActiveAt: "2023-01-01T00:00:00Z",
+    }),
+  ];
+
+  test("sorts by score, then followers, without filters", () => {
+    expect(logins(filterUsers(users, DEFAULT_FILTERS, now))).toEqual([
+      "carol",
+      "alice",
+      "bob",
+    ]);
+  });
+
+  const run = (f: Partial<UserFilters>) =>
+    logins(filterUsers(users, filters(f), now));
+
+  test("searches login, name and bio", () => {
+    expect(run({ search: "MAKERERE" })).toEqual(["alice"]);
+    expect(run({ search: "engineer" })).toEqual(["carol"]);
+  });
+
+  test("applies has-field, review, activity and Web3 filters", () => {
+    expect(run({ hasBio: true, hasBlog: true })).toEqual(["carol"]);
+    expect(run({ hasCompany: true, hasEmail: true })).toEqual(["bob"]);
+    expect(run({ review: "confirmed" })).toEqual(["alice"]);
+    expect(run({ review: "unreviewed" })).toEqual(["carol", "bob"]);
+    expect(run({ minActivity: 50 })).toEqual(["alice"]);
+    expect(run({ activeWithinDays: 30 })).toEqual(["alice"]);
+    expect(run({ web3Skills: ["defi", "nft"] })).toEqual(["alice"]);
+  });
+
+  test("applies numeric ranges and company match", () => {
+    expect(run({ followers: { min: 10, max: null } })).toEqual(["carol", "bob"]);
+    expect(run({ followers: { min: 10, max: 20 } })).toEqual(["carol"]);
+    expect(run({ repos: { min: 10, max: null } })).toEqual(["alice"]);
+    expect(run({ score: { min: null, max: 70 } })).toEqual(["bob"]);
+    expect(run({ company: "@ANDELA" })).toEqual(["bob"]);
+    expect(run({ company: "google" })).toEqual([]);
+  });
+
+  test("sorts by each key", () => {
+    const sorted = (sort: UserFilters["sort"]) => run({ sort });
+    expect(sorted("followers")).toEqual(["bob", "carol", "alice"]);
+    expect(sorted("repos")[0]).toBe("alice");
+    expect(sorted("newest")[0]).toBe("bob");
+    expect(sorted("activity")).toEqual(["alice", "carol", "bob"]);
+    expect(sorted("recent")).toEqual(["alice", "carol", "bob"]);
+  });
+
+  test("does not reorder its input", () => {
+    filterUsers(users, filters({ sort: "followers" }), now);
+    expect(logins(users)).toEqual(["alice", "bob", "carol"]);
+  });
+});
+
+describe("pagination", () => {
+  const users = ["a", "b", "c", "d", "e"].map((login) => user(login));
+  const params = (query: string) => new URLSearchParams(query);
+
+  test("pages by cursor until the last page", () => {
+    const first = pageUsers(users, parsePageParams(params("limit=2")));
+    expect(logins(first.users)).toEqual(["a", "b"]);
+    expect(first.total).toBe(5);
+
+    const second = pageUsers(
+      users,
+      parsePageParams(params(`limit=2&cursor=${first.nextCursor}`))
+    );
+    expect(logins(second.users)).toEqual(["c", "d"]);
+
+    const last = pageUsers(
+      users,
+      parsePageParams(params(`limit=2&cursor=${second.nextCursor}`))
+    );
+    expect(logins(last.users)).toEqual(["e"]);
+    expect(last.nextCursor).toBeNull();
+  });
+
+  test("continues after the cursor's login when rows shift", () => {
+    const first = pageUsers(users, parsePageParams(params("limit=2")));
+    const shifted = [user("new"), ...users];
+    const next = pageUsers(
+      shifted,
+      parsePageParams(params(`limit=2&cursor=${first.nextCursor}`))
+    );
+    expect(logins(next.users)).toEqual(["c", "d"]);
+  });
+
+  test("accepts an offset and rejects invalid values", () => {
+    expect(
+      logins(pageUsers(users, parsePageParams(params("offset=3"))).users)
+    ).toEqual(["d", "e"]);
+    expect(() => parsePageParams(params("limit=0"))).toThrow("limit");
+    expect(() => parsePageParams(params(`limit=${MAX_PAGE_SIZE + 1}`))).toThrow(
+      "limit"
+    );
+    expect(() => parsePageParams(params("offset=-1"))).toThrow("offset");
+    expect(() => parsePageParams(params("cursor=nonsense"))).toThrow(
+      "Invalid cursor"
+    );
+  });
+});
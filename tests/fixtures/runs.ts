@@ -0,0 +1,92 @@
+/**
+ * Shared test fixtures — a scored Kampala user and a completed run of the
+ * default Uganda query, each with overrides for what a test cares about.
+ */
+
+import type { StoredRun } from "../../lib/runs.ts";
+import { DEFAULT_SIGNAL_WEIGHTS } from "../../lib/signals.ts";
+import type { ScrapeRequest, UgandaUser } from "../../lib/types/user.ts";
+
+export function user(
+  login: string,
+  overrides: Partial<UgandaUser> = {}
+): UgandaUser {
+  return {
+    login,
+    id: login.length,
+    avatar_url: "",
+    html_url: `https://github.com/${login}`,
+    name: null,
+    location: "Kampala, Uganda",
+    bio: null,
+    company: null,
+    blog: null,
+    twitter_username: null,
+    email: null,
+    followers: 10,
+    following: 0,
+    public_repos: 5,
+    created_at: "2020-01-01T00:00:00Z",
+    updated_at: "2024-01-01T00:00:00Z",
+    country: "uganda",
+    confidenceScore: 90,
+    locationMatch: {
+      district: "Kampala",
+      region: "Central",
+      matchedTerm: "kampala",
+      matchType: "exact",
+      score: 90,
+    },
+    signalScores: { location: 90 },
+    isLikelyUganda: true,
+    scoreReasons: [],
+    sourceQueries: [],
+    ...overrides,
+  };
+}
+
+export type RunOverrides = Partial<Omit<StoredRun, "request">> & {
+  request?: Partial<ScrapeRequest>;
+};
+
+/** A completed run of `users` (none by default); stats count them. */
+export function makeRun(overrides: RunOverrides = {}): StoredRun {
+  const users = overrides.users ?? [];
+  const createdAt = overrides.createdAt ?? "2024-05-01T00:00:00.000Z";
+  return {
+    runId: "run-1",
+    stats: {
+      totalCandidates: users.length,
+      uniqueUsers: users.length,
+      keptAfterFilter: users.length,
+      missingLogins: [],
+      tokenPool: { tokens: [], waits: 0 },
+    },
+    completedAt: createdAt,
+    ...overrides,
+    createdAt,
+    users,
+    request: {
+      country: "uganda",
+      locations: ["Uganda"],
+      orgs: [],
+      minRepos: 0,
+      minFollowers: 0,
+      maxPagesPerQuery: 3,
+      perPage: 100,
+      concurrency: 5,
+      minScore: 50,
+      partition: false,
+      refreshOlderThan: 0,
+      fetchMode: "rest",
+      enrichRepos: false,
+      activity: false,
+      minActivity: 0,
+      signalWeights: DEFAULT_SIGNAL_WEIGHTS,
+      expandDepth: 0,
+      expandBudget: 100,
+      minSeedScore: 85,
+      ...overrides.request,
+    },
+  };
+}
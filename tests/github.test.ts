@@ -0,0 +1,991 @@
+/**
+ * Tests for lib/github.ts — search query partitioning, profile caching,
+ * checkpoints, repository enrichment and activity scoring.
+ *
+ * `fetch` is replaced with fake GitHub endpoints, so no network access is
+ * needed.
+ */
+
+import {
+  buildProfilesQuery,
+  emptyCheckpoint,
+  partitionQuery,
+  scrapeUsers,
+  SEARCH_RESULT_CAP,
+  summariseRepos,
+} from "../lib/github.ts";
+import { COUNTRY_PROFILES } from "../lib/countries.ts";
+import { createMemoryProfileCache } from "../lib/profiles.ts";
+import { createTokenPool } from "../lib/tokens.ts";
+
+interface FakeUser {
+  created: string;
+  followers: number;
+}
+
+function matchesBand(value: number, band: string): boolean {
+  if (band.startsWith(">")) return value > Number(band.slice(1));
+  if (band.includes("..")) {
+    const [lo, hi] = band.split("..").map(Number);
+    return value >= lo && value <= hi;
+  }
+  return value === Number(band);
+}
+
+function fakeSearch(users: FakeUser[]): typeof fetch {
+  return (async (input: RequestInfo | URL) => {
+    const q = new URL(String(input)).searchParams.get("q") ?? "";
+    const created = q.match(/created:(\S+)\.\.(\S+)/);
+    const followers = q.match(/followers:(\S+)/);
+    const total = users.filter(
+      (u) =>
+        (!created || (u.created >= created[1] && u.created <= created[2])) &&
+        (!followers || matchesBand(u.followers, followers[1]))
+    ).length;
+    return new Response(JSON.stringify({ total_count: total, items: [] }));
+  }) as typeof fetch;
+}
+
+function daysFrom(start: string, count: number): string[] {
+  const first = Date.parse(start);
+  return Array.from({ length: count }, (_, i) =>
+    new Date(first + i * 24 * 60 * 60 * 1000).toISOString().slice(0, 10)
+  );
+}
+
+describe("partitionQuery", () => {
+  const realFetch = global.fetch;
+  afterEach(() => {
+    global.fetch = realFetch;
+  });
+
+  test("returns the query unchanged when it fits under the cap", async () => {
+    global.fetch = fakeSearch([{ created: "2015-01-01", followers: 0 }]);
+    await expect(partitionQuery('location:"Uganda"')).resolves.toEqual([
+      'location:"Uganda"',
+    ]);
+  });
+
+  test("splits an oversized query into created: slices under the cap", async () => {
+    const users = daysFrom("2015-01-01", 2500).map((created) => ({
+      created,
+      followers: 0,
+    }));
+    global.fetch = fakeSearch(users);
+
+    const slices = await partitionQuery('location:"Uganda"');
+    expect(slices.length).toBeGreaterThan(1);
+    for (const slice of slices) {
+      expect(slice).toMatch(/^location:"Uganda" created:\S+\.\.\S+$/);
+    }
+
+    // Slices cover every user exactly once and each fits the cap.
+    let covered = 0;
+    for (const slice of slices) {
+      const [, from, to] = slice.match(/created:(\S+)\.\.(\S+)/)!;
+      const n = users.filter((u) => u.created >= from && u.created <= to).length;
+      expect(n).toBeLessThanOrEqual(SEARCH_RESULT_CAP);
+      covered += n;
+    }
+    expect(covered).toBe(users.length);
+  });
+
+  test("falls back to follower bands when a single day is over the cap", async () => {
+    const users = Array.from({ length: 1500 }, (_, i) => ({
+      created: "2020-06-01",
+      followers: i % 30,
+    }));
+    global.fetch = fakeSearch(users);
+
+    const slices = await partitionQuery('location:"Uganda"');
+    expect(slices.length).toBeGreaterThan(1);
+    for (const slice of slices) {
+      expect(slice).toContain("created:2020-06-01..2020-06-01");
+      expect(slice).toMatch(/followers:\S+$/);
+    }
+  });
+});
+
+describe("scrapeUsers profile cache", () => {
+  const realFetch = global.fetch;
+  afterEach(() => {
+    global.fetch = realFetch;
+  });
+
+  const profile = {
+    login: "alice",
+    id: 1,
+    avatar_url: "",
+    html_url: "https://github.com/alice",
+    name: "Alice",
+    location: "Kampala, Uganda",
+    bio: null,
+    company: null,
+    blog: null,
+    twitter_username: null,
+    email: null,
+    followers: 10,
+    following: 1,
+    public_repos: 3,
+    created_at: "2015-01-01T00:00:00Z",
+    updated_at: "2024-01-01T00:00:00Z",
+  };
+
+  /** Fake API whose /users/alice honours If-None-Match against ETag "v1". */
+  function fakeApi(log: { status: number }[]): typeof fetch {
+    return (async (input: RequestInfo | URL, init?: RequestInit) => {
+      const url = new URL(String(input));
+      if (url.pathname === "/search/users") {
+        return new Response(
+          JSON.stringify({ total_count: 1, items: [profile] })
+        );
+      }
+      const etag = new Headers(init?.headers).get("if-none-match");
+      const status = etag === '"v1"' ? 304 : 200;
+      log.push({ status });
+      return status === 304
+        ? new Response(null, { status })
+        : new Response(JSON.stringify(profile), { headers: { ETag: '"v1"' } });
+    }) as typeof fetch;
+  }
+
+  const baseOpts = {
+    country: COUNTRY_PROFILES.uganda,
+    locations: ["Uganda"],
+    minRepos: 0,
+    minFollowers: 0,
+    maxPagesPerQuery: 1,
+    perPage: 100,
+    concurrency: 1,
+    minScore: 0,
+  };
+
+  test("revalidates cached profiles with If-None-Match and reuses them on 304", async () => {
+    const log: { status: number }[] = [];
+    global.fetch = fakeApi(log);
+    const profileCache = createMemoryProfileCache();
+
+    const first = await scrapeUsers({ ...baseOpts, profileCache });
+    const second = await scrapeUsers({ ...baseOpts, profileCache });
+
+    expect(log.map((r) => r.status)).toEqual([200, 304]);
+    expect(second.users).toEqual(first.users);
+  });
+
+  test("skips the request entirely for profiles newer than refreshOlderThan", async () => {
+    const log: { status: number }[] = [];
+    global.fetch = fakeApi(log);
+    const profileCache = createMemoryProfileCache();
+
+    await scrapeUsers({ ...baseOpts, profileCache });
+    await scrapeUsers({ ...baseOpts, profileCache, refreshOlderThan: 60_000 });
+
+    expect(log).toHaveLength(1);
+  });
+});
+
+/** A user node of the GraphQL profiles query. */
+const graphqlUser = {
+  login: "alice",
+  databaseId: 1,
+  avatarUrl: "",
+  url: "https://github.com/alice",
+  name: "Alice",
+  location: "Kampala",
+  bio: null,
+  company: null,
+  websiteUrl: null,
+  twitterUsername: null,
+  email: "",
+  followers: { totalCount: 10 },
+  following: { totalCount: 2 },
+  repositories: { totalCount: 4 },
+  createdAt: "2015-01-01T00:00:00Z",
+  updatedAt: "2024-01-01T00:00:00Z",
+  status: { message: "Building things" },
+  pinnedItems: { nodes: [{ nameWithOwner: "alice/app" }, {}] },
+  contributionsCollection: {
+    contributionCalendar: { totalContributions: 321 },
+  },
+  organizations: { nodes: [] },
+};
+
+describe("scrapeUsers graphql fetch mode", () => {
+  const realFetch = global.fetch;
+  afterEach(() => {
+    global.fetch = realFetch;
+  });
+
+  test("resolves profiles in one aliased query and reports missing users", async () => {
+    const graphqlCalls: Record<string, string>[] = [];
+    global.fetch = (async (input: RequestInfo | URL, init?: RequestInit) => {
+      const url = new URL(String(input));
+      if (url.pathname === "/search/users") {
+        return new Response(
+          JSON.stringify({
+            total_count: 2,
+            items: [{ login: "alice" }, { login: "ghost" }],
+          })
+        );
+      }
+      const { variables } = JSON.parse(String(init?.body));
+      graphqlCalls.push(variables);
+      const data: Record<string, unknown> = {};
+      for (const [key, login] of Object.entries(variables)) {
+        data[key.replace("l", "u")] = login === "alice" ? graphqlUser : null;
+      }
+      return new Response(
+        JSON.stringify({
+          data,
+          errors: [{ type: "NOT_FOUND", message: "Could not resolve" }],
+        })
+      );
+    }) as typeof fetch;
+
+    const result = await scrapeUsers({
+      country: COUNTRY_PROFILES.uganda,
+      locations: ["Uganda"],
+      minRepos: 0,
+      minFollowers: 0,
+      maxPagesPerQuery: 1,
+      perPage: 100,
+      concurrency: 2,
+      minScore: 0,
+      fetchMode: "graphql",
+      profileCache: createMemoryProfileCache(),
+    });
+
+    expect(graphqlCalls).toEqual([{ l0: "alice", l1: "ghost" }]);
+    expect(result.missingLogins).toEqual(["ghost"]);
+    expect(result.users).toHaveLength(1);
+    expect(result.users[0]).toMatchObject({
+      login: "alice",
+      email: null,
+      public_repos: 4,
+      pinned_repos: ["alice/app"],
+      contributions_last_year: 321,
+      status_message: "Building things",
+      locationMatch: {
+        district: "Kampala",
+        region: "Central",
+        matchedTerm: "kampala",
+        matchType: "exact",
+        score: 85,
+      },
+    });
+  });
+
+  const graphqlOpts = {
+    country: COUNTRY_PROFILES.uganda,
+    locations: ["Uganda"],
+    minRepos: 0,
+    minFollowers: 0,
+    maxPagesPerQuery: 1,
+    perPage: 100,
+    concurrency: 1,
+    minScore: 0,
+    fetchMode: "graphql" as const,
+  };
+
+  test("retries a RATE_LIMITED batch on another token", async () => {
+    const tokens: string[] = [];
+    global.fetch = (async (input: RequestInfo | URL, init?: RequestInit) => {
+      const url = new URL(String(input));
+      if (url.pathname === "/search/users") {
+        return new Response(
+          JSON.stringify({ total_count: 1, items: [{ login: "alice" }] })
+        );
+      }
+      const auth = new Headers(init?.headers).get("authorization") ?? "";
+      tokens.push(auth);
+      if (tokens.length === 1) {
+        return new Response(
+          JSON.stringify({
+            data: null,
+            errors: [
+              { type: "RATE_LIMITED", message: "API rate limit exceeded" },
+            ],
+          })
+        );
+      }
+      return new Response(JSON.stringify({ data: { u0: graphqlUser } }));
+    }) as typeof fetch;
+
+    const result = await scrapeUsers({
+      ...graphqlOpts,
+      tokenPool: createTokenPool(["t1", "t2"]),
+      profileCache: createMemoryProfileCache(),
+    });
+
+    expect(tokens).toHaveLength(2);
+    expect(tokens[0]).not.toBe(tokens[1]);
+    expect(result.users.map((u) => u.login)).toEqual(["alice"]);
+  });
+
+  test("falls back to REST for a batch that fails", async () => {
+    const paths: string[] = [];
+    global.fetch = (async (input: RequestInfo | URL) => {
+      const url = new URL(String(input));
+      paths.push(url.pathname);
+      switch (url.pathname) {
+        case "/search/users":
+          return new Response(
+            JSON.stringify({
+              total_count: 2,
+              items: [{ login: "alice" }, { login: "ghost" }],
+            })
+          );
+        case "/graphql":
+          return new Response(
+            JSON.stringify({
+              data: null,
+              errors: [{ message: "Something went wrong while executing" }],
+            })
+          );
+        case "/users/alice":
+          return new Response(
+            JSON.stringify({
+              login: "alice",
+              id: 1,
+              html_url: "https://github.com/alice",
+              location: "Kampala",
+              followers: 1,
+              public_repos: 2,
+            })
+          );
+        default:
+          return new Response("{}", { status: 404 });
+      }
+    }) as typeof fetch;
+
+    const result = await scrapeUsers({
+      ...graphqlOpts,
+      profileCache: createMemoryProfileCache(),
+    });
+
+    expect(paths).toEqual(
+      expect.arrayContaining(["/graphql", "/users/alice", "/users/ghost"])
+    );
+    expect(result.users.map((u) => u.login)).toEqual(["alice"]);
+    expect(result.missingLogins).toEqual(["ghost"]);
+  });
+});
+
+describe("scrapeUsers signals", () => {
+  const realFetch = global.fetch;
+  afterEach(() => {
+    global.fetch = realFetch;
+  });
+
+  test("looks up organisations only for users below minScore", async () => {
+    const orgLookups: string[] = [];
+    global.fetch = (async (input: RequestInfo | URL) => {
+      const url = new URL(String(input));
+      if (url.pathname === "/search/users") {
+        return new Response(
+          JSON.stringify({
+            total_count: 3,
+            items: [{ login: "located" }, { login: "member" }, { login: "other" }],
+          })
+        );
+      }
+      const [, , login, rest] = url.pathname.split("/");
+      if (rest === "orgs") {
+        orgLookups.push(login);
+        return new Response(
+          JSON.stringify(
+            login === "member"
+              ? [{ login: "sunbird-ai", description: "AI for Africa" }]
+              : []
+          )
+        );
+      }
+      return new Response(
+        JSON.stringify({
+          login,
+          id: login.length,
+          html_url: `https://github.com/${login}`,
+          location: login === "located" ? "Kampala" : null,
+          followers: 0,
+          public_repos: 0,
+        })
+      );
+    }) as typeof fetch;
+
+    const result = await scrapeUsers({
+      country: COUNTRY_PROFILES.uganda,
+      locations: ["Uganda"],
+      minRepos: 0,
+      minFollowers: 0,
+      maxPagesPerQuery: 1,
+      perPage: 100,
+      concurrency: 1,
+      minScore: 50,
+      profileCache: createMemoryProfileCache(),
+    });
+
+    expect(orgLookups.sort()).toEqual(["member", "other"]);
+    expect(result.users.map((u) => u.login).sort()).toEqual([
+      "located",
+      "member",
+    ]);
+    const member = result.users.find((u) => u.login === "member")!;
+    expect(member.signalScores).toEqual({ org: 100 });
+    expect(member.confidenceScore).toBe(80);
+    expect(member.isLikelyUganda).toBe(true);
+  });
+});
+
+describe("scrapeUsers organisation discovery", () => {
+  const realFetch = global.fetch;
+  afterEach(() => {
+    global.fetch = realFetch;
+  });
+
+  test("adds org members and repo contributors with org: source queries", async () => {
+    const requested: string[] = [];
+    const user = (login: string, type = "User") => ({
+      login,
+      id: login.length,
+      avatar_url: "",
+      html_url: `https://github.com/${login}`,
+      type,
+    });
+    global.fetch = (async (input: RequestInfo | URL) => {
+      const url = new URL(String(input));
+      requested.push(url.pathname);
+      const routes: Record<string, unknown> = {
+        "/search/users": { total_count: 1, items: [user("alice")] },
+        "/orgs/makerere/public_members": [user("alice"), user("bob")],
+        "/orgs/makerere/repos": [
+          { full_name: "makerere/app", fork: false },
+          { full_name: "makerere/fork", fork: true },
+        ],
+        "/repos/makerere/app/contributors": [
+          user("carol"),
+          user("dependabot[bot]", "Bot"),
+          user("bob"),
+        ],
+      };
+      const body = routes[url.pathname] ?? {
+        ...user(url.pathname.split("/")[2]),
+        location: "Kampala",
+        followers: 0,
+        public_repos: 0,
+      };
+      return new Response(JSON.stringify(body));
+    }) as typeof fetch;
+
+    const events: string[] = [];
+    const result = await scrapeUsers({
+      country: COUNTRY_PROFILES.uganda,
+      locations: ["Uganda"],
+      orgs: ["makerere"],
+      minRepos: 0,
+      minFollowers: 0,
+      maxPagesPerQuery: 1,
+      perPage: 100,
+      concurrency: 1,
+      minScore: 0,
+      profileCache: createMemoryProfileCache(),
+      onProgress: (e) => {
+        if (e.type === "query") events.push(`${e.query}=${e.count}`);
+      },
+    });
+
+    expect(events).toEqual(['location:"Uganda"=1', "org:makerere=3"]);
+    expect(requested).not.toContain("/repos/makerere/fork/contributors");
+    expect(result.uniqueUsers).toBe(3);
+    const sources = Object.fromEntries(
+      result.users.map((u) => [u.login, u.sourceQueries])
+    );
+    expect(sources).toEqual({
+      alice: ['location:"Uganda"', "org:makerere"],
+      bob: ["org:makerere"],
+      carol: ["org:makerere"],
+    });
+  });
+});
+
+describe("scrapeUsers social-graph expansion", () => {
+  const realFetch = global.fetch;
+  afterEach(() => {
+    global.fetch = realFetch;
+  });
+
+  const locations: Record<string, string | null> = {
+    alice: "Kampala",
+    bob: "Uganda",
+    carol: "Gulu",
+    dave: "Jinja, Uganda",
+    erin: "Paris",
+  };
+  /** Follower / following lists; everyone else has none. */
+  const graph: Record<string, string[]> = {
+    "alice/followers": ["bob", "erin"],
+    "alice/following": ["carol", "bob"],
+    "bob/followers": ["dave", "alice"],
+  };
+
+  function fakeGraphApi(requested: string[]): typeof fetch {
+    return (async (input: RequestInfo | URL) => {
+      const url = new URL(String(input));
+      requested.push(url.pathname);
+      if (url.pathname === "/search/users") {
+        return new Response(
+          JSON.stringify({ total_count: 1, items: [{ login: "alice" }] })
+        );
+      }
+      const [, , login, rest] = url.pathname.split("/");
+      if (rest === "followers" || rest === "following") {
+        const logins = graph[`${login}/${rest}`] ?? [];
+        return new Response(JSON.stringify(logins.map((l) => ({ login: l }))));
+      }
+      return new Response(
+        JSON.stringify({
+          login,
+          id: login.length,
+          html_url: `https://github.com/${login}`,
+          location: locations[login],
+          followers: 0,
+          public_repos: 0,
+        })
+      );
+    }) as typeof fetch;
+  }
+
+  const baseOpts = {
+    country: COUNTRY_PROFILES.uganda,
+    locations: ["Uganda"],
+    minRepos: 0,
+    minFollowers: 0,
+    maxPagesPerQuery: 1,
+    perPage: 100,
+    concurrency: 1,
+    minScore: 50,
+    signalWeights: { org: 0 },
+  };
+
+  test("crawls confident users level by level and records the path", async () => {
+    const requested: string[] = [];
+    global.fetch = fakeGraphApi(requested);
+
+    const result = await scrapeUsers({
+      ...baseOpts,
+      expandDepth: 2,
+      minSeedScore: 80,
+      profileCache: createMemoryProfileCache(),
+    });
+
+    const sources = Object.fromEntries(
+      result.users.map((u) => [u.login, u.sourceQueries])
+    );
+    expect(sources).toEqual({
+      alice: ['location:"Uganda"'],
+      bob: ["via:followers-of:alice", "via:following-of:alice"],
+      carol: ["via:following-of:alice"],
+      dave: ["via:followers-of:bob"],
+    });
+    // carol (75) is below minSeedScore, so her connections are not listed.
+    expect(requested).not.toContain("/users/carol/followers");
+    expect(result.uniqueUsers).toBe(5);
+  });
+
+  test("stops at the depth and per-level budget", async () => {
+    const requested: string[] = [];
+    global.fetch = fakeGraphApi(requested);
+
+    const result = await scrapeUsers({
+      ...baseOpts,
+      expandDepth: 1,
+      expandBudget: 1,
+      profileCache: createMemoryProfileCache(),
+    });
+
+    expect(result.users.map((u) => u.login).sort()).toEqual(["alice", "bob"]);
+    expect(requested).not.toContain("/users/alice/following");
+    expect(requested).not.toContain("/users/bob/followers");
+  });
+});
+
+describe("scrapeUsers checkpoints", () => {
+  const realFetch = global.fetch;
+  afterEach(() => {
+    global.fetch = realFetch;
+  });
+
+  /**
+   * Fake API with two search pages of one user each. Logs each request and
+   * fails those `fail` matches with a 500.
+   */
+  function fakeApi(log: string[], fail: (path: string) => boolean = () => false): typeof fetch {
+    return (async (input: RequestInfo | URL) => {
+      const url = new URL(String(input));
+      const page = url.searchParams.get("page");
+      const path = page ? `${url.pathname}?page=${page}` : url.pathname;
+      log.push(path);
+      if (fail(path)) return new Response("boom", { status: 500 });
+      if (url.pathname === "/search/users") {
+        const login = page === "1" ? "alice" : "bob";
+        return new Response(JSON.stringify({ total_count: 2, items: [{ login }] }));
+      }
+      const login = url.pathname.split("/")[2];
+      return new Response(
+        JSON.stringify({
+          login,
+          id: login.length,
+          html_url: `https://github.com/${login}`,
+          location: "Kampala",
+          followers: 0,
+          public_repos: 0,
+        })
+      );
+    }) as typeof fetch;
+  }
+
+  const baseOpts = {
+    country: COUNTRY_PROFILES.uganda,
+    locations: ["Uganda"],
+    minRepos: 0,
+    minFollowers: 0,
+    maxPagesPerQuery: 2,
+    perPage: 1,
+    concurrency: 1,
+    minScore: 0,
+  };
+
+  test("resumes an interrupted search from the next page", async () => {
+    const checkpoint = emptyCheckpoint();
+    let saves = 0;
+    global.fetch = fakeApi([], (path) => path === "/search/users?page=2");
+    await expect(
+      scrapeUsers({
+        ...baseOpts,
+        checkpoint,
+        onCheckpoint: () => saves++,
+        profileCache: createMemoryProfileCache(),
+      })
+    ).rejects.toThrow("GitHub API 500");
+    expect(saves).toBeGreaterThan(0);
+    expect(checkpoint.searches['location:"Uganda"']).toMatchObject({
+      page: 1,
+      complete: false,
+    });
+
+    const log: string[] = [];
+    global.fetch = fakeApi(log);
+    const result = await scrapeUsers({
+      ...baseOpts,
+      checkpoint,
+      profileCache: createMemoryProfileCache(),
+    });
+    expect(log).toEqual(["/search/users?page=2", "/users/alice", "/users/bob"]);
+    expect(result.users.map((u) => u.login)).toEqual(["alice", "bob"]);
+    expect(result.totalCandidates).toBe(2);
+  });
+
+  test("does not refetch profiles fetched before the interruption", async () => {
+    const checkpoint = emptyCheckpoint();
+    const controller = new AbortController();
+    global.fetch = fakeApi([], (path) => {
+      if (path !== "/users/bob") return false;
+      controller.abort();
+      return true;
+    });
+    await expect(
+      scrapeUsers({
+        ...baseOpts,
+        checkpoint,
+        signal: controller.signal,
+        profileCache: createMemoryProfileCache(),
+      })
+    ).rejects.toThrow();
+    expect(Object.keys(checkpoint.profiles)).toEqual(["alice"]);
+
+    const log: string[] = [];
+    global.fetch = fakeApi(log);
+    const result = await scrapeUsers({
+      ...baseOpts,
+      checkpoint,
+      profileCache: createMemoryProfileCache(),
+    });
+    expect(log).toEqual(["/users/bob"]);
+    expect(result.users.map((u) => u.login).sort()).toEqual(["alice", "bob"]);
+  });
+});
+
+describe("buildProfilesQuery", () => {
+  test("passes logins as variables rather than inlining them", () => {
+    const query = buildProfilesQuery(['evil") { id } #', "bob"]);
+    expect(query).toContain("query($l0: String!, $l1: String!)");
+    expect(query).toContain("u0: user(login: $l0)");
+    expect(query).not.toContain("evil");
+  });
+});
+
+describe("summariseRepos", () => {
+  test("totals stars and forks and ranks languages by bytes", () => {
+    const summary = summariseRepos([
+      {
+        full_name: "alice/api",
+        stars: 3,
+        forks: 1,
+        pushed_at: "2024-03-01T00:00:00Z",
+        languages: { Go: 500, Shell: 20 },
+      },
+      {
+        full_name: "alice/web",
+        stars: 12,
+        forks: 4,
+        pushed_at: "2024-05-01T00:00:00Z",
+        languages: { TypeScript: 300, Go: 100 },
+      },
+      {
+        full_name: "alice/old",
+        stars: 0,
+        forks: 0,
+        pushed_at: null,
+        languages: {},
+      },
+    ]);
+
+    expect(summary).toEqual({
+      top_languages: ["Go", "TypeScript", "Shell"],
+      total_stars: 15,
+      total_forks: 5,
+      top_repo: "alice/web",
+      last_pushed_at: "2024-05-01T00:00:00Z",
+    });
+  });
+
+  test("returns empty values for a user without repos", () => {
+    expect(summariseRepos([])).toEqual({
+      top_languages: [],
+      total_stars: 0,
+      total_forks: 0,
+      top_repo: null,
+      last_pushed_at: null,
+    });
+  });
+});
+
+describe("scrapeUsers repository enrichment", () => {
+  const realFetch = global.fetch;
+  afterEach(() => {
+    global.fetch = realFetch;
+  });
+
+  test("adds repo stats over REST and skips forks", async () => {
+    const paths: string[] = [];
+    global.fetch = (async (input: RequestInfo | URL) => {
+      const url = new URL(String(input));
+      paths.push(url.pathname);
+      switch (url.pathname) {
+        case "/search/users":
+          return new Response(
+            JSON.stringify({ total_count: 1, items: [{ login: "alice" }] })
+          );
+        case "/users/alice":
+          return new Response(
+            JSON.stringify({
+              login: "alice",
+              id: 1,
+              html_url: "https://github.com/alice",
+              location: "Kampala",
+              followers: 1,
+              public_repos: 2,
+            })
+          );
+        case "/users/alice/repos":
+          return new Response(
+            JSON.stringify([
+              {
+                full_name: "alice/app",
+                fork: false,
+                stargazers_count: 7,
+                forks_count: 2,
+                pushed_at: "2024-06-01T00:00:00Z",
+              },
+              {
+                full_name: "alice/forked",
+                fork: true,
+                stargazers_count: 100,
+                forks_count: 0,
+                pushed_at: "2024-07-01T00:00:00Z",
+              },
+            ])
+          );
+        case "/repos/alice/app/languages":
+          return new Response(JSON.stringify({ Kotlin: 900, Java: 50 }));
+        default:
+          return new Response("{}", { status: 404 });
+      }
+    }) as typeof fetch;
+
+    const events: string[] = [];
+    const result = await scrapeUsers({
+      country: COUNTRY_PROFILES.uganda,
+      locations: ["Uganda"],
+      minRepos: 0,
+      minFollowers: 0,
+      maxPagesPerQuery: 1,
+      perPage: 100,
+      concurrency: 1,
+      minScore: 0,
+      enrichRepos: true,
+      profileCache: createMemoryProfileCache(),
+      onProgress: (e) => events.push(e.type),
+    });
+
+    expect(paths).not.toContain("/repos/alice/forked/languages");
+    expect(events).toContain("enrich");
+    expect(result.users[0]).toMatchObject({
+      top_languages: ["Kotlin", "Java"],
+      total_stars: 7,
+      total_forks: 2,
+      top_repo: "alice/app",
+      last_pushed_at: "2024-06-01T00:00:00Z",
+    });
+  });
+
+  test("leaves users unenriched when the GraphQL repos query errors", async () => {
+    global.fetch = (async (input: RequestInfo | URL, init?: RequestInit) => {
+      const url = new URL(String(input));
+      if (url.pathname === "/search/users") {
+        return new Response(
+          JSON.stringify({ total_count: 1, items: [{ login: "alice" }] })
+        );
+      }
+      const { query } = JSON.parse(String(init?.body));
+      if (query.includes("stargazerCount")) {
+        return new Response(
+          JSON.stringify({
+            data: null,
+            errors: [{ message: "Something went wrong while executing" }],
+          })
+        );
+      }
+      return new Response(JSON.stringify({ data: { u0: graphqlUser } }));
+    }) as typeof fetch;
+
+    const result = await scrapeUsers({
+      country: COUNTRY_PROFILES.uganda,
+      locations: ["Uganda"],
+      minRepos: 0,
+      minFollowers: 0,
+      maxPagesPerQuery: 1,
+      perPage: 100,
+      concurrency: 1,
+      minScore: 0,
+      enrichRepos: true,
+      fetchMode: "graphql",
+      profileCache: createMemoryProfileCache(),
+    });
+
+    expect(result.users).toHaveLength(1);
+    expect(result.users[0].total_stars).toBeUndefined();
+    expect(result.users[0].top_languages).toBeUndefined();
+  });
+});
+
+describe("scrapeUsers activity scoring", () => {
+  const realFetch = global.fetch;
+  afterEach(() => {
+    global.fetch = realFetch;
+  });
+
+  test("scores activity from public events and drops users below minActivity", async () => {
+    const now = Date.now();
+    const recentEvents = Array.from({ length: 12 }, (_, i) => ({
+      type: "IssuesEvent",
+      created_at: new Date(now - i * 60 * 60 * 1000).toISOString(),
+    }));
+    global.fetch = (async (input: RequestInfo | URL) => {
+      const url = new URL(String(input));
+      if (url.pathname === "/search/users") {
+        return new Response(
+          JSON.stringify({
+            total_count: 2,
+            items: [{ login: "busy" }, { login: "dormant" }],
+          })
+        );
+      }
+      const [, , login, rest] = url.pathname.split("/");
+      if (rest === "events") {
+        return new Response(
+          JSON.stringify(login === "busy" ? recentEvents : [])
+        );
+      }
+      return new Response(
+        JSON.stringify({
+          login,
+          id: login.length,
+          html_url: `https://github.com/${login}`,
+          location: "Uganda",
+          followers: 0,
+          public_repos: 0,
+        })
+      );
+    }) as typeof fetch;
+
+    const result = await scrapeUsers({
+      country: COUNTRY_PROFILES.uganda,
+      locations: ["Uganda"],
+      minRepos: 0,
+      minFollowers: 0,
+      maxPagesPerQuery: 1,
+      perPage: 100,
+      concurrency: 1,
+      minScore: 0,
+      minActivity: 10,
+      profileCache: createMemoryProfileCache(),
+    });
+
+    expect(result.users.map((u) => u.login)).toEqual(["busy"]);
+    expect(result.users[0]).toMatchObject({
+      contributions_30d: 12,
+      contributions_90d: 12,
+      lastActiveAt: recentEvents[0].created_at,
+    });
+    expect(result.users[0].activityScore).toBeGreaterThanOrEqual(10);
+  });
+
+  test("keeps users unscored when the GraphQL calendar query errors", async () => {
+    global.fetch = (async (input: RequestInfo | URL, init?: RequestInit) => {
+      const url = new URL(String(input));
+      if (url.pathname === "/search/users") {
+        return new Response(
+          JSON.stringify({ total_count: 1, items: [{ login: "alice" }] })
+        );
+      }
+      const { query } = JSON.parse(String(init?.body));
+      if (query.includes("contributionDays")) {
+        // GitHub reports rate limits and server errors with HTTP 200.
+        return new Response(
+          JSON.stringify({
+            data: null,
+            errors: [{ message: "Something went wrong while executing" }],
+          })
+        );
+      }
+      return new Response(JSON.stringify({ data: { u0: graphqlUser } }));
+    }) as typeof fetch;
+
+    const result = await scrapeUsers({
+      country: COUNTRY_PROFILES.uganda,
+      locations: ["Uganda"],
+      minRepos: 0,
+      minFollowers: 0,
+      maxPagesPerQuery: 1,
+      perPage: 100,
+      concurrency: 1,
+      minScore: 0,
+      minActivity: 10,
+      fetchMode: "graphql",
+      profileCache: createMemoryProfileCache(),
+    });
+
+    expect(result.users.map((u) => u.login)).toEqual(["alice"]);
+    expect(result.users[0].activityScore).toBeUndefined();
+  });
+});
@@ -9,8 +9,13 @@ import {
   computeConfidenceScore,
   isUgandaLocation,
   isLikelyUganda,
+  isLikelyInCountry,
+  matchLocation,
+  explainLocation,
+  formatScoreReason,
   UGANDA_CITIES,
 } from "../lib/normalize.ts";
+import { COUNTRY_PROFILES } from "../lib/countries.ts";
 
 // ---------------------------------------------------------------------------
 // computeConfidenceScore
@@ -86,6 +91,167 @@ describe("normaliseLocation (TS version)", () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// matchLocation (gazetteer)
+// ---------------------------------------------------------------------------
+
+describe("matchLocation", () => {
+  test("returns an empty match for unknown locations", () => {
+    expect(matchLocation("london")).toEqual({
+      district: null,
+      region: null,
+      matchedTerm: null,
+      matchType: "none",
+      score: 0,
+    });
+  });
+
+  test("resolves districts outside the city list", () => {
+    expect(matchLocation("hoima")).toEqual({
+      district: "Hoima",
+      region: "Western",
+      matchedTerm: "hoima",
+      matchType: "exact",
+      score: 75,
+    });
+    expect(matchLocation("tororo, eastern uganda")).toMatchObject({
+      district: "Tororo",
+      region: "Eastern",
+      score: 100,
+    });
+  });
+
+  test("resolves suburbs to their district", () => {
+    expect(matchLocation("ntinda")).toMatchObject({
+      district: "Kampala",
+      region: "Central",
+      matchType: "exact",
+      score: 80,
+    });
+    expect(matchLocation("ntinda, kampala, uganda")).toMatchObject({
+      district: "Kampala",
+      matchedTerm: "uganda",
+      score: 100,
+    });
+  });
+
+  test("matches towns, alternative names and sub-regions", () => {
+    expect(matchLocation("fort portal")).toMatchObject({
+      district: "Kabarole",
+      score: 75,
+    });
+    expect(matchLocation("rubaga")).toMatchObject({ district: "Kampala" });
+    expect(matchLocation("busoga")).toMatchObject({
+      district: null,
+      region: "Eastern",
+      score: 60,
+    });
+  });
+
+  test("tolerates misspellings with a lower score", () => {
+    for (const typo of ["kamapla", "kampalla", "kmpala"]) {
+      expect(matchLocation(typo)).toMatchObject({
+        district: "Kampala",
+        matchedTerm: "kampala",
+        matchType: "fuzzy",
+        score: 75,
+      });
+    }
+    expect(matchLocation("ugnada")).toMatchObject({
+      matchType: "fuzzy",
+      score: 90,
+    });
+  });
+
+  test("matches short names exactly only", () => {
+    expect(matchLocation("code ninja").score).toBe(0);
+    expect(matchLocation("goma, drc").score).toBe(0);
+  });
+
+  test("scores ambiguous names below minScore unless corroborated", () => {
+    for (const raw of ["Busia, Kenya", "Toro, Spain", "Moyo", "Kira"]) {
+      const match = matchLocation(normaliseLocation(raw));
+      expect(match.score).toBeGreaterThan(0);
+      expect(match.score).toBeLessThan(50);
+    }
+    expect(matchLocation(normaliseLocation("Toro, Spain"))).toMatchObject({
+      matchedTerm: "toro",
+      region: "Western",
+      score: 40,
+    });
+    expect(matchLocation(normaliseLocation("Busia, Uganda"))).toMatchObject({
+      district: "Busia",
+      score: 100,
+    });
+    expect(matchLocation(normaliseLocation("Kira, Wakiso"))).toMatchObject({
+      district: "Wakiso",
+      score: 75,
+    });
+    expect(matchLocation("ggaba").score).toBe(80);
+  });
+
+  test("reports abbreviation matches", () => {
+    expect(matchLocation("nairobi, ug")).toMatchObject({
+      matchType: "abbreviation",
+      score: 50,
+    });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// explainLocation
+// ---------------------------------------------------------------------------
+
+describe("explainLocation", () => {
+  test("lists every matched signal, strongest first", () => {
+    const { match, isLikely, reasons } = explainLocation(
+      "ntinda, kampala, uganda"
+    );
+    expect(match.score).toBe(100);
+    expect(isLikely).toBe(true);
+    expect(reasons.map((r) => [r.rule, r.term, r.score])).toEqual([
+      ["country", "uganda", 100],
+      ["primaryCity", "kampala", 85],
+      ["suburb", "ntinda", 80],
+    ]);
+  });
+
+  test("records fuzzy matches with the text that matched", () => {
+    const [reason] = explainLocation("kamapla").reasons;
+    expect(reason).toEqual({
+      rule: "primaryCity",
+      term: "kampala",
+      matchedText: "kamapla",
+      fuzzy: true,
+      score: 75,
+    });
+    expect(formatScoreReason(reason)).toBe(
+      'primary city "kampala" (typo "kamapla") → 75'
+    );
+  });
+
+  test("names the false-positive marker that vetoes the match", () => {
+    const { match, isLikely, reasons } = explainLocation(
+      "kampala, united states"
+    );
+    expect(match.score).toBe(85);
+    expect(isLikely).toBe(false);
+    const veto = reasons[reasons.length - 1];
+    expect(veto).toMatchObject({ rule: "falsePositive", term: "united states" });
+    expect(formatScoreReason(veto)).toBe(
+      'vetoed by false-positive marker "united states"'
+    );
+  });
+
+  test("has no reasons for unmatched locations", () => {
+    expect(explainLocation("london, united kingdom")).toEqual({
+      match: matchLocation(""),
+      isLikely: false,
+      reasons: [],
+    });
+  });
+});
+
 // ---------------------------------------------------------------------------
 // isUgandaLocation (TS version)
 // ---------------------------------------------------------------------------
@@ -96,3 +262,34 @@ describe("isUgandaLocation (TS version)", () => {
     expect(isUgandaLocation("london")).toBe(false);
   });
 });
+
+// ---------------------------------------------------------------------------
+// Country profiles
+// ---------------------------------------------------------------------------
+
+describe("country profiles", () => {
+  const kenya = COUNTRY_PROFILES.kenya;
+  const tanzania = COUNTRY_PROFILES.tanzania;
+
+  test("scores locations against the given profile", () => {
+    expect(computeConfidenceScore("nairobi, kenya", kenya)).toBe(100);
+    expect(computeConfidenceScore("nairobi", kenya)).toBe(85);
+    expect(computeConfidenceScore("mombasa", kenya)).toBe(75);
+    expect(computeConfidenceScore("east africa, ke", kenya)).toBe(50);
+    expect(computeConfidenceScore("kampala, uganda", kenya)).toBe(0);
+  });
+
+  test("matches multi-word primary cities", () => {
+    expect(computeConfidenceScore("dar es salaam", tanzania)).toBe(85);
+  });
+
+  test("applies profile-specific aliases", () => {
+    expect(normaliseLocation("KE", kenya)).toBe("kenya");
+    expect(normaliseLocation("DSM", tanzania)).toBe("dar es salaam, tanzania");
+  });
+
+  test("isLikelyInCountry applies the profile's false-positive markers", () => {
+    expect(isLikelyInCountry("nairobi", kenya)).toBe(true);
+    expect(isLikelyInCountry("nairobi, united states", kenya)).toBe(false);
+  });
+});
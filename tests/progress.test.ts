@@ -0,0 +1,47 @@
+/**
+ * Tests for lib/progress.ts — folding scrape progress events.
+ */
+
+import { applyProgressEvent, emptyProgress } from "../lib/progress.ts";
+
+describe("applyProgressEvent", () => {
+  test("tracks phase, per-query counts and profile progress", () => {
+    let p = emptyProgress();
+    p = applyProgressEvent(p, { type: "phase", phase: "search" });
+    p = applyProgressEvent(p, { type: "query", query: 'location:"Uganda"', count: 120 });
+    p = applyProgressEvent(p, { type: "phase", phase: "profile" });
+    p = applyProgressEvent(p, { type: "profiles", fetched: 30, total: 120 });
+
+    expect(p.phase).toBe("profile");
+    expect(p.queries).toEqual([{ query: 'location:"Uganda"', count: 120 }]);
+    expect(p.profilesFetched).toBe(30);
+    expect(p.profilesTotal).toBe(120);
+  });
+
+  test("accumulates users discovered across expansion levels", () => {
+    let p = emptyProgress();
+    p = applyProgressEvent(p, { type: "expand", level: 1, depth: 2, discovered: 40 });
+    p = applyProgressEvent(p, { type: "expand", level: 2, depth: 2, discovered: 15 });
+
+    expect(p.expandLevel).toBe(2);
+    expect(p.usersDiscovered).toBe(55);
+  });
+
+  test("records a rate-limit wait until the next event", () => {
+    let p = applyProgressEvent(emptyProgress(), {
+      type: "rateLimit",
+      waitMs: 5000,
+      resumeAt: 1_000_000,
+    });
+    expect(p.rateLimitedUntil).toBe(1_000_000);
+
+    p = applyProgressEvent(p, { type: "profiles", fetched: 1, total: 2 });
+    expect(p.rateLimitedUntil).toBeNull();
+  });
+
+  test("does not mutate the previous snapshot", () => {
+    const before = emptyProgress();
+    applyProgressEvent(before, { type: "query", query: "q", count: 1 });
+    expect(before.queries).toEqual([]);
+  });
+});
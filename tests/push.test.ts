@@ -0,0 +1,350 @@
+/**
+ * Tests for lib/push.ts — mappers, push planning and pushes to HubSpot
+ * and webhook targets, and the push route, against a local mock server.
+ */
+
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import {
+  getPushTargets,
+  planPush,
+  pushUsers,
+  toHubSpotContact,
+  toWebhookUser,
+  type HubSpotContactInput,
+  type PushTarget,
+  type WebhookUser,
+} from "../lib/push.ts";
+import { POST } from "../app/api/runs/[id]/push/route.ts";
+import { createMemoryRunStore, getRunStore } from "../lib/runs.ts";
+import { makeRun, user } from "./fixtures/runs.ts";
+
+describe("mappers", () => {
+  const alice = user("alice", {
+    name: "Alice  Nakato Mukasa",
+    company: "@andela",
+    email: "alice@example.com",
+    blog: "https://alice.dev",
+  });
+
+  test("map users to HubSpot contacts keyed by login, leaving out empty fields", () => {
+    expect(toHubSpotContact(alice)).toEqual({
+      idProperty: "github_login",
+      id: "alice",
+      properties: {
+        github_login: "alice",
+        firstname: "Alice",
+        lastname: "Nakato Mukasa",
+        email: "alice@example.com",
+        company: "andela",
+        website: "https://alice.dev",
+        city: "Kampala",
+        country: "Uganda",
+      },
+    });
+    expect(toHubSpotContact(user("bob")).properties).toEqual({
+      github_login: "bob",
+      firstname: "bob",
+      city: "Kampala",
+      country: "Uganda",
+    });
+  });
+
+  test("map users to flat webhook records with their review", () => {
+    expect(
+      toWebhookUser({ ...alice, reviewState: "confirmed", reviewNote: "hi" })
+    ).toMatchObject({
+      login: "alice",
+      company: "@andela",
+      district: "Kampala",
+      region: "Central",
+      confidenceScore: 90,
+      reviewState: "confirmed",
+      reviewNote: "hi",
+    });
+  });
+});
+
+test("getPushTargets reads targets from env", () => {
+  expect(getPushTargets({})).toEqual([]);
+  expect(
+    getPushTargets({
+      HUBSPOT_TOKEN: "pat",
+      HUBSPOT_API_URL: "http://localhost:1234/",
+      PUSH_WEBHOOK_URL: "https://ats.example.com/hook",
+    })
+  ).toEqual([
+    { name: "hubspot", url: "http://localhost:1234", token: "pat" },
+    { name: "webhook", url: "https://ats.example.com/hook", token: null },
+  ]);
+});
+
+describe("planPush", () => {
+  const users = [user("alice"), user("Bob"), user("carol")];
+  const at = "2024-05-02T00:00:00.000Z";
+  const records = [
+    { login: "alice", target: "hubspot" as const, status: "pushed" as const, at },
+    { login: "carol", target: "hubspot" as const, status: "failed" as const, at },
+    { login: "Bob", target: "webhook" as const, status: "pushed" as const, at },
+  ];
+
+  test("dedups logins and skips users already pushed to the target", () => {
+    const plan = planPush(
+      users,
+      ["alice", "bob", "BOB", "carol", "dave"],
+      records,
+      "hubspot"
+    );
+    expect(plan.users.map((u) => u.login)).toEqual(["Bob", "carol"]);
+    expect(plan.skipped).toEqual([
+      { login: "alice", reason: "already pushed" },
+      { login: "dave", reason: "not in run" },
+    ]);
+  });
+
+  test("pushes again when forced", () => {
+    const plan = planPush(users, ["alice"], records, "hubspot", true);
+    expect(plan.users.map((u) => u.login)).toEqual(["alice"]);
+  });
+});
+
+interface HubSpotBatchBody {
+  inputs: HubSpotContactInput[];
+}
+
+interface WebhookBody {
+  event: string;
+  runId: string;
+  country: string;
+  users: WebhookUser[];
+}
+
+/** A request to either target; each test reads what its target sends. */
+type PushBody = HubSpotBatchBody & WebhookBody;
+
+describe("pushUsers", () => {
+  let server: http.Server;
+  let requests: {
+    method?: string;
+    url?: string;
+    auth?: string;
+    body: PushBody;
+  }[];
+  /** The reply to a request; null leaves it hanging. */
+  let respond: (body: PushBody) => { status: number; body: unknown } | null;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let data = "";
+      req.on("data", (chunk) => (data += chunk));
+      req.on("end", () => {
+        const body = JSON.parse(data) as PushBody;
+        requests.push({
+          method: req.method,
+          url: req.url,
+          auth: req.headers.authorization,
+          body,
+        });
+        const reply = respond(body);
+        if (!reply) return;
+        res.writeHead(reply.status, { "Content-Type": "application/json" });
+        res.end(JSON.stringify(reply.body));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+  beforeEach(() => {
+    requests = [];
+  });
+
+  test("upserts HubSpot contacts, records their ids and skips them next time", async () => {
+    respond = (body) => ({
+      status: 200,
+      body: {
+        status: "COMPLETE",
+        results: body.inputs.map((input, i) => ({
+          id: String(100 + i),
+          properties: input.properties,
+        })),
+      },
+    });
+    const store = createMemoryRunStore();
+    const run = makeRun({ users: [user("alice"), user("bob")] });
+    await store.save(run);
+    const target: PushTarget = { name: "hubspot", url: baseUrl, token: "pat" };
+
+    const preview = await pushUsers(store, run, target, ["alice", "bob"], {
+      dryRun: true,
+    });
+    expect(preview.previews.map((p) => p.login)).toEqual(["alice", "bob"]);
+    expect(preview.pushed).toEqual([]);
+    expect(requests).toEqual([]);
+    await expect(store.listPushes("run-1")).resolves.toEqual([]);
+
+    const result = await pushUsers(store, run, target, ["alice", "bob"]);
+    expect(result.pushed).toEqual(["alice", "bob"]);
+    expect(requests).toHaveLength(1);
+    expect(requests[0]).toMatchObject({
+      method: "POST",
+      url: "/crm/v3/objects/contacts/batch/upsert",
+      auth: "Bearer pat",
+    });
+    expect(requests[0].body.inputs[0]).toEqual(toHubSpotContact(user("alice")));
+    const pushes = await store.listPushes("run-1");
+    expect(pushes.map((p) => [p.login, p.status, p.externalId])).toEqual([
+      ["alice", "pushed", "100"],
+      ["bob", "pushed", "101"],
+    ]);
+
+    const again = await pushUsers(store, run, target, ["alice", "bob"]);
+    expect(again.pushed).toEqual([]);
+    expect(again.skipped.map((s) => s.reason)).toEqual([
+      "already pushed",
+      "already pushed",
+    ]);
+    expect(requests).toHaveLength(1);
+  });
+
+  test("marks HubSpot contacts left out of a 207 response as failed", async () => {
+    respond = (body) => ({
+      status: 207,
+      body: {
+        status: "COMPLETE",
+        results: [{ id: "100", properties: body.inputs[0].properties }],
+        numErrors: 1,
+        errors: [
+          {
+            status: "error",
+            category: "VALIDATION_ERROR",
+            message: "Property values were not valid",
+            context: { ids: ["bob"] },
+          },
+        ],
+      },
+    });
+    const store = createMemoryRunStore();
+    const run = makeRun({
+      users: [user("alice"), user("bob"), user("carol")],
+    });
+    await store.save(run);
+    const target: PushTarget = { name: "hubspot", url: baseUrl, token: "pat" };
+
+    const logins = ["alice", "bob", "carol"];
+    const result = await pushUsers(store, run, target, logins);
+    expect(result.pushed).toEqual(["alice"]);
+    expect(result.failed).toEqual([
+      { login: "bob", error: "Property values were not valid" },
+      { login: "carol", error: "hubspot returned no contact for this login" },
+    ]);
+    const pushes = await store.listPushes("run-1");
+    expect(pushes.map((p) => [p.login, p.status, p.externalId])).toEqual([
+      ["alice", "pushed", "100"],
+      ["bob", "failed", undefined],
+      ["carol", "failed", undefined],
+    ]);
+
+    // The failed users are sent again; alice is not.
+    const retry = await pushUsers(store, run, target, logins);
+    const resent = requests[1].body.inputs.map((i) => i.id);
+    expect(resent).toEqual(["bob", "carol"]);
+    expect(retry.skipped).toEqual([{ login: "alice", reason: "already pushed" }]);
+  });
+
+  test("posts webhook batches and records failed batches for a retry", async () => {
+    let fail = true;
+    respond = () =>
+      fail
+        ? { status: 503, body: { message: "ATS is down" } }
+        : { status: 202, body: {} };
+    const store = createMemoryRunStore();
+    const users = Array.from({ length: 150 }, (_, i) => user(`u${i}`));
+    const run = makeRun({ users });
+    await store.save(run);
+    await store.saveReview({
+      login: "u0",
+      state: "confirmed",
+      note: "",
+      updatedAt: "2024-05-02T00:00:00.000Z",
+    });
+    const target: PushTarget = {
+      name: "webhook",
+      url: `${baseUrl}/hook`,
+      token: null,
+    };
+    const logins = users.map((u) => u.login);
+
+    const failed = await pushUsers(store, run, target, logins);
+    expect(failed.failed).toHaveLength(150);
+    expect(failed.failed[0].error).toBe("webhook responded 503: ATS is down");
+    expect(requests).toHaveLength(2);
+    expect(requests[0].auth).toBeUndefined();
+    expect(requests[0].body).toMatchObject({
+      event: "users.push",
+      runId: "run-1",
+      country: "uganda",
+    });
+    expect(requests[0].body.users).toHaveLength(100);
+    expect(requests[0].body.users[0].reviewState).toBe("confirmed");
+
+    fail = false;
+    const retried = await pushUsers(store, run, target, logins);
+    expect(retried.pushed).toHaveLength(150);
+    const pushes = await store.listPushes("run-1");
+    expect(pushes.every((p) => p.status === "pushed" && !p.error)).toBe(true);
+  });
+
+  test("fails the batch when the target never responds", async () => {
+    respond = () => null;
+    const store = createMemoryRunStore();
+    const run = makeRun({ users: [user("alice")] });
+    await store.save(run);
+    const target: PushTarget = {
+      name: "webhook",
+      url: `${baseUrl}/hook`,
+      token: null,
+    };
+
+    const result = await pushUsers(store, run, target, ["alice"], {
+      timeoutMs: 100,
+    });
+    expect(result.pushed).toEqual([]);
+    expect(result.failed).toEqual([
+      { login: "alice", error: "webhook did not respond within 0.1s" },
+    ]);
+    const [record] = await store.listPushes("run-1");
+    expect(record.status).toBe("failed");
+  });
+
+  test("POST /api/runs/:id/push selects logins case-insensitively", async () => {
+    process.env.PUSH_WEBHOOK_URL = `${baseUrl}/hook`;
+    try {
+      const run = makeRun({ users: [user("Alice"), user("bob")] });
+      await getRunStore().save(run);
+
+      const res = await POST(
+        new Request("http://localhost/api/runs/run-1/push", {
+          method: "POST",
+          body: JSON.stringify({
+            target: "webhook",
+            logins: ["alice", "BOB"],
+            query: "sort=followers",
+            dryRun: true,
+          }),
+        }),
+        { params: Promise.resolve({ id: "run-1" }) }
+      );
+      expect(res.status).toBe(200);
+      const result = await res.json();
+      const logins = result.previews.map((p: { login: string }) => p.login);
+      expect(logins.sort()).toEqual(["Alice", "bob"]);
+    } finally {
+      delete process.env.PUSH_WEBHOOK_URL;
+    }
+  });
+});
@@ -0,0 +1,39 @@
+/**
+ * Tests for lib/reviews.ts — merging manual reviews into users.
+ */
+
+import { applyReviews, isReviewState } from "../lib/reviews.ts";
+import { user } from "./fixtures/runs.ts";
+
+describe("applyReviews", () => {
+  test("adds the review state and note, defaulting to unreviewed", () => {
+    const users = applyReviews(
+      [user("alice"), user("bob")],
+      [
+        {
+          login: "alice",
+          state: "rejected",
+          note: "lives in Nairobi",
+          updatedAt: "2024-01-01T00:00:00.000Z",
+        },
+      ]
+    );
+    expect(users.map((u) => [u.reviewState, u.reviewNote])).toEqual([
+      ["rejected", "lives in Nairobi"],
+      ["unreviewed", ""],
+    ]);
+  });
+
+  test("does not modify the stored users", () => {
+    const stored = [user("alice")];
+    applyReviews(stored, []);
+    expect(stored[0]).not.toHaveProperty("reviewState");
+  });
+});
+
+describe("isReviewState", () => {
+  test("accepts only known states", () => {
+    expect(isReviewState("needs-info")).toBe(true);
+    expect(isReviewState("maybe")).toBe(false);
+  });
+});
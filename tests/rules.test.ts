@@ -0,0 +1,242 @@
+/**
+ * Tests for lib/rules.ts — proposing, evaluating and persisting learned
+ * location rules, and saving them through POST /api/rules.
+ */
+
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { POST } from "../app/api/rules/route.ts";
+import { COUNTRY_PROFILES } from "../lib/countries.ts";
+import {
+  explainLocation,
+  isLikelyUganda,
+  normaliseLocation,
+} from "../lib/normalize.ts";
+import { createMemoryRunStore } from "../lib/runs.ts";
+import {
+  LabeledLocation,
+  applyProposals,
+  collectLabeledLocations,
+  emptyRules,
+  evaluateRules,
+  loadCountryProfile,
+  loadRules,
+  proposeRules,
+  saveRules,
+  withLearnedRules,
+} from "../lib/rules.ts";
+
+const uganda = COUNTRY_PROFILES.uganda;
+
+function label(location: string, confirmed: boolean): LabeledLocation {
+  return { login: location, location, confirmed };
+}
+
+describe("evaluateRules", () => {
+  test("counts accepted locations against the labels", () => {
+    const metrics = evaluateRules(
+      [
+        label("Kampala", true),
+        label("Pearl of Africa", true),
+        label("Uganda", false),
+        label("Berlin", false),
+      ],
+      uganda,
+      50
+    );
+    expect(metrics).toEqual({
+      precision: 0.5,
+      recall: 0.5,
+      truePositives: 1,
+      falsePositives: 1,
+      falseNegatives: 1,
+    });
+  });
+});
+
+describe("proposeRules", () => {
+  const samples = [
+    label("Kampala", true),
+    label("Pearl of Africa", true),
+    label("Pearl of Africa", true),
+    label("Lira, Brescia", false),
+    label("Arua, Brescia", false),
+    label("Uganda", true),
+  ];
+
+  test("proposes an alias for a confirmed location the profile misses", () => {
+    const { proposals } = proposeRules(samples, uganda);
+    expect(proposals).toContainEqual(
+      expect.objectContaining({
+        kind: "alias",
+        from: "pearl of africa",
+        to: "pearl of africa, uganda",
+        support: 2,
+      })
+    );
+  });
+
+  test("proposes a marker shared by rejected locations only", () => {
+    const { proposals } = proposeRules(samples, uganda);
+    const marker = proposals.find((p) => p.kind === "falsePositiveMarker");
+    expect(marker).toMatchObject({ marker: "brescia", support: 2 });
+    expect(marker?.metrics.falsePositives).toBe(0);
+  });
+
+  test("lowers a term that mostly matches rejected users", () => {
+    const { proposals } = proposeRules(
+      [label("Lira", false), label("Lira", false), label("Lira", true)],
+      uganda
+    );
+    expect(proposals).toEqual([
+      expect.objectContaining({ kind: "scoreAdjustment", term: "lira", delta: -26 }),
+    ]);
+  });
+
+  test("reports baseline and combined precision / recall", () => {
+    const result = proposeRules(samples, uganda);
+    expect(result.samples).toBe(6);
+    expect(result.baseline).toMatchObject({ precision: 0.5, recall: 0.5 });
+    expect(result.combined).toMatchObject({ precision: 1, recall: 1 });
+  });
+
+  test("respects minSupport", () => {
+    expect(proposeRules(samples, uganda, { minSupport: 3 }).proposals).toEqual([]);
+  });
+});
+
+describe("withLearnedRules", () => {
+  test("applies learned aliases, markers and score adjustments", () => {
+    const profile = withLearnedRules(
+      uganda,
+      applyProposals(emptyRules(), [
+        { kind: "alias", from: "pearl of africa", to: "pearl of africa, uganda" },
+        { kind: "falsePositiveMarker", marker: "brescia" },
+        { kind: "scoreAdjustment", term: "lira", delta: -75 },
+      ])
+    );
+    const explain = (loc: string) =>
+      explainLocation(normaliseLocation(loc, profile), profile);
+
+    expect(explain("Pearl of Africa").match.score).toBe(100);
+    expect(explain("Arua, Brescia").isLikely).toBe(false);
+    expect(explain("Lira").match.score).toBe(0);
+    // The built-in profile is unchanged.
+    expect(uganda.falsePositiveMarkers).not.toContain("brescia");
+  });
+});
+
+describe("collectLabeledLocations", () => {
+  test("joins confirmed and rejected reviews with run locations", async () => {
+    const store = createMemoryRunStore();
+    const user = (login: string, location: string | null) =>
+      ({ login, location }) as never;
+    await store.save({
+      runId: "r1",
+      request: { country: "uganda" } as never,
+      stats: {} as never,
+      createdAt: "2024-01-01T00:00:00.000Z",
+      completedAt: "2024-01-01T00:00:00.000Z",
+      users: [user("a", "Kampala"), user("b", "Lira, Italy"), user("c", null)],
+    });
+    const at = "2024-02-01T00:00:00.000Z";
+    await store.saveReview({ login: "a", state: "confirmed", note: "", updatedAt: at });
+    await store.saveReview({ login: "b", state: "rejected", note: "", updatedAt: at });
+    await store.saveReview({ login: "c", state: "confirmed", note: "", updatedAt: at });
+
+    await expect(collectLabeledLocations(store, "uganda")).resolves.toEqual([
+      { login: "a", location: "Kampala", confirmed: true },
+      { login: "b", location: "Lira, Italy", confirmed: false },
+    ]);
+    await expect(collectLabeledLocations(store, "kenya")).resolves.toEqual([]);
+  });
+});
+
+describe("rules file", () => {
+  test("saves rules and merges them into loaded profiles", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "gitfast-rules-"));
+    const file = path.join(dir, "rules.json");
+    await expect(loadRules(file)).resolves.toEqual({});
+
+    await saveRules(
+      {
+        uganda: applyProposals(emptyRules(), [
+          { kind: "falsePositiveMarker", marker: "brescia" },
+        ]),
+      },
+      file
+    );
+    const profile = await loadCountryProfile("uganda", file);
+    expect(profile?.falsePositiveMarkers).toContain("brescia");
+    const kenya = await loadCountryProfile("kenya", file);
+    expect(kenya?.falsePositiveMarkers).not.toContain("brescia");
+  });
+
+  test("saved rules become the defaults of normaliseLocation and isLikelyUganda", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "gitfast-rules-"));
+    const file = path.join(dir, "rules.json");
+    expect(normaliseLocation("Pearl of Africa")).toBe("pearl of africa");
+
+    await saveRules(
+      {
+        uganda: applyProposals(emptyRules(), [
+          { kind: "alias", from: "pearl of africa", to: "uganda" },
+          { kind: "falsePositiveMarker", marker: "gulu street" },
+        ]),
+      },
+      file
+    );
+    expect(normaliseLocation("Pearl of Africa")).toBe("uganda");
+    expect(isLikelyUganda("gulu street, london")).toBe(false);
+
+    await saveRules({ uganda: emptyRules() }, file);
+    await loadCountryProfile("uganda", file);
+    expect(normaliseLocation("Pearl of Africa")).toBe("pearl of africa");
+    expect(isLikelyUganda("gulu street, london")).toBe(true);
+  });
+});
+
+describe("POST /api/rules", () => {
+  let file: string;
+  beforeEach(async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "gitfast-rules-"));
+    file = path.join(dir, "rules.json");
+    process.env.RULES_FILE = file;
+  });
+  afterEach(() => {
+    delete process.env.RULES_FILE;
+  });
+
+  const post = (proposals: unknown[]) =>
+    POST(
+      new Request("http://localhost/api/rules", {
+        method: "POST",
+        body: JSON.stringify({ country: "uganda", proposals }),
+      })
+    );
+
+  test("rejects empty markers and aliases without saving them", async () => {
+    for (const proposal of [
+      { kind: "falsePositiveMarker", marker: "" },
+      { kind: "falsePositiveMarker", marker: "  " },
+      { kind: "alias", from: " ", to: "kampala" },
+      { kind: "alias", from: "kla", to: "" },
+    ]) {
+      const res = await post([proposal]);
+      expect(res.status).toBe(400);
+    }
+    await expect(loadRules(file)).resolves.toEqual({});
+  });
+
+  test("saves trimmed terms", async () => {
+    const res = await post([
+      { kind: "falsePositiveMarker", marker: " Brescia " },
+      { kind: "alias", from: " KLA", to: "Kampala " },
+    ]);
+    expect(res.status).toBe(200);
+    const { uganda: rules } = await loadRules(file);
+    expect(rules.falsePositiveMarkers).toEqual(["brescia"]);
+    expect(rules.aliases).toEqual({ kla: "kampala" });
+  });
+});
@@ -0,0 +1,211 @@
+/**
+ * Tests for lib/runs.ts — in-memory and file-system run stores and the
+ * checkpoint writer, push statuses and the webhook delivery log included.
+ */
+
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import {
+  createCheckpointWriter,
+  createFileRunStore,
+  createMemoryRunStore,
+  getRunStore,
+  RunStore,
+} from "../lib/runs.ts";
+import { emptyCheckpoint } from "../lib/github.ts";
+import { makeRun, user } from "./fixtures/runs.ts";
+
+/** A saved run with one user. */
+const testRun = (runId: string, createdAt: string) =>
+  makeRun({ runId, createdAt, users: [user("testuser")] });
+
+function describeStore(name: string, create: () => Promise<RunStore>) {
+  describe(name, () => {
+    let store: RunStore;
+    beforeEach(async () => {
+      store = await create();
+    });
+
+    test("returns null for unknown runId", async () => {
+      await expect(store.get("nonexistent")).resolves.toBeNull();
+    });
+
+    test("saves and retrieves a run", async () => {
+      const run = testRun("run-1", "2024-01-01T00:00:00.000Z");
+      await store.save(run);
+      await expect(store.get("run-1")).resolves.toEqual(run);
+    });
+
+    test("lists run summaries newest first, without users", async () => {
+      await store.save(testRun("old", "2024-01-01T00:00:00.000Z"));
+      await store.save(testRun("new", "2024-02-01T00:00:00.000Z"));
+      const runs = await store.list();
+      expect(runs.map((r) => r.runId)).toEqual(["new", "old"]);
+      expect(runs[0]).not.toHaveProperty("users");
+    });
+
+    test("deletes a run", async () => {
+      await store.save(testRun("run-1", "2024-01-01T00:00:00.000Z"));
+      await expect(store.delete("run-1")).resolves.toBe(true);
+      await expect(store.get("run-1")).resolves.toBeNull();
+      await expect(store.delete("run-1")).resolves.toBe(false);
+    });
+
+    test("saves reviews by login, replacing earlier ones", async () => {
+      const at = "2024-03-01T00:00:00.000Z";
+      await store.saveReview({ login: "a", state: "needs-info", note: "", updatedAt: at });
+      await Promise.all([
+        store.saveReview({ login: "a", state: "confirmed", note: "met at meetup", updatedAt: at }),
+        store.saveReview({ login: "b", state: "rejected", note: "", updatedAt: at }),
+      ]);
+      const reviews = await store.listReviews();
+      expect(reviews.sort((x, y) => x.login.localeCompare(y.login))).toEqual([
+        { login: "a", state: "confirmed", note: "met at meetup", updatedAt: at },
+        { login: "b", state: "rejected", note: "", updatedAt: at },
+      ]);
+    });
+
+    test("saves, lists and deletes checkpoints", async () => {
+      const { runId, request, createdAt } = testRun(
+        "run-1",
+        "2024-01-01T00:00:00.000Z"
+      );
+      const state = emptyCheckpoint();
+      state.profiles.alice = null;
+      const checkpoint = { runId, request, createdAt, updatedAt: createdAt, state };
+      await store.saveCheckpoint(checkpoint);
+      state.profiles.bob = null;
+
+      await expect(store.getCheckpoint("run-1")).resolves.toEqual({
+        ...checkpoint,
+        state: { ...state, profiles: { alice: null } },
+      });
+      const [summary] = await store.listCheckpoints();
+      expect(summary).toEqual({ runId, request, createdAt, updatedAt: createdAt });
+      expect(await store.list()).toEqual([]);
+
+      await store.deleteCheckpoint("run-1");
+      await expect(store.getCheckpoint("run-1")).resolves.toBeNull();
+    });
+
+    test("saves push statuses by target and login, per run", async () => {
+      const at = "2024-03-01T00:00:00.000Z";
+      await store.save(testRun("run-1", at));
+      await store.savePushes("run-1", [
+        { login: "a", target: "hubspot", status: "failed", at, error: "503" },
+        { login: "a", target: "webhook", status: "pushed", at },
+      ]);
+      await Promise.all([
+        store.savePushes("run-1", [
+          { login: "a", target: "hubspot", status: "pushed", at, externalId: "7" },
+        ]),
+        store.savePushes("run-2", [
+          { login: "b", target: "webhook", status: "pushed", at },
+        ]),
+      ]);
+
+      const pushes = await store.listPushes("run-1");
+      expect(pushes.sort((x, y) => x.target.localeCompare(y.target))).toEqual([
+        { login: "a", target: "hubspot", status: "pushed", at, externalId: "7" },
+        { login: "a", target: "webhook", status: "pushed", at },
+      ]);
+
+      await store.delete("run-1");
+      await expect(store.listPushes("run-1")).resolves.toEqual([]);
+      await expect(store.listPushes("run-2")).resolves.toHaveLength(1);
+    });
+
+    test("logs webhook deliveries newest first, replacing by id", async () => {
+      const delivery = (id: string, createdAt: string) => ({
+        id,
+        subscriptionId: "sub-1",
+        event: "run.completed" as const,
+        url: "https://example.com/hook",
+        runId: "run-1",
+        status: "pending" as const,
+        attempts: [],
+        createdAt,
+      });
+      await store.saveDelivery(delivery("d1", "2024-01-01T00:00:00.000Z"));
+      await Promise.all([
+        store.saveDelivery(delivery("d2", "2024-01-02T00:00:00.000Z")),
+        store.saveDelivery({
+          ...delivery("d1", "2024-01-01T00:00:00.000Z"),
+          status: "delivered",
+        }),
+      ]);
+      const log = await store.listDeliveries();
+      expect(log.map((d) => [d.id, d.status])).toEqual([
+        ["d2", "pending"],
+        ["d1", "delivered"],
+      ]);
+    });
+  });
+}
+
+describeStore("createMemoryRunStore", async () => createMemoryRunStore());
+
+describeStore("createFileRunStore", async () =>
+  createFileRunStore(await fs.mkdtemp(path.join(os.tmpdir(), "gitfast-runs-")))
+);
+
+describe("createFileRunStore", () => {
+  test("persists runs across store instances", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "gitfast-runs-"));
+    await createFileRunStore(dir).save(
+      testRun("run-1", "2024-01-01T00:00:00.000Z")
+    );
+    const reopened = createFileRunStore(dir);
+    await expect(reopened.get("run-1")).resolves.not.toBeNull();
+  });
+
+  test("rejects run ids that are not safe file names", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "gitfast-runs-"));
+    const store = createFileRunStore(dir);
+    await expect(
+      store.save(testRun("../escape", "2024-01-01T00:00:00.000Z"))
+    ).rejects.toThrow("Invalid runId");
+    await expect(store.get("../escape")).resolves.toBeNull();
+  });
+});
+
+describe("createCheckpointWriter", () => {
+  const run = { runId: "run-1", request: testRun("run-1", "").request, createdAt: "" };
+
+  test("saves at most once per interval, with the latest state", async () => {
+    const store = createMemoryRunStore();
+    const saves: number[] = [];
+    const saveCheckpoint = store.saveCheckpoint;
+    store.saveCheckpoint = async (checkpoint) => {
+      saves.push(Object.keys(checkpoint.state.profiles).length);
+      return saveCheckpoint(checkpoint);
+    };
+    const writer = createCheckpointWriter(store, run, 60_000);
+    const state = emptyCheckpoint();
+
+    writer.update(state);
+    state.profiles.alice = null;
+    writer.update(state);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(saves).toEqual([1]);
+
+    state.profiles.bob = null;
+    writer.update(state);
+    await writer.flush();
+    expect(saves).toEqual([1, 2]);
+    await expect(store.getCheckpoint("run-1")).resolves.not.toBeNull();
+
+    await writer.clear();
+    await expect(store.getCheckpoint("run-1")).resolves.toBeNull();
+  });
+});
+
+describe("getRunStore", () => {
+  test("defaults to the in-memory store under test", async () => {
+    const store = getRunStore();
+    expect(getRunStore()).toBe(store);
+    await store.save(testRun("run-1", "2024-01-01T00:00:00.000Z"));
+    await expect(store.get("run-1")).resolves.not.toBeNull();
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Tests for lib/signals.ts — combining location, profile-text, domain,
+ * Twitter and organisation signals.
+ */
+
+import { COUNTRY_PROFILES } from "../lib/countries.ts";
+import {
+  combineSignals,
+  DEFAULT_SIGNAL_WEIGHTS,
+  resolveSignalWeights,
+  scoreSignals,
+  SignalProfile,
+} from "../lib/signals.ts";
+
+const uganda = COUNTRY_PROFILES.uganda;
+
+function profile(overrides: Partial<SignalProfile> = {}): SignalProfile {
+  return {
+    location: null,
+    bio: null,
+    company: null,
+    blog: null,
+    email: null,
+    twitter_username: null,
+    ...overrides,
+  };
+}
+
+describe("combineSignals", () => {
+  test("a full-weight signal alone scores its own value", () => {
+    expect(combineSignals({ location: 85 })).toBe(85);
+    expect(combineSignals({ location: 100, bio: 100 })).toBe(100);
+  });
+
+  test("weaker signals reinforce each other without exceeding 100", () => {
+    const one = combineSignals({ blog: 100 });
+    const two = combineSignals({ blog: 100, twitter: 100 });
+    expect(one).toBe(70);
+    expect(two).toBeGreaterThan(one);
+    expect(two).toBeLessThanOrEqual(100);
+  });
+
+  test("a zero weight ignores the signal", () => {
+    const weights = resolveSignalWeights({ blog: 0 });
+    expect(combineSignals({ blog: 100 }, weights)).toBe(0);
+  });
+});
+
+describe("resolveSignalWeights", () => {
+  test("fills defaults and clamps to 0 – 1", () => {
+    expect(resolveSignalWeights({ bio: 3, email: -1 })).toEqual({
+      ...DEFAULT_SIGNAL_WEIGHTS,
+      bio: 1,
+      email: 0,
+    });
+  });
+});
+
+describe("scoreSignals", () => {
+  test("a location-only user scores as before", () => {
+    const result = scoreSignals(profile({ location: "Kampala" }), uganda);
+    expect(result.confidenceScore).toBe(85);
+    expect(result.signalScores).toEqual({ location: 85 });
+    expect(result.isLikely).toBe(true);
+  });
+
+  test("surfaces a user with a Makerere bio and no location", () => {
+    const result = scoreSignals(
+      profile({ bio: "CS student at Makerere University" }),
+      uganda
+    );
+    expect(result.confidenceScore).toBeGreaterThanOrEqual(50);
+    expect(result.isLikely).toBe(true);
+    expect(result.reasons).toContainEqual(
+      expect.objectContaining({ signal: "bio", rule: "org", term: "makerere" })
+    );
+  });
+
+  test("scores .ug blog and email domains", () => {
+    const result = scoreSignals(
+      profile({ blog: "https://jane.co.ug/", email: "jane@cit.ac.ug" }),
+      uganda
+    );
+    expect(result.signalScores).toEqual({ blog: 100, email: 100 });
+    expect(result.reasons.map((r) => r.matchedText)).toEqual([
+      "jane.co.ug",
+      "cit.ac.ug",
+    ]);
+  });
+
+  test("reads the country or capital from a Twitter handle", () => {
+    expect(
+      scoreSignals(profile({ twitter_username: "KampalaDev" }), uganda)
+        .signalScores
+    ).toEqual({ twitter: 85 });
+  });
+
+  test("counts membership of known or country-named organisations", () => {
+    const result = scoreSignals(
+      profile({
+        orgs: [
+          { login: "sunbird-ai", description: null },
+          { login: "uganda-devs", description: "Developers in Uganda" },
+          { login: "octo-org", description: "Anything" },
+        ],
+      }),
+      uganda
+    );
+    expect(result.signalScores).toEqual({ org: 100 });
+    expect(result.reasons.map((r) => r.matchedText)).toEqual([
+      "sunbird-ai",
+      "uganda-devs",
+    ]);
+  });
+
+  test("ignores short place names in free text", () => {
+    expect(
+      scoreSignals(profile({ bio: "Kira builds apps in Lira" }), uganda)
+        .confidenceScore
+    ).toBe(0);
+  });
+
+  test("a vetoed location clears isLikely but keeps its score", () => {
+    const result = scoreSignals(
+      profile({ location: "Kampala, United States" }),
+      uganda
+    );
+    expect(result.confidenceScore).toBe(85);
+    expect(result.isLikely).toBe(false);
+  });
+});
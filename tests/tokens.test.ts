@@ -0,0 +1,88 @@
+/**
+ * Tests for lib/tokens.ts — rate-limit-aware token rotation.
+ */
+
+import { createTokenPool, tokensFromEnv } from "../lib/tokens.ts";
+
+function rateHeaders(remaining: number, resetInSec = 60): Headers {
+  return new Headers({
+    "x-ratelimit-remaining": String(remaining),
+    "x-ratelimit-limit": "30",
+    "x-ratelimit-reset": String(Math.floor(Date.now() / 1000) + resetInSec),
+  });
+}
+
+describe("createTokenPool", () => {
+  test("uses a single anonymous entry when no tokens are given", () => {
+    const pool = createTokenPool([]);
+    expect(pool.size).toBe(1);
+    expect(pool.acquire("core")).toEqual({ token: null, waitMs: 0 });
+  });
+
+  test("routes requests to the token with the most remaining quota", () => {
+    const pool = createTokenPool(["aaaa1111", "bbbb2222"]);
+    pool.record("aaaa1111", "search", rateHeaders(2));
+    pool.record("bbbb2222", "search", rateHeaders(20));
+    expect(pool.acquire("search").token).toBe("bbbb2222");
+  });
+
+  test("tracks search and core quotas separately", () => {
+    const pool = createTokenPool(["aaaa1111", "bbbb2222"]);
+    pool.record("aaaa1111", "search", rateHeaders(0));
+    pool.record("bbbb2222", "core", rateHeaders(0));
+    expect(pool.acquire("search").token).toBe("bbbb2222");
+    expect(pool.acquire("core").token).toBe("aaaa1111");
+  });
+
+  test("waits only when every token is exhausted", () => {
+    const pool = createTokenPool(["aaaa1111", "bbbb2222"]);
+    pool.exhaust("aaaa1111", "search", Date.now() + 30_000);
+    expect(pool.acquire("search")).toEqual({ token: "bbbb2222", waitMs: 0 });
+
+    pool.exhaust("bbbb2222", "search", Date.now() + 10_000);
+    const lease = pool.acquire("search");
+    expect(lease.token).toBe("bbbb2222");
+    expect(lease.waitMs).toBeGreaterThan(5_000);
+    expect(pool.stats().waits).toBe(1);
+  });
+
+  test("stats mask tokens and can be taken relative to an earlier snapshot", () => {
+    const pool = createTokenPool(["secret-token-abcd"]);
+    pool.acquire("core");
+    const before = pool.stats();
+    pool.acquire("core");
+    pool.acquire("core");
+
+    const stats = pool.stats(before);
+    expect(stats.tokens[0].label).toBe("…abcd");
+    expect(stats.tokens[0].requests).toBe(2);
+    expect(JSON.stringify(stats)).not.toContain("secret");
+  });
+});
+
+describe("tokensFromEnv", () => {
+  const env = { ...process.env };
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  test("prefers comma-separated GITHUB_TOKENS over GITHUB_TOKEN", () => {
+    process.env.GITHUB_TOKENS = "a, b,,c";
+    process.env.GITHUB_TOKEN = "single";
+    expect(tokensFromEnv()).toEqual(["a", "b", "c"]);
+  });
+
+  test("falls back to GITHUB_TOKEN", () => {
+    delete process.env.GITHUB_TOKENS;
+    process.env.GITHUB_TOKEN = "single";
+    expect(tokensFromEnv()).toEqual(["single"]);
+  });
+
+  test("falls back to GITHUB_TOKEN when GITHUB_TOKENS is blank", () => {
+    process.env.GITHUB_TOKEN = "single";
+    for (const blank of ["", "  ", " , "]) {
+      process.env.GITHUB_TOKENS = blank;
+      expect(tokensFromEnv()).toEqual(["single"]);
+    }
+  });
+});
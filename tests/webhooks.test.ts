@@ -0,0 +1,233 @@
+/**
+ * Tests for lib/webhooks.ts — signing, delivery with retries, the delivery
+ * log and run notifications, against a local receiver.
+ */
+
+import { createHmac } from "node:crypto";
+import { promises as fs } from "node:fs";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import os from "node:os";
+import path from "node:path";
+import { createMemoryRunStore } from "../lib/runs.ts";
+import type { ScrapeRequest } from "../lib/types/user.ts";
+import {
+  SIGNATURE_HEADER,
+  deliverWebhook,
+  loadWebhooks,
+  notifyRunCompleted,
+  notifyRunFailed,
+  sameQuerySet,
+  saveWebhooks,
+  signPayload,
+  type WebhookSubscription,
+} from "../lib/webhooks.ts";
+import { makeRun, user } from "./fixtures/runs.ts";
+
+const noDelays = { retryDelays: [0, 0, 0] };
+
+const request = (locations: string[], orgs: string[] = []) =>
+  ({ country: "uganda", locations, orgs }) as unknown as ScrapeRequest;
+
+/** A run of `locations` that found `logins`. */
+const queryRun = (
+  runId: string,
+  createdAt: string,
+  logins: string[],
+  locations = ["Kampala"]
+) =>
+  makeRun({
+    runId,
+    createdAt,
+    request: { locations },
+    users: logins.map((login) => user(login)),
+  });
+
+test("sameQuerySet ignores order and case of terms", () => {
+  const kampala = request(["Kampala"]);
+  expect(
+    sameQuerySet(request(["Kampala", "Gulu"]), request(["gulu", "KAMPALA "]))
+  ).toBe(true);
+  expect(sameQuerySet(kampala, request(["Kampala", "Gulu"]))).toBe(false);
+  expect(sameQuerySet(kampala, request(["Kampala"], ["andela"]))).toBe(false);
+});
+
+test("loadWebhooks reads a missing file as no subscriptions", async () => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "gitfast-webhooks-"));
+  const file = path.join(dir, "webhooks.json");
+  await expect(loadWebhooks(file)).resolves.toEqual({ subscriptions: [] });
+});
+
+describe("webhook delivery", () => {
+  let server: http.Server;
+  let received: { headers: http.IncomingHttpHeaders; body: string }[];
+  let statuses: number[];
+  let url: string;
+  let file: string;
+
+  const subscription = (
+    events: WebhookSubscription["events"]
+  ): WebhookSubscription => ({
+    id: "sub-1",
+    url,
+    secret: "s3cret",
+    events,
+    createdAt: "2024-01-01T00:00:00.000Z",
+  });
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        received.push({ headers: req.headers, body });
+        res.writeHead(statuses.shift() ?? 200);
+        res.end();
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+  });
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+  beforeEach(async () => {
+    received = [];
+    statuses = [];
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "gitfast-webhooks-"));
+    file = path.join(dir, "webhooks.json");
+    process.env.WEBHOOKS_FILE = file;
+  });
+  afterEach(() => {
+    delete process.env.WEBHOOKS_FILE;
+  });
+
+  test("signs the payload with the subscription secret", async () => {
+    const store = createMemoryRunStore();
+    const delivery = await deliverWebhook(
+      store,
+      subscription(["run.completed"]),
+      "run.completed",
+      "run-1",
+      { hello: "world" }
+    );
+    expect(delivery.status).toBe("delivered");
+
+    const [{ headers, body }] = received;
+    const expected = createHmac("sha256", "s3cret").update(body).digest("hex");
+    expect(headers[SIGNATURE_HEADER.toLowerCase()]).toBe(`sha256=${expected}`);
+    expect(signPayload("s3cret", body)).toBe(`sha256=${expected}`);
+    expect(headers["x-gitfast-event"]).toBe("run.completed");
+    expect(JSON.parse(body)).toEqual({
+      id: delivery.id,
+      event: "run.completed",
+      createdAt: delivery.createdAt,
+      data: { hello: "world" },
+    });
+  });
+
+  test("retries failures with backoff and logs every attempt", async () => {
+    const store = createMemoryRunStore();
+    statuses = [503, 500];
+    const delivered = await deliverWebhook(
+      store,
+      subscription(["run.completed"]),
+      "run.completed",
+      "run-1",
+      {},
+      noDelays
+    );
+    expect(delivered.status).toBe("delivered");
+    expect(delivered.attempts.map((a) => a.status)).toEqual([503, 500, 200]);
+    expect(received).toHaveLength(3);
+    // Retries resend the same delivery.
+    expect(new Set(received.map((r) => r.body)).size).toBe(1);
+
+    statuses = [500, 500, 500, 500];
+    const exhausted = await deliverWebhook(
+      store,
+      subscription(["run.completed"]),
+      "run.completed",
+      "run-2",
+      {},
+      noDelays
+    );
+    expect(exhausted.status).toBe("failed");
+    expect(exhausted.attempts).toHaveLength(4);
+    expect(exhausted.attempts[3].error).toBe("HTTP 500");
+
+    statuses = [410];
+    const rejected = await deliverWebhook(
+      store,
+      subscription(["run.completed"]),
+      "run.completed",
+      "run-3",
+      {},
+      noDelays
+    );
+    expect(rejected.attempts).toHaveLength(1);
+
+    const log = await store.listDeliveries();
+    expect(log.map((d) => [d.runId, d.status, d.attempts.length])).toEqual([
+      ["run-3", "failed", 1],
+      ["run-2", "failed", 4],
+      ["run-1", "delivered", 3],
+    ]);
+  });
+
+  test("announces completed runs and their new users", async () => {
+    await saveWebhooks(
+      {
+        subscriptions: [
+          subscription(["run.completed", "users.new"]),
+          { ...subscription(["run.failed"]), id: "sub-2" },
+        ],
+      },
+      file
+    );
+    const store = createMemoryRunStore();
+    const first = queryRun("run-1", "2024-01-01T00:00:00.000Z", [
+      "alice",
+      "bob",
+    ]);
+    const other = queryRun("run-2", "2024-01-02T00:00:00.000Z", ["zed"], [
+      "Gulu",
+    ]);
+    const latest = queryRun("run-3", "2024-01-08T00:00:00.000Z", [
+      "Alice",
+      "carol",
+    ]);
+    for (const run of [first, other, latest]) await store.save(run);
+
+    const initial = await notifyRunCompleted(store, first, noDelays);
+    expect(initial.map((d) => d.event)).toEqual(["run.completed"]);
+
+    received = [];
+    const deliveries = await notifyRunCompleted(store, latest, noDelays);
+    expect(deliveries.map((d) => d.event).sort()).toEqual([
+      "run.completed",
+      "users.new",
+    ]);
+    const payloads = received.map((r) => JSON.parse(r.body));
+    const newUsers = payloads.find((p) => p.event === "users.new");
+    expect(newUsers.data).toMatchObject({
+      runId: "run-3",
+      previousRunId: "run-1",
+      logins: ["carol"],
+    });
+    const completed = payloads.find((p) => p.event === "run.completed");
+    expect(completed.data).toMatchObject({
+      runId: "run-3",
+      locations: ["Kampala"],
+      stats: { keptAfterFilter: 2 },
+    });
+
+    received = [];
+    await notifyRunFailed(store, latest, "rate limited", noDelays);
+    expect(received).toHaveLength(1);
+    expect(JSON.parse(received[0].body)).toMatchObject({
+      event: "run.failed",
+      data: { runId: "run-3", error: "rate limited" },
+    });
+  });
+});